@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "FixtureFile" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FixtureFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FixtureFile_projectId_fileName_key" ON "FixtureFile"("projectId", "fileName");
+
+-- CreateIndex
+CREATE INDEX "FixtureFile_projectId_idx" ON "FixtureFile"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "FixtureFile" ADD CONSTRAINT "FixtureFile_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
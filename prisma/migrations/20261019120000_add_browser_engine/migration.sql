@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "BrowserEngine" AS ENUM ('chromium', 'firefox', 'webkit');
+
+-- AlterTable
+ALTER TABLE "Environment" ADD COLUMN "browser_engine" "BrowserEngine" NOT NULL DEFAULT 'chromium';
+
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN "browser_engine" "BrowserEngine";
+
+-- AlterTable
+ALTER TABLE "Schedule" ADD COLUMN "browser_engines" "BrowserEngine"[] DEFAULT ARRAY[]::"BrowserEngine"[];
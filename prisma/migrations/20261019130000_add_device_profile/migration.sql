@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN "device_profile" TEXT;
+
+-- AlterTable
+ALTER TABLE "Environment" ADD COLUMN "device_profile" TEXT;
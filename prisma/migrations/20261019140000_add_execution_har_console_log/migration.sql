@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN "harUrl" TEXT,
+ADD COLUMN "consoleLogUrl" TEXT;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "VisualBaseline" (
+    "id" TEXT NOT NULL,
+    "testCaseId" TEXT NOT NULL,
+    "environmentId" TEXT NOT NULL,
+    "viewport" TEXT NOT NULL,
+    "stepIndex" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "sourceExecutionId" TEXT,
+    "approvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VisualBaseline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VisualBaseline_testCaseId_environmentId_viewport_stepIndex_key" ON "VisualBaseline"("testCaseId", "environmentId", "viewport", "stepIndex");
+
+-- CreateIndex
+CREATE INDEX "VisualBaseline_testCaseId_idx" ON "VisualBaseline"("testCaseId");
+
+-- AddForeignKey
+ALTER TABLE "VisualBaseline" ADD CONSTRAINT "VisualBaseline_testCaseId_fkey" FOREIGN KEY ("testCaseId") REFERENCES "TestCase"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VisualBaseline" ADD CONSTRAINT "VisualBaseline_environmentId_fkey" FOREIGN KEY ("environmentId") REFERENCES "Environment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "AccessibilityAudit" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "applicationId" TEXT,
+    "executionId" TEXT NOT NULL,
+    "testCaseId" TEXT NOT NULL,
+    "stepIndex" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "failImpact" TEXT NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "violationCount" INTEGER NOT NULL,
+    "criticalCount" INTEGER NOT NULL DEFAULT 0,
+    "seriousCount" INTEGER NOT NULL DEFAULT 0,
+    "moderateCount" INTEGER NOT NULL DEFAULT 0,
+    "minorCount" INTEGER NOT NULL DEFAULT 0,
+    "violations" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccessibilityAudit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccessibilityAudit_projectId_createdAt_idx" ON "AccessibilityAudit"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AccessibilityAudit_applicationId_createdAt_idx" ON "AccessibilityAudit"("applicationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AccessibilityAudit_executionId_idx" ON "AccessibilityAudit"("executionId");
+
+-- AddForeignKey
+ALTER TABLE "AccessibilityAudit" ADD CONSTRAINT "AccessibilityAudit_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccessibilityAudit" ADD CONSTRAINT "AccessibilityAudit_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccessibilityAudit" ADD CONSTRAINT "AccessibilityAudit_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "Execution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
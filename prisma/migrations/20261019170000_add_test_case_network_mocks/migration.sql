@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TestCase" ADD COLUMN "network_mocks" JSONB DEFAULT '[]'::jsonb;
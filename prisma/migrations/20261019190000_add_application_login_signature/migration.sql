@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN "login_url_pattern" TEXT,
+ADD COLUMN "login_marker_selector" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "SelectorKnowledge" ADD COLUMN "frameContext" TEXT NOT NULL DEFAULT '';
+
+-- DropIndex
+DROP INDEX "SelectorKnowledge_projectId_applicationId_semanticKey_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SelectorKnowledge_project_app_context_key" ON "SelectorKnowledge"("projectId", "applicationId", "frameContext", "semanticKey");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Schedule" ADD COLUMN "selection_filter" JSONB;
+
+-- AlterTable
+ALTER TABLE "TestCase" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
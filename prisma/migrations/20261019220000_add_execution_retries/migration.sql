@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "TestRun" ADD COLUMN "schedule_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN "attempt" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "retry_of_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "TestRun_schedule_id_idx" ON "TestRun"("schedule_id");
+
+-- CreateIndex
+CREATE INDEX "Execution_retry_of_id_idx" ON "Execution"("retry_of_id");
+
+-- AddForeignKey
+ALTER TABLE "TestRun" ADD CONSTRAINT "TestRun_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "Schedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Execution" ADD CONSTRAINT "Execution_retry_of_id_fkey" FOREIGN KEY ("retry_of_id") REFERENCES "Execution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
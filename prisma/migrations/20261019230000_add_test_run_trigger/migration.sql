@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "TestRunTrigger" AS ENUM ('SCHEDULE', 'MANUAL', 'API', 'CI');
+
+-- AlterTable
+ALTER TABLE "TestRun" ADD COLUMN "trigger_type" "TestRunTrigger" NOT NULL DEFAULT 'SCHEDULE',
+ADD COLUMN "triggered_by_id" TEXT,
+ADD COLUMN "api_key_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "TestRun_projectId_trigger_type_idx" ON "TestRun"("projectId", "trigger_type");
+
+-- AddForeignKey
+ALTER TABLE "TestRun" ADD CONSTRAINT "TestRun_triggered_by_id_fkey" FOREIGN KEY ("triggered_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TestRun" ADD CONSTRAINT "TestRun_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "ApiKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
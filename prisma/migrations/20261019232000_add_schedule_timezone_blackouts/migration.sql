@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Schedule" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN "blackout_windows" JSONB;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "VisualBaseline" ADD COLUMN "browser_engine" "BrowserEngine" NOT NULL DEFAULT 'chromium';
+
+-- DropIndex
+DROP INDEX "VisualBaseline_testCaseId_environmentId_viewport_stepIndex_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VisualBaseline_testCase_env_engine_viewport_step_key" ON "VisualBaseline"("testCaseId", "environmentId", "browser_engine", "viewport", "stepIndex");
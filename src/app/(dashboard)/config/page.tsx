@@ -29,6 +29,8 @@ import { CONFIG_KEYS, MASKED_VALUE, SENSITIVE_KEYS, N8N_WEBHOOK_EVENT_KEYS, SLAC
 import { OPENAI_ALL_MODEL_IDS, OPENAI_MODEL_GROUPS } from "@/lib/config/openai-models";
 import { PROMPT_TEMPLATE_VARIABLES } from "@/lib/ai/prompt-template-variables";
 import { getNextRunFromCron, validateCronExpression } from "@/lib/scheduler/next-run";
+import { describeBlackoutWindow, findBlackoutWindow } from "@/lib/scheduler/blackout";
+import type { BlackoutWindow } from "@/lib/validations/schemas";
 
 /** AWS region codes (common regions; config can store any valid region). */
 const AWS_REGIONS = [
@@ -73,6 +75,36 @@ const S3_ACL_OPTIONS = [
   { value: "bucket-owner-full-control", label: "bucket-owner-full-control" },
 ] as const;
 
+/** Browser engines a schedule can fan E2E test cases out to. */
+const BROWSER_ENGINES = ["chromium", "firefox", "webkit"] as const;
+
+/** Chip options of a schedule's test case selection filter (see scheduleSelectionFilterSchema). */
+const SCHEDULE_FILTER_OPTIONS = {
+  priorities: ["CRITICAL", "HIGH", "MEDIUM", "LOW"],
+  testTypes: ["API", "E2E"],
+  categories: [
+    "FUNCTIONAL", "NEGATIVE", "VALIDATION", "SECURITY", "ROLE_BASED", "DATA_MASKING",
+    "ACCESS_CONTROL", "ERROR_HANDLING", "EDGE_CASE", "COMPLIANCE",
+  ],
+  ticketStatuses: ["DRAFT", "READY_TO_TEST", "DONE", "CANCEL"],
+} as const;
+type ScheduleSelectionList = keyof typeof SCHEDULE_FILTER_OPTIONS | "applicationIds" | "testCaseIds";
+
+/** Playwright trace capture per E2E execution. */
+const TRACE_MODE_OPTIONS = [
+  { value: "on_failure", label: "On failure only" },
+  { value: "always", label: "Always" },
+  { value: "off", label: "Off" },
+] as const;
+
+/** axe-core impact level at which accessibility assertions fail. */
+const ACCESSIBILITY_IMPACT_OPTIONS = [
+  { value: "critical", label: "Critical" },
+  { value: "serious", label: "Serious" },
+  { value: "moderate", label: "Moderate" },
+  { value: "minor", label: "Minor (any violation)" },
+] as const;
+
 const CRON_PRESETS: { id: string; label: string; value: string }[] = [
   { id: "daily-9", label: "Every day at 9:00", value: "0 9 * * *" },
   { id: "daily-0", label: "Every day at midnight", value: "0 0 * * *" },
@@ -84,21 +116,82 @@ const CRON_PRESETS: { id: string; label: string; value: string }[] = [
   { id: "weekly-sun", label: "Every Sunday at 2:00", value: "0 2 * * 0" },
 ];
 
+/** Suggestions for the schedule timezone input; any IANA zone is accepted. */
+const SCHEDULE_TIMEZONES = [
+  "UTC",
+  "Asia/Bangkok",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Asia/Kolkata",
+  "Australia/Sydney",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Los_Angeles",
+];
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+function emptyBlackoutDraft() {
+  return { type: "weekly" as BlackoutWindow["type"], label: "", days: [] as number[], start: "22:00", end: "02:00", from: "", to: "" };
+}
+
+/** Blackout window from the drawer's add-row, or an error message. */
+function blackoutFromDraft(draft: ReturnType<typeof emptyBlackoutDraft>): BlackoutWindow | string {
+  const label = draft.label.trim() || undefined;
+  if (draft.type === "weekly") {
+    if (draft.days.length === 0) return "Pick at least one day for the blackout window";
+    if (!draft.start || !draft.end) return "Blackout window needs a start and end time";
+    return { type: "weekly", label, days: [...draft.days].sort(), start: draft.start, end: draft.end };
+  }
+  if (!draft.from) return "Blackout window needs a start date";
+  const to = draft.to || draft.from;
+  if (to < draft.from) return "Blackout dates must end on or after their start";
+  return { type: "dates", label, from: draft.from, to };
+}
+
+/** Next run of the drawer's cron in its timezone and the blackout window it falls in; null when either is invalid. */
+function previewScheduleNextRun(cronExpression: string, timezone: string, windows: BlackoutWindow[]) {
+  try {
+    const nextRun = getNextRunFromCron(cronExpression, timezone);
+    return { nextRun, blackout: findBlackoutWindow(windows, nextRun, timezone) };
+  } catch {
+    return null;
+  }
+}
+
 interface ScheduleItem {
   id: string;
   name: string;
   cronExpression: string;
+  timezone?: string;
   isActive: boolean;
   nextRunAt: string | null;
   project: { id: string; name: string };
   environments: { id: string; name: string }[];
+  browserEngines?: string[];
 }
 
 const LABELS: Record<string, string> = {
   max_parallel_execution: "Max parallel execution",
   max_ai_tokens_per_run: "Max AI tokens per run",
   retry_limit: "Retry limit",
-  execution_timeout: "Execution timeout (ms)",
+  execution_timeout: "Execution timeout (ms, 0 = no limit)",
+  step_timeout: "Step timeout (ms, default for steps without their own; 0 = no limit)",
+  trace_mode: "Playwright trace capture",
+  trace_viewer_url: "Self-hosted trace viewer URL (empty = download only, no viewer link)",
+  visual_diff_threshold: "Visual match: max differing pixels (%)",
+  visual_pixel_threshold: "Visual match: per-pixel colour threshold (0–1, lower = stricter)",
+  accessibility_fail_impact: "Accessibility: fail on violations at or above",
+  session_cache_ttl_minutes: "E2E login session reuse (minutes, 0 = log in every execution)",
   global_rate_limit: "Global rate limit",
   run_test_mode: "Run on test mode (use /webhook-test/ for N8N)",
   openai_api_key: "OpenAI API key",
@@ -143,6 +236,13 @@ const SECTIONS: { title: string; description?: string; keys: readonly string[] }
       "max_ai_tokens_per_run",
       "retry_limit",
       "execution_timeout",
+      "step_timeout",
+      "trace_mode",
+      "trace_viewer_url",
+      "visual_diff_threshold",
+      "visual_pixel_threshold",
+      "accessibility_fail_impact",
+      "session_cache_ttl_minutes",
       "global_rate_limit",
     ],
   },
@@ -244,6 +344,34 @@ interface EnvironmentOption {
   id: string;
   name: string;
 }
+interface TestCaseOption {
+  id: string;
+  title: string;
+}
+interface ApplicationOption {
+  id: string;
+  name: string;
+}
+
+const emptyScheduleSelection = () => ({
+  testCaseIds: [] as string[],
+  priorities: [] as string[],
+  testTypes: [] as string[],
+  categories: [] as string[],
+  ticketStatuses: [] as string[],
+  applicationIds: [] as string[],
+  tags: "",
+});
+
+/** Body fields for the schedule's test case selection; null filter = no filter (default sweep or explicit list only). */
+function scheduleSelectionBody(form: ReturnType<typeof emptyScheduleSelection>) {
+  const { testCaseIds, tags, ...chips } = form;
+  const filter = {
+    ...Object.fromEntries(Object.entries(chips).filter(([, values]) => values.length > 0)),
+    ...(tags.trim() && { tags: tags.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean) }),
+  };
+  return { testCaseIds, selectionFilter: Object.keys(filter).length > 0 ? filter : null };
+}
 export default function ConfigPage() {
   const [config, setConfig] = useState<Record<string, string>>({});
   const [schedules, setSchedules] = useState<ScheduleItem[]>([]);
@@ -260,13 +388,24 @@ export default function ConfigPage() {
     name: "",
     projectId: "",
     environmentIds: [] as string[],
+    browserEngines: [] as string[],
     cronExpression: "",
+    timezone: browserTimeZone(),
+    blackoutWindows: [] as BlackoutWindow[],
     isActive: true,
     concurrencyLimit: 3,
+    maxRetries: 0,
+    retryBackoffSeconds: 60,
+    retrySelectorOrInfraOnly: false,
+    selection: emptyScheduleSelection(),
   });
+  const [scheduleTestCases, setScheduleTestCases] = useState<TestCaseOption[]>([]);
+  const [scheduleApplications, setScheduleApplications] = useState<ApplicationOption[]>([]);
+  const [schedulePreviewCount, setSchedulePreviewCount] = useState<number | null>(null);
   const [scheduleSubmitting, setScheduleSubmitting] = useState(false);
   const [scheduleError, setScheduleError] = useState("");
   const [scheduleCronIsCustom, setScheduleCronIsCustom] = useState(false);
+  const [blackoutDraft, setBlackoutDraft] = useState(emptyBlackoutDraft());
 
   type PlatformItem = { name: string; testTypes: string[] };
   const [platforms, setPlatforms] = useState<PlatformItem[]>([]);
@@ -326,13 +465,21 @@ export default function ConfigPage() {
     setScheduleDrawerOpen(true);
     setScheduleError("");
     setScheduleCronIsCustom(false);
+    setBlackoutDraft(emptyBlackoutDraft());
     setScheduleForm({
       name: "",
       projectId: "",
       environmentIds: [],
+      browserEngines: [],
       cronExpression: "",
+      timezone: browserTimeZone(),
+      blackoutWindows: [] as BlackoutWindow[],
       isActive: true,
       concurrencyLimit: 3,
+      maxRetries: 0,
+      retryBackoffSeconds: 60,
+      retrySelectorOrInfraOnly: false,
+      selection: emptyScheduleSelection(),
     });
     setEnvironments([]);
     fetch("/api/projects")
@@ -342,8 +489,11 @@ export default function ConfigPage() {
   };
 
   useEffect(() => {
+    setScheduleForm((prev) => ({ ...prev, selection: emptyScheduleSelection() }));
     if (!scheduleForm.projectId) {
       setEnvironments([]);
+      setScheduleTestCases([]);
+      setScheduleApplications([]);
       setScheduleForm((prev) => ({ ...prev, environmentIds: [] }));
       return;
     }
@@ -354,8 +504,58 @@ export default function ConfigPage() {
         setEnvironments(Array.isArray(list) ? list : []);
         setScheduleForm((prev) => ({ ...prev, environmentIds: [] }));
       });
+    fetch(`/api/test-cases?projectId=${scheduleForm.projectId}&limit=100&sortBy=title&sortOrder=asc`)
+      .then((r) => (r.ok ? r.json() : { data: [] }))
+      .then((res) => setScheduleTestCases(Array.isArray(res?.data) ? res.data : []))
+      .catch(() => setScheduleTestCases([]));
+    fetch(`/api/applications?projectId=${scheduleForm.projectId}&limit=100`)
+      .then((r) => (r.ok ? r.json() : { data: [] }))
+      .then((res) => setScheduleApplications(Array.isArray(res?.data) ? res.data : []))
+      .catch(() => setScheduleApplications([]));
   }, [scheduleForm.projectId]);
 
+  // Preview how many test cases the selection picks (debounced while typing tags)
+  useEffect(() => {
+    if (!scheduleDrawerOpen || !scheduleForm.projectId) {
+      setSchedulePreviewCount(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      fetch("/api/schedules/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId: scheduleForm.projectId, ...scheduleSelectionBody(scheduleForm.selection) }),
+      })
+        .then((r) => (r.ok ? r.json() : null))
+        .then((data) => setSchedulePreviewCount(typeof data?.count === "number" ? data.count : null))
+        .catch(() => setSchedulePreviewCount(null));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [scheduleDrawerOpen, scheduleForm.projectId, scheduleForm.selection]);
+
+  const toggleScheduleFilter = (key: ScheduleSelectionList, value: string) =>
+    setScheduleForm((p) => {
+      const current = p.selection[key];
+      return {
+        ...p,
+        selection: {
+          ...p.selection,
+          [key]: current.includes(value) ? current.filter((x) => x !== value) : [...current, value],
+        },
+      };
+    });
+
+  const addBlackoutWindow = () => {
+    const window = blackoutFromDraft(blackoutDraft);
+    if (typeof window === "string") {
+      setScheduleError(window);
+      return;
+    }
+    setScheduleError("");
+    setScheduleForm((p) => ({ ...p, blackoutWindows: [...p.blackoutWindows, window] }));
+    setBlackoutDraft(emptyBlackoutDraft());
+  };
+
   const handleCreateSchedule = async (e: React.FormEvent) => {
     e.preventDefault();
     setScheduleError("");
@@ -375,6 +575,10 @@ export default function ConfigPage() {
       setScheduleError("Cron expression is required");
       return;
     }
+    if (!scheduleForm.timezone.trim()) {
+      setScheduleError("Timezone is required");
+      return;
+    }
     setScheduleSubmitting(true);
     try {
       const res = await fetch("/api/schedules", {
@@ -383,10 +587,21 @@ export default function ConfigPage() {
         body: JSON.stringify({
           projectId: scheduleForm.projectId,
           environmentIds: scheduleForm.environmentIds,
+          browserEngines: scheduleForm.browserEngines,
           name: scheduleForm.name.trim(),
           cronExpression: scheduleForm.cronExpression.trim(),
+          timezone: scheduleForm.timezone.trim(),
+          blackoutWindows: scheduleForm.blackoutWindows,
           concurrencyLimit: scheduleForm.concurrencyLimit,
           isActive: scheduleForm.isActive,
+          ...(scheduleForm.maxRetries > 0 && {
+            retryPolicy: {
+              maxRetries: scheduleForm.maxRetries,
+              backoffMs: scheduleForm.retryBackoffSeconds * 1000,
+              retryOn: scheduleForm.retrySelectorOrInfraOnly ? "selector_or_infra" : "any",
+            },
+          }),
+          ...scheduleSelectionBody(scheduleForm.selection),
         }),
       });
       const data = await res.json();
@@ -666,6 +881,28 @@ export default function ConfigPage() {
                         <option key={opt.value || "_empty"} value={opt.value}>{opt.label}</option>
                       ))}
                     </select>
+                  ) : key === "trace_mode" ? (
+                    <select
+                      id={key}
+                      value={current || "on_failure"}
+                      onChange={(e) => handleChange(key, e.target.value)}
+                      className="flex h-9 w-full max-w-xl rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                    >
+                      {TRACE_MODE_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
+                  ) : key === "accessibility_fail_impact" ? (
+                    <select
+                      id={key}
+                      value={current || "serious"}
+                      onChange={(e) => handleChange(key, e.target.value)}
+                      className="flex h-9 w-full max-w-xl rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                    >
+                      {ACCESSIBILITY_IMPACT_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
                   ) : key === "google_allow_manual_login" ? (
                     <div className="flex items-center gap-2">
                       <Switch
@@ -1014,6 +1251,7 @@ export default function ConfigPage() {
                         <TableHead>Name</TableHead>
                         <TableHead>Project</TableHead>
                         <TableHead>Environments</TableHead>
+                        <TableHead>Browsers</TableHead>
                         <TableHead>Cron</TableHead>
                         <TableHead>Next run</TableHead>
                         <TableHead>Status</TableHead>
@@ -1022,7 +1260,7 @@ export default function ConfigPage() {
                     <TableBody>
                       {schedules.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={6} className="py-12 text-center text-sm text-muted-foreground">
+                          <TableCell colSpan={7} className="py-12 text-center text-sm text-muted-foreground">
                             No schedules yet. Create one to run tests on a schedule.
                           </TableCell>
                         </TableRow>
@@ -1034,7 +1272,13 @@ export default function ConfigPage() {
                             <TableCell className="text-muted-foreground">
                               {s.environments?.length ? s.environments.map((e) => e.name).join(", ") : "—"}
                             </TableCell>
-                            <TableCell className="font-mono text-xs">{s.cronExpression}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {s.browserEngines?.length ? s.browserEngines.join(", ") : "Environment default"}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs">
+                              {s.cronExpression}
+                              {s.timezone && <span className="block text-muted-foreground">{s.timezone}</span>}
+                            </TableCell>
                             <TableCell className="text-muted-foreground">
                               {s.nextRunAt ? new Date(s.nextRunAt).toLocaleString() : "—"}
                             </TableCell>
@@ -1146,7 +1390,7 @@ export default function ConfigPage() {
               <div>
                 <SheetTitle>Create schedule</SheetTitle>
                 <SheetDescription>
-                  Set up a recurring test run. Select project, one or more environments, and cron. Ready test cases will run automatically.
+                  Set up a recurring test run. Select project, one or more environments, and cron. Ready test cases (or the selection below) run automatically.
                 </SheetDescription>
               </div>
               <div className="flex gap-2 shrink-0">
@@ -1233,6 +1477,122 @@ export default function ConfigPage() {
                     </div>
                   )}
                 </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-muted-foreground">Browser engines (E2E)</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {BROWSER_ENGINES.map((engine) => {
+                      const selected = scheduleForm.browserEngines.includes(engine);
+                      return (
+                        <button
+                          key={engine}
+                          type="button"
+                          onClick={() =>
+                            setScheduleForm((p) => ({
+                              ...p,
+                              browserEngines: selected
+                                ? p.browserEngines.filter((x) => x !== engine)
+                                : [...p.browserEngines, engine],
+                            }))
+                          }
+                          className={`rounded-md border px-2 py-1 text-xs ${
+                            selected ? "border-accent bg-accent/15 text-foreground" : "border-border bg-background hover:bg-elevated"
+                          }`}
+                        >
+                          {engine}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each E2E test case runs once per selected engine. None selected: each environment&apos;s browser engine.
+                  </p>
+                </div>
+                <div className="space-y-3 rounded-lg border border-border p-3">
+                  <label className="block text-sm font-medium text-muted-foreground">Test cases</label>
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Specific test cases (optional)</p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {scheduleForm.selection.testCaseIds.map((tcId) => (
+                        <span key={tcId} className="inline-flex items-center gap-1 rounded-md bg-elevated px-2 py-0.5 text-xs font-medium">
+                          {scheduleTestCases.find((tc) => tc.id === tcId)?.title ?? tcId}
+                          <button
+                            type="button"
+                            onClick={() => toggleScheduleFilter("testCaseIds", tcId)}
+                            className="rounded hover:bg-background p-0.5"
+                            aria-label="Remove test case"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && toggleScheduleFilter("testCaseIds", e.target.value)}
+                      className={selectClass}
+                      disabled={!scheduleForm.projectId}
+                    >
+                      <option value="">+ Add test case…</option>
+                      {scheduleTestCases
+                        .filter((tc) => !scheduleForm.selection.testCaseIds.includes(tc.id))
+                        .map((tc) => (
+                          <option key={tc.id} value={tc.id}>
+                            {tc.title}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  {(
+                    [
+                      ["Priority", "priorities", SCHEDULE_FILTER_OPTIONS.priorities.map((v) => [v, v])],
+                      ["Test type", "testTypes", SCHEDULE_FILTER_OPTIONS.testTypes.map((v) => [v, v])],
+                      ["Category", "categories", SCHEDULE_FILTER_OPTIONS.categories.map((v) => [v, v.replace(/_/g, " ")])],
+                      ["Ticket status", "ticketStatuses", SCHEDULE_FILTER_OPTIONS.ticketStatuses.map((v) => [v, v.replace(/_/g, " ")])],
+                      ["Application", "applicationIds", scheduleApplications.map((a) => [a.id, a.name])],
+                    ] as [string, ScheduleSelectionList, string[][]][]
+                  ).map(([title, key, options]) =>
+                    options.length === 0 ? null : (
+                      <div key={key} className="space-y-1">
+                        <p className="text-xs text-muted-foreground">{title}</p>
+                        <div className="flex flex-wrap gap-1.5">
+                          {options.map(([value, optionLabel]) => {
+                            const selected = scheduleForm.selection[key].includes(value);
+                            return (
+                              <button
+                                key={value}
+                                type="button"
+                                onClick={() => toggleScheduleFilter(key, value)}
+                                className={`rounded-md border px-2 py-1 text-xs ${
+                                  selected ? "border-accent bg-accent/15 text-foreground" : "border-border bg-background hover:bg-elevated"
+                                }`}
+                              >
+                                {optionLabel}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )
+                  )}
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Tags (any of)</p>
+                    <Input
+                      value={scheduleForm.selection.tags}
+                      onChange={(e) => setScheduleForm((p) => ({ ...p, selection: { ...p.selection, tags: e.target.value } }))}
+                      placeholder="e.g. smoke, regression"
+                      className="w-full"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Nothing selected: ready test cases of READY_TO_TEST tickets. With a selection, matching test cases re-run on every schedule run.
+                  </p>
+                  {schedulePreviewCount !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      Would pick <span className="text-foreground font-medium">{schedulePreviewCount}</span> test case
+                      {schedulePreviewCount === 1 ? "" : "s"} right now.
+                    </p>
+                  )}
+                </div>
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-muted-foreground">Schedule</label>
                   <select
@@ -1274,21 +1634,146 @@ export default function ConfigPage() {
                       </p>
                     </div>
                   )}
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Timezone (the cron expression and blackout windows use it)</p>
+                    <Input
+                      value={scheduleForm.timezone}
+                      onChange={(e) => setScheduleForm((p) => ({ ...p, timezone: e.target.value }))}
+                      placeholder="e.g. Asia/Bangkok"
+                      list="schedule-timezones"
+                      className="w-full"
+                    />
+                    <datalist id="schedule-timezones">
+                      {SCHEDULE_TIMEZONES.map((tz) => (
+                        <option key={tz} value={tz} />
+                      ))}
+                    </datalist>
+                  </div>
                   {scheduleForm.cronExpression.trim() && (
                     <p className="text-xs text-muted-foreground">
                       {validateCronExpression(scheduleForm.cronExpression) ? (
-                        <>
-                          Next run:{" "}
-                          <span className="text-foreground font-medium">
-                            {getNextRunFromCron(scheduleForm.cronExpression).toLocaleString()}
-                          </span>
-                        </>
+                        (() => {
+                          const preview = previewScheduleNextRun(
+                            scheduleForm.cronExpression,
+                            scheduleForm.timezone.trim(),
+                            scheduleForm.blackoutWindows
+                          );
+                          if (!preview) return <span className="text-destructive">Unknown timezone.</span>;
+                          return (
+                            <>
+                              Next run:{" "}
+                              <span className="text-foreground font-medium">{preview.nextRun.toLocaleString()}</span>
+                              {preview.blackout && (
+                                <span className="text-warning"> (skipped: blackout {describeBlackoutWindow(preview.blackout)})</span>
+                              )}
+                            </>
+                          );
+                        })()
                       ) : (
                         <span className="text-destructive">Invalid cron expression.</span>
                       )}
                     </p>
                   )}
                 </div>
+                <div className="space-y-2 rounded-lg border border-border p-3">
+                  <label className="block text-sm font-medium text-muted-foreground">Blackout windows</label>
+                  {scheduleForm.blackoutWindows.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {scheduleForm.blackoutWindows.map((w, i) => (
+                        <span key={i} className="inline-flex items-center gap-1 rounded-md bg-elevated px-2 py-0.5 text-xs font-medium">
+                          {describeBlackoutWindow(w)}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setScheduleForm((p) => ({ ...p, blackoutWindows: p.blackoutWindows.filter((_, j) => j !== i) }))
+                            }
+                            className="rounded hover:bg-background p-0.5"
+                            aria-label="Remove blackout window"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={blackoutDraft.type}
+                      onChange={(e) => setBlackoutDraft((d) => ({ ...d, type: e.target.value as BlackoutWindow["type"] }))}
+                      className={selectClass}
+                    >
+                      <option value="weekly">Weekly (e.g. deployment window)</option>
+                      <option value="dates">Dates (e.g. public holiday)</option>
+                    </select>
+                    <Input
+                      value={blackoutDraft.label}
+                      onChange={(e) => setBlackoutDraft((d) => ({ ...d, label: e.target.value }))}
+                      placeholder="Label (optional)"
+                      className="w-full"
+                    />
+                  </div>
+                  {blackoutDraft.type === "weekly" ? (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap gap-1.5">
+                        {WEEKDAY_LABELS.map((dayLabel, day) => {
+                          const selected = blackoutDraft.days.includes(day);
+                          return (
+                            <button
+                              key={day}
+                              type="button"
+                              onClick={() =>
+                                setBlackoutDraft((d) => ({
+                                  ...d,
+                                  days: selected ? d.days.filter((x) => x !== day) : [...d.days, day],
+                                }))
+                              }
+                              className={`rounded-md border px-2 py-1 text-xs ${
+                                selected ? "border-accent bg-accent/15 text-foreground" : "border-border bg-background hover:bg-elevated"
+                              }`}
+                            >
+                              {dayLabel}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          type="time"
+                          value={blackoutDraft.start}
+                          onChange={(e) => setBlackoutDraft((d) => ({ ...d, start: e.target.value }))}
+                          className="w-full"
+                        />
+                        <Input
+                          type="time"
+                          value={blackoutDraft.end}
+                          onChange={(e) => setBlackoutDraft((d) => ({ ...d, end: e.target.value }))}
+                          className="w-full"
+                        />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="date"
+                        value={blackoutDraft.from}
+                        onChange={(e) => setBlackoutDraft((d) => ({ ...d, from: e.target.value }))}
+                        className="w-full"
+                      />
+                      <Input
+                        type="date"
+                        value={blackoutDraft.to}
+                        onChange={(e) => setBlackoutDraft((d) => ({ ...d, to: e.target.value }))}
+                        className="w-full"
+                      />
+                    </div>
+                  )}
+                  <Button type="button" variant="secondary" size="sm" onClick={addBlackoutWindow}>
+                    Add blackout window
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    Runs due inside a window are skipped (and logged); an end time before the start runs past midnight.
+                  </p>
+                </div>
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-muted-foreground">Concurrency limit</label>
                   <Input
@@ -1302,6 +1787,51 @@ export default function ConfigPage() {
                     className="w-full"
                   />
                 </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-muted-foreground">Retry failed executions</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">Max retries (0 = off)</p>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={scheduleForm.maxRetries}
+                        onChange={(e) =>
+                          setScheduleForm((p) => ({ ...p, maxRetries: Math.min(10, Math.max(0, parseInt(e.target.value, 10) || 0)) }))
+                        }
+                        className="w-full"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">Backoff (seconds)</p>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={scheduleForm.retryBackoffSeconds}
+                        onChange={(e) =>
+                          setScheduleForm((p) => ({ ...p, retryBackoffSeconds: Math.max(0, parseInt(e.target.value, 10) || 0) }))
+                        }
+                        className="w-full"
+                        disabled={scheduleForm.maxRetries === 0}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="schedule-retry-flaky-only"
+                      checked={scheduleForm.retrySelectorOrInfraOnly}
+                      onCheckedChange={(checked) => setScheduleForm((p) => ({ ...p, retrySelectorOrInfraOnly: checked }))}
+                      disabled={scheduleForm.maxRetries === 0}
+                    />
+                    <label htmlFor="schedule-retry-flaky-only" className="text-sm text-muted-foreground cursor-pointer">
+                      Only selector / infrastructure failures
+                    </label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each retry is a new execution in the run history, so passes on retry stay visible.
+                  </p>
+                </div>
                 <div className="flex items-center gap-2">
                   <Switch
                     id="schedule-active"
@@ -9,13 +9,22 @@ import { Button } from "@/components/ui/button";
 import { PageHeader } from "@/components/ui/page-header";
 import { VideoPreview } from "@/components/executions/video-preview";
 import { ChevronDown, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
 import { getExecutionDisplayStatus, executionStatusBadgeVariant, executionStatusLabel } from "@/lib/execution-status";
 
 interface ExecutionDetail {
   id: string;
   status: string;
   duration: number | null;
+  browserEngine?: string | null;
+  /** 2+ when re-queued by the schedule's retry policy; retryOfId = the failed attempt before it. */
+  attempt?: number;
+  retryOfId?: string | null;
   videoUrl: string | null;
+  traceUrl?: string | null;
+  traceViewerUrl?: string | null;
+  harUrl?: string | null;
+  consoleLogUrl?: string | null;
   screenshotUrls: string[] | null;
   stepLog: Array<{
     order: number;
@@ -25,6 +34,34 @@ interface ExecutionDetail {
     failure_type?: string | null;
     error_message?: string | null;
     screenshotUrl?: string;
+    api_call?: {
+      request: { method: string; url: string; headers: Record<string, string>; body?: unknown };
+      response: { status: number; headers: Record<string, string>; body?: unknown; durationMs: number } | null;
+    };
+    extracted?: Record<string, string>;
+    console_errors?: Array<{ type: "console" | "pageerror"; message: string; url?: string }>;
+    login_triggered?: boolean;
+    assertions?: Array<{ type: string; passed: boolean; error?: string }>;
+    page_index?: number;
+    frame?: string;
+    actor?: string;
+    dialogs?: Array<{ type: string; message: string; accepted: boolean }>;
+    visual?: {
+      status: "MATCH" | "MISMATCH" | "SIZE_MISMATCH" | "NO_BASELINE";
+      viewport: string;
+      actual_url: string;
+      baseline_url?: string;
+      diff_url?: string;
+      diff_percent?: number;
+      threshold: number;
+      approved_at?: string;
+    };
+    accessibility?: {
+      url: string;
+      fail_impact: string;
+      violations: Array<{ id: string; impact: string | null; help: string; help_url: string; nodes: number; targets: string[] }>;
+      passes: number;
+    };
   }> | null;
   resultSummary: string | null;
   errorMessage: string | null;
@@ -32,6 +69,18 @@ interface ExecutionDetail {
     base_url?: string;
     test_data?: Record<string, string | undefined>;
     execution_status?: string;
+    device_profile?: {
+      name: string;
+      viewport: { width: number; height: number };
+      device_scale_factor: number;
+      is_mobile: boolean;
+      has_touch: boolean;
+    };
+    uploaded_files?: Array<{ file_name: string; content_type: string; size_bytes: number; step_index: number }>;
+    downloads?: Array<{ file_name: string; content_type: string; size_bytes: number; step_index: number; url: string }>;
+    auth_session?: "reused" | "expired" | "new";
+    network_mocks?: Array<{ url: string; method: string | null; status: number | null; delay_ms: number | null; hits: number }>;
+    actor_artifacts?: Array<{ role: string; video_url?: string; trace_url?: string; har_url?: string }>;
   } | null;
   readableSteps?: string[] | null;
   agentExecution?: unknown;
@@ -46,6 +95,7 @@ export default function ExecutionDetailPage() {
   const id = params.id as string;
   const [exec, setExec] = useState<ExecutionDetail | null>(null);
   const [showRawExecution, setShowRawExecution] = useState(false);
+  const [approvingStep, setApprovingStep] = useState<number | null>(null);
 
   useEffect(() => {
     if (!id) return;
@@ -55,6 +105,29 @@ export default function ExecutionDetailPage() {
       .catch(() => setExec(null));
   }, [id]);
 
+  const approveVisualBaseline = async (stepIndex: number) => {
+    setApprovingStep(stepIndex);
+    try {
+      const res = await fetch(`/api/executions/${id}/visual-baseline`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stepIndex }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(typeof data.error === "string" ? data.error : "Failed to approve baseline");
+        return;
+      }
+      toast.success("Screenshot approved as new baseline");
+      const refreshed = await fetch(`/api/executions/${id}`).then((r) => r.json());
+      setExec(refreshed);
+    } catch {
+      toast.error("Network error");
+    } finally {
+      setApprovingStep(null);
+    }
+  };
+
   if (!exec) {
     return (
       <div className="flex items-center justify-center py-24">
@@ -110,6 +183,56 @@ export default function ExecutionDetailPage() {
                 {exec.environment?.name ?? "—"}
               </span>
             </div>
+            {(exec.attempt ?? 1) > 1 && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Attempt</span>
+                <span className="text-foreground">
+                  {exec.attempt}
+                  {exec.retryOfId && (
+                    <>
+                      {" · "}
+                      <Link href={`/executions/${exec.retryOfId}`} className="text-primary hover:underline">
+                        previous attempt
+                      </Link>
+                    </>
+                  )}
+                </span>
+              </div>
+            )}
+            {exec.browserEngine && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Browser</span>
+                <span className="text-foreground">{exec.browserEngine}</span>
+              </div>
+            )}
+            {exec.browserEngine && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Device</span>
+                {exec.executionMetadata?.device_profile ? (
+                  <span
+                    className="text-foreground"
+                    title={`${exec.executionMetadata.device_profile.device_scale_factor}x${exec.executionMetadata.device_profile.is_mobile ? " · mobile" : ""}${exec.executionMetadata.device_profile.has_touch ? " · touch" : ""}`}
+                  >
+                    {exec.executionMetadata.device_profile.name} ({exec.executionMetadata.device_profile.viewport.width}×
+                    {exec.executionMetadata.device_profile.viewport.height})
+                  </span>
+                ) : (
+                  <span className="text-foreground">Desktop (1280×720)</span>
+                )}
+              </div>
+            )}
+            {exec.executionMetadata?.auth_session && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Login session</span>
+                <span className="text-foreground">
+                  {exec.executionMetadata.auth_session === "reused"
+                    ? "Reused cached session"
+                    : exec.executionMetadata.auth_session === "expired"
+                      ? "Cached session expired, logged in again"
+                      : "Logged in, session cached"}
+                </span>
+              </div>
+            )}
             {exec.resultSummary && (
               <div className="pt-2 border-t border-border">
                 <span className="text-sm text-muted-foreground">Result</span>
@@ -131,6 +254,68 @@ export default function ExecutionDetailPage() {
               src={exec.videoUrl}
               className="w-full aspect-video rounded-lg"
             />
+            {exec.traceUrl && (
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground mr-auto">Playwright trace</span>
+                <Button variant="secondary" size="sm" asChild>
+                  <a href={exec.traceUrl} download>
+                    Download trace
+                  </a>
+                </Button>
+                {exec.traceViewerUrl && (
+                  <Button variant="secondary" size="sm" asChild>
+                    <a href={exec.traceViewerUrl} target="_blank" rel="noopener noreferrer">
+                      Open in trace viewer
+                    </a>
+                  </Button>
+                )}
+              </div>
+            )}
+            {(exec.harUrl || exec.consoleLogUrl) && (
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground mr-auto">Network &amp; console</span>
+                {exec.harUrl && (
+                  <Button variant="secondary" size="sm" asChild>
+                    <a href={exec.harUrl} download>
+                      Download HAR
+                    </a>
+                  </Button>
+                )}
+                {exec.consoleLogUrl && (
+                  <Button variant="secondary" size="sm" asChild>
+                    <a href={exec.consoleLogUrl} target="_blank" rel="noopener noreferrer">
+                      Console errors
+                    </a>
+                  </Button>
+                )}
+              </div>
+            )}
+            {exec.executionMetadata?.actor_artifacts?.map((actor, i) => (
+              <div key={i} className="mt-4 flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground mr-auto">Actor {actor.role}</span>
+                {actor.video_url && (
+                  <Button variant="secondary" size="sm" asChild>
+                    <a href={actor.video_url} target="_blank" rel="noopener noreferrer">
+                      Video
+                    </a>
+                  </Button>
+                )}
+                {actor.trace_url && (
+                  <Button variant="secondary" size="sm" asChild>
+                    <a href={actor.trace_url} download>
+                      Download trace
+                    </a>
+                  </Button>
+                )}
+                {actor.har_url && (
+                  <Button variant="secondary" size="sm" asChild>
+                    <a href={actor.har_url} download>
+                      Download HAR
+                    </a>
+                  </Button>
+                )}
+              </div>
+            ))}
           </CardContent>
         </Card>
       </div>
@@ -162,6 +347,55 @@ export default function ExecutionDetailPage() {
                 </dl>
               </div>
             )}
+            {exec.executionMetadata.uploaded_files && exec.executionMetadata.uploaded_files.length > 0 && (
+              <div>
+                <span className="text-sm text-muted-foreground">Uploaded files</span>
+                <ul className="mt-1.5 space-y-1 text-sm">
+                  {exec.executionMetadata.uploaded_files.map((f) => (
+                    <li key={`${f.step_index}-${f.file_name}`} className="font-mono">
+                      Step {f.step_index}: {f.file_name}{" "}
+                      <span className="text-muted-foreground">
+                        ({f.content_type}, {f.size_bytes} bytes)
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {exec.executionMetadata.downloads && exec.executionMetadata.downloads.length > 0 && (
+              <div>
+                <span className="text-sm text-muted-foreground">Downloaded files</span>
+                <ul className="mt-1.5 space-y-1 text-sm">
+                  {exec.executionMetadata.downloads.map((f) => (
+                    <li key={`${f.step_index}-${f.file_name}`} className="font-mono">
+                      Step {f.step_index}:{" "}
+                      <a href={f.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                        {f.file_name}
+                      </a>{" "}
+                      <span className="text-muted-foreground">
+                        ({f.content_type}, {f.size_bytes} bytes)
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {exec.executionMetadata.network_mocks && exec.executionMetadata.network_mocks.length > 0 && (
+              <div>
+                <span className="text-sm text-muted-foreground">Network mocks</span>
+                <ul className="mt-1.5 space-y-1 text-sm">
+                  {exec.executionMetadata.network_mocks.map((m, i) => (
+                    <li key={i} className="font-mono">
+                      {m.method ?? "ANY"} {m.url}{" "}
+                      <span className="text-muted-foreground">
+                        ({[m.status != null && `status ${m.status}`, m.delay_ms && `delay ${m.delay_ms} ms`].filter(Boolean).join(", ")};{" "}
+                        {m.hits} request{m.hits === 1 ? "" : "s"} intercepted)
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -201,6 +435,22 @@ export default function ExecutionDetailPage() {
                   </Badge>
                   <div className="min-w-0 flex-1">
                     <span className="font-medium text-foreground">{step.action}</span>
+                    {step.login_triggered !== undefined && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {step.login_triggered ? "login performed" : "login skipped"}
+                      </span>
+                    )}
+                    {(step.actor || (step.page_index ?? 0) > 0 || step.frame) && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {[
+                          step.actor && `as ${step.actor}`,
+                          (step.page_index ?? 0) > 0 && `tab ${(step.page_index ?? 0) + 1}`,
+                          step.frame && `frame ${step.frame}`,
+                        ]
+                          .filter(Boolean)
+                          .join(" › ")}
+                      </span>
+                    )}
                     {(step.failure_type ?? step.error) && (
                       <p className="mt-0.5 text-xs text-muted-foreground">
                         {step.failure_type && (
@@ -215,6 +465,161 @@ export default function ExecutionDetailPage() {
                         )}
                       </p>
                     )}
+                    {step.api_call && (
+                      <details className="mt-2">
+                        <summary className="cursor-pointer text-xs font-mono text-muted-foreground">
+                          {step.api_call.request.method} {step.api_call.request.url}
+                          {step.api_call.response
+                            ? ` → ${step.api_call.response.status} (${step.api_call.response.durationMs}ms)`
+                            : " → no response"}
+                        </summary>
+                        <div className="mt-2 grid gap-2 lg:grid-cols-2">
+                          <div>
+                            <span className="text-xs text-muted-foreground">Request</span>
+                            <pre className="mt-1 max-h-64 overflow-auto rounded-md border border-border bg-muted/30 p-2 text-xs">
+                              {JSON.stringify(
+                                { headers: step.api_call.request.headers, body: step.api_call.request.body },
+                                null,
+                                2
+                              )}
+                            </pre>
+                          </div>
+                          <div>
+                            <span className="text-xs text-muted-foreground">Response</span>
+                            <pre className="mt-1 max-h-64 overflow-auto rounded-md border border-border bg-muted/30 p-2 text-xs">
+                              {step.api_call.response
+                                ? JSON.stringify(
+                                    { headers: step.api_call.response.headers, body: step.api_call.response.body },
+                                    null,
+                                    2
+                                  )
+                                : "—"}
+                            </pre>
+                          </div>
+                        </div>
+                      </details>
+                    )}
+                    {step.assertions && step.assertions.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {step.assertions.map((a, i) => (
+                          <Badge
+                            key={i}
+                            variant={a.passed ? "success" : "destructive"}
+                            className="text-xs font-normal"
+                            title={a.error}
+                          >
+                            {a.type.replace(/_/g, " ")}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {step.extracted && Object.keys(step.extracted).length > 0 && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Saved:{" "}
+                        {Object.entries(step.extracted).map(([name, value]) => (
+                          <span key={name} className="mr-2 font-mono">
+                            {name}={value}
+                          </span>
+                        ))}
+                      </p>
+                    )}
+                    {step.dialogs && step.dialogs.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                        {step.dialogs.map((d, i) => (
+                          <li key={i} className="break-words">
+                            {d.type} dialog {d.accepted ? "accepted" : "dismissed"}: <span className="font-mono">{d.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {step.console_errors && step.console_errors.length > 0 && (
+                      <details className="mt-2">
+                        <summary className="cursor-pointer text-xs text-destructive">
+                          {step.console_errors.length} console error{step.console_errors.length === 1 ? "" : "s"}
+                        </summary>
+                        <ul className="mt-1 space-y-1">
+                          {step.console_errors.map((err, i) => (
+                            <li key={i} className="rounded border border-border bg-muted/30 px-2 py-1 text-xs font-mono break-words">
+                              <span className="text-muted-foreground">[{err.type}]</span> {err.message}
+                              {err.url && <span className="block text-muted-foreground">{err.url}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                    {step.visual && (
+                      <div className="mt-2 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                          <Badge variant={step.visual.status === "MATCH" ? "success" : step.visual.status === "NO_BASELINE" ? "default" : "destructive"}>
+                            {step.visual.status.replace(/_/g, " ")}
+                          </Badge>
+                          <span className="text-muted-foreground font-mono">{step.visual.viewport}</span>
+                          {step.visual.diff_percent != null && (
+                            <span className="text-muted-foreground">
+                              {step.visual.diff_percent.toFixed(2)}% differ (threshold {step.visual.threshold}%)
+                            </span>
+                          )}
+                          {step.visual.approved_at ? (
+                            <span className="ml-auto text-muted-foreground">Approved as baseline</span>
+                          ) : step.visual.status !== "MATCH" && (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              className="ml-auto"
+                              disabled={approvingStep === step.order}
+                              onClick={() => approveVisualBaseline(step.order)}
+                            >
+                              {approvingStep === step.order ? "Approving…" : "Approve as new baseline"}
+                            </Button>
+                          )}
+                        </div>
+                        <div className="grid gap-2 sm:grid-cols-3">
+                          {[
+                            { label: "Baseline", url: step.visual.baseline_url },
+                            { label: "Actual", url: step.visual.actual_url },
+                            { label: "Diff", url: step.visual.diff_url },
+                          ].map(({ label, url }) => (
+                            <div key={label}>
+                              <span className="text-xs text-muted-foreground">{label}</span>
+                              {url ? (
+                                <a href={url} target="_blank" rel="noopener noreferrer">
+                                  <img
+                                    src={url}
+                                    alt={`Step ${step.order} ${label.toLowerCase()}`}
+                                    className="mt-1 rounded border border-border max-h-48 object-contain block"
+                                  />
+                                </a>
+                              ) : (
+                                <p className="mt-1 text-xs text-muted-foreground">—</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {step.accessibility && (
+                      <details className="mt-2" open={!step.passed}>
+                        <summary className={`cursor-pointer text-xs ${step.accessibility.violations.length > 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                          Accessibility: {step.accessibility.violations.length} violation{step.accessibility.violations.length === 1 ? "" : "s"}, {step.accessibility.passes} rules passed (fails at {step.accessibility.fail_impact})
+                        </summary>
+                        <ul className="mt-1 space-y-1">
+                          {step.accessibility.violations.map((v) => (
+                            <li key={v.id} className="rounded border border-border bg-muted/30 px-2 py-1 text-xs break-words">
+                              <Badge variant={v.impact === "critical" || v.impact === "serious" ? "destructive" : "warning"}>
+                                {v.impact ?? "unknown"}
+                              </Badge>{" "}
+                              <a href={v.help_url} target="_blank" rel="noopener noreferrer" className="font-mono text-primary hover:underline">
+                                {v.id}
+                              </a>{" "}
+                              {v.help} ({v.nodes} element{v.nodes === 1 ? "" : "s"})
+                              {v.targets.length > 0 && (
+                                <span className="block font-mono text-muted-foreground">{v.targets.join(", ")}</span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                     {"screenshotUrl" in step && step.screenshotUrl && (
                       <div className="mt-2 space-y-1">
                         <a
@@ -22,6 +22,7 @@ export default function ExecutionsPage() {
       status: string;
       executionMetadata?: { execution_status?: string } | null;
       duration: number | null;
+      browserEngine?: string | null;
       createdAt: string;
       testCase: { title: string };
       environment: { name: string };
@@ -55,6 +56,7 @@ export default function ExecutionsPage() {
                 <TableHead>Test Case</TableHead>
                 <TableHead>Project</TableHead>
                 <TableHead>Environment</TableHead>
+                <TableHead>Browser</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Duration</TableHead>
                 <TableHead>Date</TableHead>
@@ -63,7 +65,7 @@ export default function ExecutionsPage() {
             <TableBody>
               {list.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="py-12 text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="py-12 text-center text-muted-foreground">
                     No executions yet
                   </TableCell>
                 </TableRow>
@@ -84,6 +86,9 @@ export default function ExecutionsPage() {
                     <TableCell className="text-muted-foreground">
                       {e.environment?.name ?? "—"}
                     </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {e.browserEngine ?? "—"}
+                    </TableCell>
                     <TableCell>
                       <Badge
                         variant={executionStatusBadgeVariant(
@@ -32,7 +32,7 @@ interface DashboardStats {
   passed: number;
   failed: number;
   /** Classified failure breakdown (from execution_status in metadata). */
-  failedBreakdown?: { business: number; unverifiedData: number; selector: number; other: number };
+  failedBreakdown?: { business: number; unverifiedData: number; selector: number; timeout: number; other: number };
   recentExecutions: Array<{
     id: string;
     status: string;
@@ -110,6 +110,7 @@ export default function DashboardPage() {
         business: failedExecutions.filter((e) => e.executionMetadata?.execution_status === "FAILED_BUSINESS").length,
         unverifiedData: failedExecutions.filter((e) => e.executionMetadata?.execution_status === "FAILED_UNVERIFIED_DATA").length,
         selector: failedExecutions.filter((e) => e.executionMetadata?.execution_status === "FAILED_SELECTOR").length,
+        timeout: failedExecutions.filter((e) => e.executionMetadata?.execution_status === "TIMEOUT").length,
         other: failedExecutions.filter(
           (e) =>
             !e.executionMetadata?.execution_status ||
@@ -167,7 +168,7 @@ export default function DashboardPage() {
       highlight: "destructive" as const,
       subtitle:
         stats.failedBreakdown && stats.failed > 0
-          ? `Business: ${stats.failedBreakdown.business} · Unverified data: ${stats.failedBreakdown.unverifiedData} · Selector: ${stats.failedBreakdown.selector} · Other: ${stats.failedBreakdown.other}`
+          ? `Business: ${stats.failedBreakdown.business} · Unverified data: ${stats.failedBreakdown.unverifiedData} · Selector: ${stats.failedBreakdown.selector} · Timed out: ${stats.failedBreakdown.timeout} · Other: ${stats.failedBreakdown.other}`
           : undefined,
     },
   ];
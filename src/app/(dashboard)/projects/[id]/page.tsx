@@ -39,6 +39,7 @@ import {
 import { ArrowDown, ArrowUp, ChevronDown, ChevronLeft, ChevronRight, Download, GripVertical, Plus, RefreshCw, Trash2, Upload, X } from "lucide-react";
 import { VideoPreview } from "@/components/executions/video-preview";
 import { getExecutionDisplayStatus, executionStatusBadgeVariant } from "@/lib/execution-status";
+import { DEVICE_PROFILES } from "@/lib/device-profiles";
 
 interface ProjectDetail {
   id: string;
@@ -65,6 +66,9 @@ interface ApplicationRow {
   enabled: boolean;
   platform: string | null;
   testTypes: string[] | null;
+  deviceProfile?: string | null;
+  loginUrlPattern?: string | null;
+  loginMarkerSelector?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -80,11 +84,46 @@ interface EnvironmentRow {
   isActive: boolean;
   apiAuthMode: string;
   e2eAuthMode: string;
+  browserEngine?: string;
+  deviceProfile?: string | null;
 }
 
+const BROWSER_ENGINE_OPTIONS = ["chromium", "firefox", "webkit"] as const;
+
 const TC_CATEGORY_OPTIONS = ["FUNCTIONAL", "NEGATIVE", "VALIDATION", "SECURITY", "ROLE_BASED", "DATA_MASKING", "ACCESS_CONTROL", "ERROR_HANDLING", "EDGE_CASE", "COMPLIANCE"] as const;
 const TC_DATA_CONDITION_OPTIONS = ["RECORD_MUST_EXIST", "RECORD_MUST_NOT_EXIST", "NO_DATA_DEPENDENCY", "STATEFUL_DEPENDENCY", "CROSS_ENTITY_DEPENDENCY"] as const;
 
+/** Who or what started a test run (GET /api/projects/[id]/test-runs). */
+interface TestRunTriggerInfo {
+  triggerType?: "SCHEDULE" | "MANUAL" | "API" | "CI";
+  schedule?: { id: string; name: string } | null;
+  triggeredBy?: { id: string; name: string | null; email: string } | null;
+  apiKey?: { id: string; name: string } | null;
+}
+
+function testRunTriggerLabel(run: TestRunTriggerInfo): string {
+  switch (run.triggerType) {
+    case "MANUAL":
+      return `Manual · ${run.triggeredBy?.name || run.triggeredBy?.email || "unknown user"}`;
+    case "API":
+    case "CI":
+      return `${run.triggerType} · ${run.apiKey?.name ?? "deleted key"}`;
+    default:
+      return run.schedule ? `Schedule · ${run.schedule.name}` : "Schedule";
+  }
+}
+
+/** "smoke, Regression" → ["smoke", "regression"] (the API lower-cases and de-duplicates too). */
+function parseTagList(value: string): string[] {
+  return value.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean);
+}
+
+/** Drops executions a retry superseded, so run totals count each test case's latest attempt once. */
+function latestAttempts<T extends { id: string; retryOfId?: string | null }>(executions: T[]): T[] {
+  const retried = new Set(executions.map((e) => e.retryOfId).filter(Boolean));
+  return executions.filter((e) => !retried.has(e.id));
+}
+
 function formatShortNumber(n: number): string {
   return new Intl.NumberFormat("en", { notation: "compact", maximumFractionDigits: 1 }).format(n);
 }
@@ -104,6 +143,7 @@ interface TestCaseRow {
   category: string | null;
   data_condition: string | null;
   setup_hint: string | null;
+  tags?: string[];
   ignoreReason: string | null;
   ticketId: string | null;
   ticket?: { title: string; externalId: string | null } | null;
@@ -149,6 +189,9 @@ export default function ProjectDetailPage() {
     enabled: true,
     platform: "",
     testTypes: [] as string[],
+    deviceProfile: "",
+    loginUrlPattern: "",
+    loginMarkerSelector: "",
   });
   const [appSubmitting, setAppSubmitting] = useState(false);
   const [appError, setAppError] = useState("");
@@ -160,6 +203,9 @@ export default function ProjectDetailPage() {
     enabled: boolean;
     platform: string;
     testTypes: string[];
+    deviceProfile: string;
+    loginUrlPattern: string;
+    loginMarkerSelector: string;
   } | null>(null);
   const [viewAppSaving, setViewAppSaving] = useState(false);
   const [viewAppError, setViewAppError] = useState("");
@@ -192,8 +238,8 @@ export default function ProjectDetailPage() {
   const [saveLoading, setSaveLoading] = useState(false);
   const [saveError, setSaveError] = useState("");
 
-  type EnvCredential = { role: string; username: string; password: string };
-  const defaultEnvCredentials: EnvCredential[] = [{ role: "", username: "", password: "" }];
+  type EnvCredential = { role: string; username: string; password: string; totpSecret: string; hasTotpSecret?: boolean };
+  const defaultEnvCredentials: EnvCredential[] = [{ role: "", username: "", password: "", totpSecret: "" }];
   const [envDrawerOpen, setEnvDrawerOpen] = useState(false);
   const [envForm, setEnvForm] = useState({
     name: "",
@@ -206,6 +252,8 @@ export default function ProjectDetailPage() {
     credentials: defaultEnvCredentials,
     apiAuthMode: "NONE" as "NONE" | "BASIC_AUTH" | "BEARER_TOKEN",
     e2eAuthMode: "NEVER_AUTH" as "ALWAYS_AUTH" | "NEVER_AUTH" | "CONDITIONAL",
+    browserEngine: "chromium" as (typeof BROWSER_ENGINE_OPTIONS)[number],
+    deviceProfile: "",
   });
   const [envSubmitting, setEnvSubmitting] = useState(false);
   const [envError, setEnvError] = useState("");
@@ -233,6 +281,8 @@ export default function ProjectDetailPage() {
     credentials: EnvCredential[];
     apiAuthMode: string;
     e2eAuthMode: string;
+    browserEngine: string;
+    deviceProfile: string;
   } | null>(null);
   const [envApplicationOptions, setEnvApplicationOptions] = useState<ApplicationRow[]>([]);
   const [viewEnvSaving, setViewEnvSaving] = useState(false);
@@ -287,7 +337,7 @@ export default function ProjectDetailPage() {
   } | null>(null);
   const [viewTicketSaving, setViewTicketSaving] = useState(false);
   const [ticketApplicationOptions, setTicketApplicationOptions] = useState<ApplicationRow[]>([]);
-  const [projectDetailTab, setProjectDetailTab] = useState<"applications" | "environments" | "tickets" | "test-cases" | "test-runs" | "data-knowledge" | "selector-knowledge">("applications");
+  const [projectDetailTab, setProjectDetailTab] = useState<"applications" | "environments" | "tickets" | "test-cases" | "test-runs" | "data-knowledge" | "fixture-files" | "selector-knowledge" | "accessibility">("applications");
   const [exportTcLoading, setExportTcLoading] = useState(false);
 
   const [tcDrawerOpen, setTcDrawerOpen] = useState(false);
@@ -303,6 +353,7 @@ export default function ProjectDetailPage() {
     category: "",
     data_condition: "",
     setup_hint: "",
+    tags: "",
   });
   const [tcSubmitting, setTcSubmitting] = useState(false);
   const [tcError, setTcError] = useState("");
@@ -319,6 +370,7 @@ export default function ProjectDetailPage() {
     category: string;
     data_condition: string;
     setup_hint: string;
+    tags: string;
   } | null>(null);
   const [viewTcSaving, setViewTcSaving] = useState(false);
   const [viewTcError, setViewTcError] = useState("");
@@ -346,28 +398,32 @@ export default function ProjectDetailPage() {
     startedAt: string | null;
     finishedAt: string | null;
     createdAt: string;
+    attempt?: number;
     testCase: { id: string; title: string };
     environment: { name: string };
   } | null>(null);
   const [tcHistoryLoading, setTcHistoryLoading] = useState(false);
 
-  const [testRuns, setTestRuns] = useState<{ id: string; status: string; startedAt: string; completedAt: string | null; totalExecutions: number; passed: number; failed: number }[]>([]);
+  const [testRuns, setTestRuns] = useState<(TestRunTriggerInfo & { id: string; status: string; startedAt: string; completedAt: string | null; totalExecutions: number; passed: number; failed: number })[]>([]);
   const [testRunsLoading, setTestRunsLoading] = useState(false);
   const [trPage, setTrPage] = useState(1);
   const [trLimit, setTrLimit] = useState(10);
   const [trTotal, setTrTotal] = useState(0);
   const [trTotalPages, setTrTotalPages] = useState(1);
   const [trStatus, setTrStatus] = useState("");
+  const [trTriggerType, setTrTriggerType] = useState("");
+  const [trScheduleId, setTrScheduleId] = useState("");
+  const [trSchedules, setTrSchedules] = useState<{ id: string; name: string }[]>([]);
   const [trSortBy, setTrSortBy] = useState<"startedAt" | "completedAt" | "status">("startedAt");
   const [trSortOrder, setTrSortOrder] = useState<"asc" | "desc">("desc");
   const [viewTestRunId, setViewTestRunId] = useState<string | null>(null);
-  const [viewTestRunDetail, setViewTestRunDetail] = useState<{
+  const [viewTestRunDetail, setViewTestRunDetail] = useState<(TestRunTriggerInfo & {
     id: string;
     status: string;
     startedAt: string;
     completedAt: string | null;
-    executions: { id: string; status: string; execution_status?: string; createdAt?: string; startedAt: string | null; finishedAt: string | null; duration: number | null; testCaseId: string; testCaseTitle: string }[];
-  } | null>(null);
+    executions: { id: string; status: string; execution_status?: string; createdAt?: string; startedAt: string | null; finishedAt: string | null; duration: number | null; browserEngine?: string | null; attempt?: number; retryOfId?: string | null; testCaseId: string; testCaseTitle: string }[];
+  }) | null>(null);
   const [runDetailPage, setRunDetailPage] = useState(1);
   const runDetailLimit = 10;
 
@@ -464,7 +520,7 @@ export default function ProjectDetailPage() {
   };
 
   useEffect(() => {
-    if (!id || (projectDetailTab !== "tickets" && projectDetailTab !== "test-cases" && projectDetailTab !== "selector-knowledge")) return;
+    if (!id || (projectDetailTab !== "tickets" && projectDetailTab !== "test-cases" && projectDetailTab !== "selector-knowledge" && projectDetailTab !== "accessibility")) return;
     loadTicketApplicationOptions();
   }, [id, projectDetailTab]);
 
@@ -548,6 +604,8 @@ export default function ProjectDetailPage() {
     params.set("page", String(trPage));
     params.set("limit", String(trLimit));
     if (trStatus) params.set("status", trStatus);
+    if (trTriggerType) params.set("triggerType", trTriggerType);
+    if (trScheduleId) params.set("scheduleId", trScheduleId);
     params.set("sortBy", trSortBy);
     params.set("sortOrder", trSortOrder);
     fetch(`/api/projects/${id}/test-runs?${params}`)
@@ -563,7 +621,15 @@ export default function ProjectDetailPage() {
 
   useEffect(() => {
     if (id && projectDetailTab === "test-runs") loadTestRuns();
-  }, [id, projectDetailTab, trPage, trLimit, trStatus, trSortBy, trSortOrder]);
+  }, [id, projectDetailTab, trPage, trLimit, trStatus, trTriggerType, trScheduleId, trSortBy, trSortOrder]);
+
+  useEffect(() => {
+    if (!id || projectDetailTab !== "test-runs") return;
+    fetch(`/api/schedules?projectId=${id}`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((list) => setTrSchedules(Array.isArray(list) ? list.map((s: { id: string; name: string }) => ({ id: s.id, name: s.name })) : []))
+      .catch(() => setTrSchedules([]));
+  }, [id, projectDetailTab]);
 
   const handleTrSort = (column: "startedAt" | "completedAt" | "status") => {
     setTrSortBy(column);
@@ -609,12 +675,26 @@ export default function ProjectDetailPage() {
   const [dkConfirmDeleteId, setDkConfirmDeleteId] = useState<string | null>(null);
   const [dkDeleting, setDkDeleting] = useState(false);
 
+  const [fixtureFiles, setFixtureFiles] = useState<{
+    id: string;
+    fileName: string;
+    contentType: string;
+    sizeBytes: number;
+    updatedAt: string;
+  }[]>([]);
+  const [fixtureFilesLoading, setFixtureFilesLoading] = useState(false);
+  const [fixtureUploading, setFixtureUploading] = useState(false);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const [ffConfirmDeleteId, setFfConfirmDeleteId] = useState<string | null>(null);
+  const [ffDeleting, setFfDeleting] = useState(false);
+
   const [selectorKnowledge, setSelectorKnowledge] = useState<{
     id: string;
     applicationId: string;
     applicationName: string | null;
     applicationCode: string | null;
     semanticKey: string;
+    frameContext: string;
     selector: string;
     confidenceScore: number;
     usageCount: number;
@@ -674,6 +754,31 @@ export default function ProjectDetailPage() {
     setSkPage(1);
   };
 
+  type AccessibilityTotals = { audits: number; failed: number; critical: number; serious: number; moderate: number; minor: number };
+  const [a11yReport, setA11yReport] = useState<{
+    totals: AccessibilityTotals;
+    byApplication: (AccessibilityTotals & { applicationId: string | null; applicationName: string; lastAuditAt: string })[];
+    trend: (AccessibilityTotals & { date: string })[];
+    topRules: { id: string; impact: string | null; help: string; helpUrl: string; occurrences: number; nodes: number }[];
+  } | null>(null);
+  const [a11yLoading, setA11yLoading] = useState(false);
+  const [a11yApplicationId, setA11yApplicationId] = useState("");
+  const [a11yDays, setA11yDays] = useState(30);
+  const loadAccessibilityReport = () => {
+    if (!id) return;
+    setA11yLoading(true);
+    const params = new URLSearchParams({ days: String(a11yDays) });
+    if (a11yApplicationId) params.set("applicationId", a11yApplicationId);
+    fetch(`/api/projects/${id}/accessibility?${params}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((res) => setA11yReport(res))
+      .catch(() => setA11yReport(null))
+      .finally(() => setA11yLoading(false));
+  };
+  useEffect(() => {
+    if (id && projectDetailTab === "accessibility") loadAccessibilityReport();
+  }, [id, projectDetailTab, a11yApplicationId, a11yDays]);
+
   const loadDataKnowledge = () => {
     if (!id) return;
     setDataKnowledgeLoading(true);
@@ -692,6 +797,61 @@ export default function ProjectDetailPage() {
   useEffect(() => {
     if (id && projectDetailTab === "data-knowledge") loadDataKnowledge();
   }, [id, projectDetailTab, dkPage, dkLimit, dkSearch, dkSortBy, dkSortOrder]);
+
+  const loadFixtureFiles = () => {
+    if (!id) return;
+    setFixtureFilesLoading(true);
+    fetch(`/api/projects/${id}/fixture-files`)
+      .then((r) => (r.ok ? r.json() : { data: [] }))
+      .then((res) => setFixtureFiles(Array.isArray(res.data) ? res.data : []))
+      .catch(() => setFixtureFiles([]))
+      .finally(() => setFixtureFilesLoading(false));
+  };
+  useEffect(() => {
+    if (id && projectDetailTab === "fixture-files") loadFixtureFiles();
+  }, [id, projectDetailTab]);
+  const uploadFixtureFiles = async (files: FileList | null) => {
+    if (!id || !files || files.length === 0) return;
+    setFixtureUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        const form = new FormData();
+        form.append("file", file);
+        const res = await fetch(`/api/projects/${id}/fixture-files`, { method: "POST", body: form });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          toast.error(`${file.name}: ${data.error ?? "Upload failed"}`);
+          continue;
+        }
+        toast.success(`Uploaded ${file.name}`);
+      }
+      loadFixtureFiles();
+    } catch {
+      toast.error("Upload failed");
+    } finally {
+      setFixtureUploading(false);
+      if (fixtureInputRef.current) fixtureInputRef.current.value = "";
+    }
+  };
+  const deleteFixtureFile = async (fileId: string) => {
+    if (!id) return;
+    setFfDeleting(true);
+    try {
+      const res = await fetch(`/api/projects/${id}/fixture-files/${fileId}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error ?? "Delete failed");
+        return;
+      }
+      toast.success("Deleted");
+      setFfConfirmDeleteId(null);
+      loadFixtureFiles();
+    } catch {
+      toast.error("Delete failed");
+    } finally {
+      setFfDeleting(false);
+    }
+  };
   const applyDkSearch = () => {
     setDkSearch(dkSearchInput.trim());
     setDkPage(1);
@@ -1024,6 +1184,8 @@ export default function ProjectDetailPage() {
       credentials: [...defaultEnvCredentials],
       apiAuthMode: "NONE",
       e2eAuthMode: "NEVER_AUTH",
+      browserEngine: "chromium",
+      deviceProfile: "",
     });
   };
 
@@ -1066,6 +1228,10 @@ export default function ProjectDetailPage() {
         applicationId: envForm.applicationId.trim() || undefined,
         apiAuthMode: envForm.apiAuthMode,
         e2eAuthMode: envForm.e2eAuthMode,
+        ...(envForm.type === "E2E" && {
+          browserEngine: envForm.browserEngine,
+          deviceProfile: envForm.deviceProfile || null,
+        }),
       };
       if (apiBasicAuth) {
         body.appKey = envForm.appKey.trim();
@@ -1077,7 +1243,12 @@ export default function ProjectDetailPage() {
       if (e2eNeedsAuth) {
         body.credentials = envForm.credentials
           .filter((c) => c.username.trim())
-          .map((c) => ({ role: c.role.trim() || undefined, username: c.username.trim(), password: c.password }));
+          .map((c) => ({
+            role: c.role.trim() || undefined,
+            username: c.username.trim(),
+            password: c.password,
+            totpSecret: c.totpSecret.trim() || undefined,
+          }));
       }
       const res = await fetch("/api/environments", {
         method: "POST",
@@ -1125,6 +1296,9 @@ export default function ProjectDetailPage() {
       enabled: true,
       platform: "",
       testTypes: [],
+      deviceProfile: "",
+      loginUrlPattern: "",
+      loginMarkerSelector: "",
     });
   };
   const createApplication = async (e: React.FormEvent) => {
@@ -1147,6 +1321,9 @@ export default function ProjectDetailPage() {
           enabled: appForm.enabled,
           platform: appForm.platform.trim() || undefined,
           testTypes: appForm.testTypes.length > 0 ? appForm.testTypes : undefined,
+          deviceProfile: appForm.deviceProfile || null,
+          loginUrlPattern: appForm.loginUrlPattern.trim() || null,
+          loginMarkerSelector: appForm.loginMarkerSelector.trim() || null,
         }),
       });
       const data = await res.json();
@@ -1172,6 +1349,9 @@ export default function ProjectDetailPage() {
       enabled: !!app.enabled,
       platform: app.platform ?? "",
       testTypes: Array.isArray(app.testTypes) ? [...app.testTypes] : [],
+      deviceProfile: app.deviceProfile ?? "",
+      loginUrlPattern: app.loginUrlPattern ?? "",
+      loginMarkerSelector: app.loginMarkerSelector ?? "",
     });
   };
   const saveViewApplication = async (e: React.FormEvent) => {
@@ -1194,6 +1374,9 @@ export default function ProjectDetailPage() {
           enabled: viewAppForm.enabled,
           platform: viewAppForm.platform.trim() || undefined,
           testTypes: viewAppForm.testTypes.length > 0 ? viewAppForm.testTypes : undefined,
+          deviceProfile: viewAppForm.deviceProfile || null,
+          loginUrlPattern: viewAppForm.loginUrlPattern.trim() || null,
+          loginMarkerSelector: viewAppForm.loginMarkerSelector.trim() || null,
         }),
       });
       const data = await res.json();
@@ -1271,6 +1454,10 @@ export default function ProjectDetailPage() {
           isActive: viewEnvForm.isActive,
           apiAuthMode: viewEnvForm.apiAuthMode,
           e2eAuthMode: viewEnvForm.e2eAuthMode,
+          ...(viewEnvForm.type === "E2E" && {
+            browserEngine: viewEnvForm.browserEngine,
+            deviceProfile: viewEnvForm.deviceProfile || null,
+          }),
         };
       if (viewEnvForm.type === "API" && viewEnvForm.apiAuthMode === "BASIC_AUTH" && (viewEnvForm.appKey.trim() || viewEnvForm.secretKey.trim())) {
         if (viewEnvForm.appKey.trim()) body.appKey = viewEnvForm.appKey.trim();
@@ -1282,7 +1469,12 @@ export default function ProjectDetailPage() {
       if (viewEnvForm.type === "E2E") {
         const valid = viewEnvForm.credentials.filter((c) => c.username.trim());
         if (valid.length > 0) {
-          body.credentials = valid.map((c) => ({ role: c.role.trim() || undefined, username: c.username.trim(), password: c.password }));
+          body.credentials = valid.map((c) => ({
+            role: c.role.trim() || undefined,
+            username: c.username.trim(),
+            password: c.password,
+            totpSecret: c.totpSecret.trim() || undefined,
+          }));
         }
       }
       const res = await fetch(`/api/environments/${viewEnvironment.id}`, {
@@ -1306,6 +1498,8 @@ export default function ProjectDetailPage() {
         isActive: data.isActive ?? viewEnvForm.isActive,
         apiAuthMode: data.apiAuthMode ?? viewEnvironment.apiAuthMode,
         e2eAuthMode: data.e2eAuthMode ?? viewEnvironment.e2eAuthMode,
+        browserEngine: data.browserEngine ?? viewEnvironment.browserEngine,
+        deviceProfile: data.deviceProfile !== undefined ? data.deviceProfile : viewEnvironment.deviceProfile,
       });
       setViewEnvForm({
         ...viewEnvForm,
@@ -1320,6 +1514,8 @@ export default function ProjectDetailPage() {
         credentials: viewEnvForm.credentials,
         apiAuthMode: data.apiAuthMode ?? viewEnvForm.apiAuthMode,
         e2eAuthMode: data.e2eAuthMode ?? viewEnvForm.e2eAuthMode,
+        browserEngine: data.browserEngine ?? viewEnvForm.browserEngine,
+        deviceProfile: data.deviceProfile !== undefined ? data.deviceProfile ?? "" : viewEnvForm.deviceProfile,
       });
       loadEnvironments();
     } catch {
@@ -1625,6 +1821,7 @@ export default function ProjectDetailPage() {
       category: "",
       data_condition: "",
       setup_hint: "",
+      tags: "",
     });
   };
 
@@ -1683,6 +1880,7 @@ export default function ProjectDetailPage() {
         category: tc.category ?? "",
         data_condition: tc.data_condition ?? "",
         setup_hint: tc.setup_hint ?? "",
+        tags: (tc.tags ?? []).join(", "),
       });
       if (tc.ticketId && !tickets.some((t) => t.id === tc.ticketId)) {
         fetch(`/api/tickets/${tc.ticketId}`)
@@ -1757,6 +1955,7 @@ export default function ProjectDetailPage() {
           category: viewTcForm.category.trim() || null,
           data_condition: viewTcForm.data_condition.trim() || null,
           setup_hint: viewTcForm.setup_hint.trim() || null,
+          tags: parseTagList(viewTcForm.tags),
         }),
       });
       const data = await res.json();
@@ -1798,6 +1997,7 @@ export default function ProjectDetailPage() {
           category: tcForm.category.trim() || undefined,
           data_condition: tcForm.data_condition.trim() || undefined,
           setup_hint: tcForm.setup_hint.trim() || undefined,
+          tags: parseTagList(tcForm.tags),
           source: "manual",
         }),
       });
@@ -2085,6 +2285,17 @@ export default function ProjectDetailPage() {
             >
               Data Knowledge
             </button>
+            <button
+              type="button"
+              onClick={() => setProjectDetailTab("fixture-files")}
+              className={`px-4 py-2.5 text-sm font-medium rounded-t-md border-b-2 -mb-px transition-colors ${
+                projectDetailTab === "fixture-files"
+                  ? "border-accent text-foreground bg-elevated/50"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Fixture Files
+            </button>
             <button
               type="button"
               onClick={() => setProjectDetailTab("selector-knowledge")}
@@ -2096,6 +2307,17 @@ export default function ProjectDetailPage() {
             >
               Selector Knowledge
             </button>
+            <button
+              type="button"
+              onClick={() => setProjectDetailTab("accessibility")}
+              className={`px-4 py-2.5 text-sm font-medium rounded-t-md border-b-2 -mb-px transition-colors ${
+                projectDetailTab === "accessibility"
+                  ? "border-accent text-foreground bg-elevated/50"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Accessibility
+            </button>
           </nav>
           <Button
             size="sm"
@@ -2487,9 +2709,11 @@ export default function ProjectDetailPage() {
                         appKey: "",
                         secretKey: "",
                         apiToken: "",
-                        credentials: [{ role: "", username: "", password: "" }],
+                        credentials: [{ role: "", username: "", password: "", totpSecret: "" }],
                         apiAuthMode: (env as EnvironmentRow).apiAuthMode ?? "NONE",
                         e2eAuthMode: (env as EnvironmentRow).e2eAuthMode ?? "NEVER_AUTH",
+                        browserEngine: (env as EnvironmentRow).browserEngine ?? "chromium",
+                        deviceProfile: (env as EnvironmentRow).deviceProfile ?? "",
                       });
                       setViewEnvError("");
                       fetch(`/api/environments/${env.id}`)
@@ -2507,12 +2731,16 @@ export default function ProjectDetailPage() {
                                   isActive: data.isActive ?? prev.isActive,
                                   apiAuthMode: data.apiAuthMode ?? prev.apiAuthMode,
                                   e2eAuthMode: data.e2eAuthMode ?? prev.e2eAuthMode,
+                                  browserEngine: data.browserEngine ?? prev.browserEngine,
+                                  deviceProfile: data.deviceProfile ?? prev.deviceProfile,
                                   credentials:
                                     Array.isArray(data.credentials) && data.credentials.length > 0
-                                      ? data.credentials.map((c: { role?: string; username: string; password: string }) => ({
+                                      ? data.credentials.map((c: { role?: string; username: string; password: string; hasTotpSecret?: boolean }) => ({
                                           role: c.role ?? "",
                                           username: c.username ?? "",
                                           password: "",
+                                          totpSecret: "",
+                                          hasTotpSecret: !!c.hasTotpSecret,
                                         }))
                                       : prev.credentials,
                                 }
@@ -3218,7 +3446,7 @@ export default function ProjectDetailPage() {
             <CardHeader className="flex flex-row items-center justify-between">
               <div>
                 <CardTitle>Test Runs</CardTitle>
-                <CardDescription>Schedule-driven test runs for this project. Filter, sort, and paginate.</CardDescription>
+                <CardDescription>Scheduled, manual and API / CI test runs for this project. Filter, sort, and paginate.</CardDescription>
               </div>
               <Button size="sm" variant="secondary" onClick={() => loadTestRuns()}>
                 <RefreshCw className="h-4 w-4 mr-1.5" />
@@ -3236,6 +3464,29 @@ export default function ProjectDetailPage() {
                   <option value="RUNNING">RUNNING</option>
                   <option value="COMPLETED">COMPLETED</option>
                 </select>
+                <select
+                  value={trTriggerType}
+                  onChange={(e) => { setTrTriggerType(e.target.value); setTrPage(1); }}
+                  className={selectClassInline}
+                >
+                  <option value="">All triggers</option>
+                  <option value="SCHEDULE">Schedule</option>
+                  <option value="MANUAL">Manual</option>
+                  <option value="API">API</option>
+                  <option value="CI">CI</option>
+                </select>
+                {trSchedules.length > 0 && (
+                  <select
+                    value={trScheduleId}
+                    onChange={(e) => { setTrScheduleId(e.target.value); setTrPage(1); }}
+                    className={selectClassInline}
+                  >
+                    <option value="">All schedules</option>
+                    {trSchedules.map((s) => (
+                      <option key={s.id} value={s.id}>{s.name}</option>
+                    ))}
+                  </select>
+                )}
                 <select
                   value={trLimit}
                   onChange={(e) => { setTrLimit(Number(e.target.value)); setTrPage(1); }}
@@ -3316,6 +3567,7 @@ export default function ProjectDetailPage() {
                         {trSortBy === "status" && (trSortOrder === "asc" ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />)}
                       </button>
                     </TableHead>
+                    <TableHead>Trigger</TableHead>
                     <TableHead>Total</TableHead>
                     <TableHead>Passed</TableHead>
                     <TableHead>Failed</TableHead>
@@ -3325,13 +3577,13 @@ export default function ProjectDetailPage() {
                 <TableBody>
                   {testRunsLoading ? (
                     <TableRow>
-                      <TableCell colSpan={8} className="py-8 text-center text-sm text-muted-foreground">
+                      <TableCell colSpan={9} className="py-8 text-center text-sm text-muted-foreground">
                         Loading…
                       </TableCell>
                     </TableRow>
                   ) : testRuns.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={8} className="py-8 text-center text-sm text-muted-foreground">
+                      <TableCell colSpan={9} className="py-8 text-center text-sm text-muted-foreground">
                         No test runs yet. Adjust filters or run tests.
                       </TableCell>
                     </TableRow>
@@ -3348,6 +3600,7 @@ export default function ProjectDetailPage() {
                         <TableCell>
                           <Badge variant={run.status === "COMPLETED" ? "success" : "default"}>{run.status}</Badge>
                         </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{testRunTriggerLabel(run)}</TableCell>
                         <TableCell>{run.totalExecutions}</TableCell>
                         <TableCell>{run.passed}</TableCell>
                         <TableCell>{run.failed}</TableCell>
@@ -3540,6 +3793,89 @@ export default function ProjectDetailPage() {
             </CardContent>
           </Card>
         )}
+        {projectDetailTab === "fixture-files" && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Fixture Files</CardTitle>
+                <CardDescription>Files used by upload steps, referenced by file name (e.g. &quot;Upload invoice.pdf to Attachment field&quot;). Uploading a file with an existing name replaces it.</CardDescription>
+              </div>
+              {userRole !== "qa" && (
+                <>
+                  <input
+                    ref={fixtureInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => uploadFixtureFiles(e.target.files)}
+                  />
+                  <Button size="sm" disabled={fixtureUploading} onClick={() => fixtureInputRef.current?.click()}>
+                    <Upload className="h-4 w-4 mr-1.5" />
+                    {fixtureUploading ? "Uploading…" : "Upload Files"}
+                  </Button>
+                </>
+              )}
+            </CardHeader>
+            <CardContent className="overflow-hidden">
+              <div className="overflow-x-auto -mx-6 px-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[220px]">File name</TableHead>
+                      <TableHead className="min-w-[160px]">Type</TableHead>
+                      <TableHead className="min-w-[100px]">Size</TableHead>
+                      <TableHead className="whitespace-nowrap w-36">Updated At</TableHead>
+                      {userRole !== "qa" && <TableHead className="w-[1%] whitespace-nowrap" aria-label="Actions" />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {fixtureFilesLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={userRole !== "qa" ? 5 : 4} className="py-8 text-center text-sm text-muted-foreground">
+                          Loading…
+                        </TableCell>
+                      </TableRow>
+                    ) : fixtureFiles.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={userRole !== "qa" ? 5 : 4} className="py-8 text-center text-sm text-muted-foreground">
+                          No fixture files yet.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      fixtureFiles.map((row) => (
+                        <TableRow key={row.id}>
+                          <TableCell className="min-w-[220px] font-mono text-sm break-all">{row.fileName}</TableCell>
+                          <TableCell className="min-w-[160px] font-mono text-sm text-muted-foreground">{row.contentType}</TableCell>
+                          <TableCell className="min-w-[100px] text-sm">
+                            {row.sizeBytes >= 1024 * 1024
+                              ? `${(row.sizeBytes / (1024 * 1024)).toFixed(1)} MB`
+                              : `${Math.max(1, Math.round(row.sizeBytes / 1024))} KB`}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-muted-foreground text-sm">
+                            {row.updatedAt ? new Date(row.updatedAt).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" }) : "—"}
+                          </TableCell>
+                          {userRole !== "qa" && (
+                            <TableCell className="whitespace-nowrap">
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => setFfConfirmDeleteId(row.id)}
+                              >
+                                Delete
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
         {projectDetailTab === "selector-knowledge" && (
           <Card>
             <CardHeader>
@@ -3691,7 +4027,12 @@ export default function ProjectDetailPage() {
                               )}
                             </span>
                           </TableCell>
-                          <TableCell className="min-w-[200px] font-mono text-sm align-top break-all" title={row.semanticKey}>{row.semanticKey}</TableCell>
+                          <TableCell className="min-w-[200px] font-mono text-sm align-top break-all" title={row.semanticKey}>
+                            {row.semanticKey}
+                            {row.frameContext && (
+                              <span className="block text-xs text-muted-foreground">in {row.frameContext}</span>
+                            )}
+                          </TableCell>
                           <TableCell className="min-w-[200px] font-mono text-xs align-top break-all" title={row.selector}>{row.selector}</TableCell>
                           <TableCell className="text-right tabular-nums align-top">{row.usageCount}</TableCell>
                           <TableCell className="whitespace-nowrap text-muted-foreground text-sm align-top">
@@ -3706,6 +4047,147 @@ export default function ProjectDetailPage() {
             </CardContent>
           </Card>
         )}
+        {projectDetailTab === "accessibility" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Accessibility</CardTitle>
+              <CardDescription>
+                axe-core findings from accessibility assertions, per application over time. Steps fail on violations at or above the impact level set in Config.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6 overflow-hidden">
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={a11yApplicationId}
+                  onChange={(e) => setA11yApplicationId(e.target.value)}
+                  className={selectClassInline}
+                >
+                  <option value="">All applications</option>
+                  {ticketApplicationOptions.map((app) => (
+                    <option key={app.id} value={app.id}>{app.name || app.code || app.id.slice(0, 8)}</option>
+                  ))}
+                </select>
+                <select
+                  value={a11yDays}
+                  onChange={(e) => setA11yDays(Number(e.target.value))}
+                  className={selectClassInline}
+                >
+                  <option value={7}>Last 7 days</option>
+                  <option value={30}>Last 30 days</option>
+                  <option value={90}>Last 90 days</option>
+                  <option value={365}>Last 365 days</option>
+                </select>
+                {a11yReport && (
+                  <span className="text-sm text-muted-foreground">
+                    {a11yReport.totals.audits} audits, {a11yReport.totals.failed} failed
+                  </span>
+                )}
+              </div>
+              {a11yLoading ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">Loading…</p>
+              ) : !a11yReport || a11yReport.totals.audits === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">No accessibility audits in this period.</p>
+              ) : (
+                <>
+                  <div className="overflow-x-auto -mx-6 px-6">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="min-w-[180px]">Application</TableHead>
+                          <TableHead className="text-right">Audits</TableHead>
+                          <TableHead className="text-right">Failed</TableHead>
+                          <TableHead className="text-right">Critical</TableHead>
+                          <TableHead className="text-right">Serious</TableHead>
+                          <TableHead className="text-right">Moderate</TableHead>
+                          <TableHead className="text-right">Minor</TableHead>
+                          <TableHead className="whitespace-nowrap w-36">Last audit</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {a11yReport.byApplication.map((row) => (
+                          <TableRow key={row.applicationId ?? "none"}>
+                            <TableCell className="min-w-[180px] text-sm">{row.applicationName}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.audits}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.failed}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.critical}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.serious}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.moderate}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.minor}</TableCell>
+                            <TableCell className="whitespace-nowrap text-muted-foreground text-sm">
+                              {new Date(row.lastAuditAt).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <div className="overflow-x-auto -mx-6 px-6">
+                    <h3 className="text-sm font-medium mb-2">Trend</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="whitespace-nowrap w-36">Date</TableHead>
+                          <TableHead className="text-right">Audits</TableHead>
+                          <TableHead className="text-right">Failed</TableHead>
+                          <TableHead className="text-right">Critical</TableHead>
+                          <TableHead className="text-right">Serious</TableHead>
+                          <TableHead className="text-right">Moderate</TableHead>
+                          <TableHead className="text-right">Minor</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {a11yReport.trend.map((row) => (
+                          <TableRow key={row.date}>
+                            <TableCell className="whitespace-nowrap font-mono text-sm">{row.date}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.audits}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.failed}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.critical}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.serious}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.moderate}</TableCell>
+                            <TableCell className="text-right tabular-nums">{row.minor}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <div className="overflow-x-auto -mx-6 px-6">
+                    <h3 className="text-sm font-medium mb-2">Most frequent rules</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="min-w-[160px]">Rule</TableHead>
+                          <TableHead className="w-28">Impact</TableHead>
+                          <TableHead className="min-w-[240px]">Description</TableHead>
+                          <TableHead className="text-right">Audits</TableHead>
+                          <TableHead className="text-right">Elements</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {a11yReport.topRules.map((rule) => (
+                          <TableRow key={rule.id}>
+                            <TableCell className="min-w-[160px] font-mono text-sm">
+                              <a href={rule.helpUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                                {rule.id}
+                              </a>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={rule.impact === "critical" || rule.impact === "serious" ? "destructive" : "warning"}>
+                                {rule.impact ?? "unknown"}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="min-w-[240px] text-sm">{rule.help}</TableCell>
+                            <TableCell className="text-right tabular-nums">{rule.occurrences}</TableCell>
+                            <TableCell className="text-right tabular-nums">{rule.nodes}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       <Sheet open={!!viewTestRunId} onOpenChange={(open) => { if (!open) { setViewTestRunId(null); setViewTestRunDetail(null); } }}>
@@ -3738,6 +4220,9 @@ export default function ProjectDetailPage() {
               )}
             </p>
           )}
+          {viewTestRunDetail?.triggerType && (
+            <p className="text-sm text-muted-foreground mt-1">Triggered by: {testRunTriggerLabel(viewTestRunDetail)}</p>
+          )}
           <div className="flex-1 overflow-auto mt-4 space-y-4 min-h-0">
             {!viewTestRunDetail ? (
               <p className="text-sm text-muted-foreground py-4">Loading run…</p>
@@ -3746,18 +4231,18 @@ export default function ProjectDetailPage() {
                 <div className="space-y-2 text-sm">
                   <div className="grid grid-cols-3 gap-2">
                     <div className="rounded-lg border border-border bg-muted/30 px-3 py-2 text-center">
-                      <div className="text-lg font-semibold tabular-nums">{viewTestRunDetail.executions?.length ?? 0}</div>
+                      <div className="text-lg font-semibold tabular-nums">{latestAttempts(viewTestRunDetail.executions ?? []).length}</div>
                       <div className="text-xs text-muted-foreground">Total</div>
                     </div>
                     <div className="rounded-lg border border-border bg-muted/30 px-3 py-2 text-center">
                       <div className="text-lg font-semibold tabular-nums text-green-600 dark:text-green-400">
-                        {viewTestRunDetail.executions?.filter((e) => e.status === "PASSED").length ?? 0}
+                        {latestAttempts(viewTestRunDetail.executions ?? []).filter((e) => e.status === "PASSED").length}
                       </div>
                       <div className="text-xs text-muted-foreground">Passed</div>
                     </div>
                     <div className="rounded-lg border border-border bg-muted/30 px-3 py-2 text-center">
                       <div className="text-lg font-semibold tabular-nums text-red-600 dark:text-red-400">
-                        {viewTestRunDetail.executions?.filter((e) => e.status === "FAILED").length ?? 0}
+                        {latestAttempts(viewTestRunDetail.executions ?? []).filter((e) => e.status === "FAILED").length}
                       </div>
                       <div className="text-xs text-muted-foreground">Failed</div>
                     </div>
@@ -3796,6 +4281,14 @@ export default function ProjectDetailPage() {
                                     {title}
                                   </span>
                                   <Badge variant={executionStatusBadgeVariant(getExecutionDisplayStatus(e.status, e.execution_status))} className="text-xs shrink-0 ml-auto">{getExecutionDisplayStatus(e.status, e.execution_status)}</Badge>
+                                  {e.browserEngine && (
+                                    <Badge variant="default" className="text-xs shrink-0" title="Browser engine">{e.browserEngine}</Badge>
+                                  )}
+                                  {(e.attempt ?? 1) > 1 && (
+                                    <Badge variant="default" className="text-xs shrink-0" title="Re-queued by the schedule's retry policy">
+                                      Attempt {e.attempt}
+                                    </Badge>
+                                  )}
                                 </div>
                                 <p className="mt-1.5 text-xs text-muted-foreground">
                                   Execution time: {startStr} – {endStr} ({durationStr})
@@ -3911,6 +4404,25 @@ export default function ProjectDetailPage() {
                     </div>
                   </div>
                 )}
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-muted-foreground">Device profile (E2E)</label>
+                  <select
+                    value={appForm.deviceProfile}
+                    onChange={(e) => setAppForm((p) => ({ ...p, deviceProfile: e.target.value }))}
+                    className={selectClass}
+                  >
+                    <option value="">Desktop (1280×720)</option>
+                    {DEVICE_PROFILES.map((name) => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-muted-foreground">Login page signature (CONDITIONAL login)</label>
+                  <Input value={appForm.loginUrlPattern} onChange={(e) => setAppForm((p) => ({ ...p, loginUrlPattern: e.target.value }))} placeholder="URL pattern, e.g. /login or /sign-?in/i" />
+                  <Input value={appForm.loginMarkerSelector} onChange={(e) => setAppForm((p) => ({ ...p, loginMarkerSelector: e.target.value }))} placeholder='Marker element, e.g. form#login or [data-testid="login-form"]' />
+                  <p className="text-xs text-muted-foreground">Login runs only when either matches. Leave both empty to detect a visible password field.</p>
+                </div>
                 {appError && <p className="text-sm text-destructive">{appError}</p>}
               </div>
             </SheetBody>
@@ -3990,6 +4502,26 @@ export default function ProjectDetailPage() {
                       </div>
                     </div>
                   )}
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-muted-foreground">Device profile (E2E)</label>
+                    <select
+                      value={viewAppForm.deviceProfile}
+                      onChange={(e) => setViewAppForm((p) => p ? { ...p, deviceProfile: e.target.value } : p)}
+                      disabled={userRole === "qa"}
+                      className={selectClass}
+                    >
+                      <option value="">Desktop (1280×720)</option>
+                      {DEVICE_PROFILES.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-muted-foreground">Login page signature (CONDITIONAL login)</label>
+                    <Input value={viewAppForm.loginUrlPattern} onChange={(e) => setViewAppForm((p) => p ? { ...p, loginUrlPattern: e.target.value } : p)} disabled={userRole === "qa"} placeholder="URL pattern, e.g. /login or /sign-?in/i" />
+                    <Input value={viewAppForm.loginMarkerSelector} onChange={(e) => setViewAppForm((p) => p ? { ...p, loginMarkerSelector: e.target.value } : p)} disabled={userRole === "qa"} placeholder='Marker element, e.g. form#login or [data-testid="login-form"]' />
+                    <p className="text-xs text-muted-foreground">Login runs only when either matches. Leave both empty to detect a visible password field.</p>
+                  </div>
                   {viewAppError && <p className="text-sm text-destructive">{viewAppError}</p>}
                 </div>
               </SheetBody>
@@ -4128,6 +4660,21 @@ export default function ProjectDetailPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!ffConfirmDeleteId} onOpenChange={(open) => { if (!open) setFfConfirmDeleteId(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete fixture file</DialogTitle>
+            <DialogDescription>Upload steps referencing this file will fail. This cannot be undone.</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setFfConfirmDeleteId(null)}>Cancel</Button>
+            <Button variant="danger" disabled={ffDeleting} onClick={() => ffConfirmDeleteId && deleteFixtureFile(ffConfirmDeleteId)}>
+              {ffDeleting ? "Deleting…" : "Delete"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <Sheet open={envDrawerOpen} onOpenChange={setEnvDrawerOpen}>
         <SheetContent side="right">
           <SheetHeader>
@@ -4224,6 +4771,35 @@ export default function ProjectDetailPage() {
                     </select>
                   </div>
                 )}
+                {envForm.type === "E2E" && (
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-muted-foreground">Browser engine</label>
+                    <select
+                      value={envForm.browserEngine}
+                      onChange={(e) => setEnvForm((p) => ({ ...p, browserEngine: e.target.value as (typeof BROWSER_ENGINE_OPTIONS)[number] }))}
+                      className={selectClass}
+                    >
+                      {BROWSER_ENGINE_OPTIONS.map((engine) => (
+                        <option key={engine} value={engine}>{engine}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {envForm.type === "E2E" && (
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-muted-foreground">Device profile</label>
+                    <select
+                      value={envForm.deviceProfile}
+                      onChange={(e) => setEnvForm((p) => ({ ...p, deviceProfile: e.target.value }))}
+                      className={selectClass}
+                    >
+                      <option value="">— Use application profile —</option>
+                      {DEVICE_PROFILES.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 {envForm.type === "API" && envForm.apiAuthMode === "BASIC_AUTH" && (
                   <>
                     <div className="space-y-2">
@@ -4269,7 +4845,7 @@ export default function ProjectDetailPage() {
                         variant="secondary"
                         size="sm"
                         className="h-8 w-8 p-0"
-                        onClick={() => setEnvForm((p) => ({ ...p, credentials: [...p.credentials, { role: "", username: "", password: "" }] }))}
+                        onClick={() => setEnvForm((p) => ({ ...p, credentials: [...p.credentials, { role: "", username: "", password: "", totpSecret: "" }] }))}
                       >
                         <Plus className="h-4 w-4" />
                       </Button>
@@ -4321,6 +4897,22 @@ export default function ProjectDetailPage() {
                               autoComplete="off"
                             />
                           </div>
+                          <div className="flex-1 min-w-[100px] space-y-1">
+                            <label className="text-xs text-muted-foreground">TOTP secret (optional)</label>
+                            <Input
+                              type="password"
+                              value={cred.totpSecret}
+                              onChange={(e) =>
+                                setEnvForm((p) => ({
+                                  ...p,
+                                  credentials: p.credentials.map((c, i) => (i === idx ? { ...c, totpSecret: e.target.value } : c)),
+                                }))
+                              }
+                              placeholder="Base32 key or otpauth://"
+                              className="text-sm"
+                              autoComplete="off"
+                            />
+                          </div>
                           <Button
                             type="button"
                             variant="ghost"
@@ -4460,6 +5052,37 @@ export default function ProjectDetailPage() {
                         </select>
                       </div>
                     )}
+                    {viewEnvForm.type === "E2E" && (
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-muted-foreground">Browser engine</label>
+                        <select
+                          value={viewEnvForm.browserEngine}
+                          onChange={(e) => setViewEnvForm((p) => p ? { ...p, browserEngine: e.target.value } : p)}
+                          disabled={userRole === "qa"}
+                          className={selectClass}
+                        >
+                          {BROWSER_ENGINE_OPTIONS.map((engine) => (
+                            <option key={engine} value={engine}>{engine}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    {viewEnvForm.type === "E2E" && (
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-muted-foreground">Device profile</label>
+                        <select
+                          value={viewEnvForm.deviceProfile}
+                          onChange={(e) => setViewEnvForm((p) => p ? { ...p, deviceProfile: e.target.value } : p)}
+                          disabled={userRole === "qa"}
+                          className={selectClass}
+                        >
+                          <option value="">— Use application profile —</option>
+                          {DEVICE_PROFILES.map((name) => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     {viewEnvForm.type === "API" && viewEnvForm.apiAuthMode === "BASIC_AUTH" && (
                       <>
                         <div className="space-y-2">
@@ -4509,7 +5132,7 @@ export default function ProjectDetailPage() {
                               variant="secondary"
                               size="sm"
                               className="h-8 w-8 p-0"
-                              onClick={() => setViewEnvForm((p) => p ? { ...p, credentials: [...p.credentials, { role: "", username: "", password: "" }] } : p)}
+                              onClick={() => setViewEnvForm((p) => p ? { ...p, credentials: [...p.credentials, { role: "", username: "", password: "", totpSecret: "" }] } : p)}
                             >
                               <Plus className="h-4 w-4" />
                             </Button>
@@ -4562,6 +5185,22 @@ export default function ProjectDetailPage() {
                                   disabled={userRole === "qa"}
                                 />
                               </div>
+                              <div className="flex-1 min-w-[100px] space-y-1">
+                                <label className="text-xs text-muted-foreground">TOTP secret (optional)</label>
+                                <Input
+                                  type="password"
+                                  value={cred.totpSecret}
+                                  onChange={(e) =>
+                                    setViewEnvForm((p) =>
+                                      p ? { ...p, credentials: p.credentials.map((c, i) => (i === idx ? { ...c, totpSecret: e.target.value } : c)) } : p
+                                    )
+                                  }
+                                  placeholder={cred.hasTotpSecret ? "Set (leave blank to keep)" : "Base32 key or otpauth://"}
+                                  className="text-sm"
+                                  autoComplete="off"
+                                  disabled={userRole === "qa"}
+                                />
+                              </div>
                               {userRole !== "qa" && (
                                 <Button
                                   type="button"
@@ -5293,6 +5932,14 @@ export default function ProjectDetailPage() {
                     className="w-full resize-y rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-accent"
                   />
                 </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-muted-foreground">Tags</label>
+                  <Input
+                    value={tcForm.tags}
+                    onChange={(e) => setTcForm((p) => ({ ...p, tags: e.target.value }))}
+                    placeholder="e.g. smoke, regression"
+                  />
+                </div>
                 {tcError && <p className="text-sm text-destructive">{tcError}</p>}
               </div>
             </SheetBody>
@@ -5479,6 +6126,10 @@ export default function ProjectDetailPage() {
                         <label className="block text-sm font-medium text-muted-foreground">Setup hint</label>
                         <textarea value={viewTcForm.setup_hint} onChange={(e) => setViewTcForm((p) => p ? { ...p, setup_hint: e.target.value } : p)} placeholder="Optional setup or data dependency hint" rows={2} className="w-full resize-y rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-accent" />
                       </div>
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-muted-foreground">Tags</label>
+                        <Input value={viewTcForm.tags} onChange={(e) => setViewTcForm((p) => p ? { ...p, tags: e.target.value } : p)} placeholder="e.g. smoke, regression" />
+                      </div>
                       {viewTcError && <p className="text-sm text-destructive">{viewTcError}</p>}
                     </div>
                   </SheetBody>
@@ -5508,6 +6159,7 @@ export default function ProjectDetailPage() {
                     </div>
                     <div><dt className="text-muted-foreground font-medium">Expected result</dt><dd className="mt-0.5 text-foreground whitespace-pre-wrap">{viewTestCase.expectedResult ?? "—"}</dd></div>
                     <div><dt className="text-muted-foreground font-medium">Setup hint</dt><dd className="mt-0.5 text-foreground whitespace-pre-wrap">{viewTestCase.setup_hint ?? "—"}</dd></div>
+                    <div><dt className="text-muted-foreground font-medium">Tags</dt><dd className="mt-0.5 text-foreground">{viewTestCase.tags?.length ? viewTestCase.tags.join(", ") : "—"}</dd></div>
                     <div className="space-y-2 pt-2">
                       <div className="grid grid-cols-2 gap-2">
                         <div className="rounded-md border border-border bg-muted/20 px-3 py-2">
@@ -5624,6 +6276,12 @@ export default function ProjectDetailPage() {
                       <span className="text-sm text-muted-foreground">Duration</span>
                       <span className="text-foreground tabular-nums">{tcHistoryExecution.duration != null ? `${tcHistoryExecution.duration}ms` : "—"}</span>
                     </div>
+                    {(tcHistoryExecution.attempt ?? 1) > 1 && (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Attempt</span>
+                        <span>{tcHistoryExecution.attempt} (retry)</span>
+                      </div>
+                    )}
                     {tcHistoryExecution.startedAt && (
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-muted-foreground">Started</span>
@@ -3,9 +3,13 @@
 import { useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Role } from "@prisma/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { PageHeader } from "@/components/ui/page-header";
 import { getExecutionDisplayStatus, executionStatusBadgeVariant } from "@/lib/execution-status";
 
@@ -24,6 +28,52 @@ interface StepLogEntry {
   error?: string;
 }
 
+interface NetworkMock {
+  url: string;
+  method?: string | null;
+  status?: number | null;
+  body?: string | null;
+  content_type?: string | null;
+  delay_ms?: number | null;
+}
+
+/** Editable row; numeric fields stay strings until save. */
+interface NetworkMockForm {
+  url: string;
+  method: string;
+  status: string;
+  content_type: string;
+  delay_ms: string;
+  body: string;
+}
+
+const MOCK_METHOD_OPTIONS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"] as const;
+
+const selectClassInline =
+  "rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-accent";
+
+function toMockForm(m: NetworkMock): NetworkMockForm {
+  return {
+    url: m.url,
+    method: m.method ?? "",
+    status: m.status != null ? String(m.status) : "",
+    content_type: m.content_type ?? "",
+    delay_ms: m.delay_ms != null ? String(m.delay_ms) : "",
+    body: m.body ?? "",
+  };
+}
+
+function fromMockForm(f: NetworkMockForm): NetworkMock {
+  return {
+    url: f.url.trim(),
+    method: f.method || null,
+    status: f.status.trim() ? Number(f.status) : null,
+    content_type: f.content_type.trim() || null,
+    delay_ms: f.delay_ms.trim() ? Number(f.delay_ms) : null,
+    body: f.body !== "" ? f.body : null,
+  };
+}
+
 interface TestCaseDetail {
   id: string;
   title: string;
@@ -33,6 +83,7 @@ interface TestCaseDetail {
   platform: string | null;
   source: string;
   structuredPlan: { version: number; steps: StepDef[] } | null;
+  networkMocks: NetworkMock[];
   project: { id: string; name: string };
   latestExecution: {
     id: string;
@@ -48,16 +99,62 @@ export default function TestCaseDetailPage() {
   const id = params.id as string;
   const [tc, setTc] = useState<TestCaseDetail | null>(null);
   const [loading, setLoading] = useState(true);
+  const [userRole, setUserRole] = useState<Role | null>(null);
+  const [mocks, setMocks] = useState<NetworkMockForm[]>([]);
+  const [mocksSaving, setMocksSaving] = useState(false);
 
   useEffect(() => {
     if (!id) return;
     fetch(`/api/test-cases/${id}`)
       .then((r) => (r.ok ? r.json() : Promise.reject()))
-      .then(setTc)
+      .then((data: TestCaseDetail) => {
+        setTc(data);
+        setMocks((Array.isArray(data.networkMocks) ? data.networkMocks : []).map(toMockForm));
+      })
       .catch(() => setTc(null))
       .finally(() => setLoading(false));
   }, [id]);
 
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => {
+        if (data?.role) setUserRole(data.role as Role);
+      })
+      .catch(() => {
+        // Ignore errors
+      });
+  }, []);
+
+  const updateMock = (index: number, patch: Partial<NetworkMockForm>) =>
+    setMocks((prev) => prev.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+
+  const saveMocks = async () => {
+    if (mocks.some((m) => !m.url.trim())) {
+      toast.error("Every mock needs a URL pattern");
+      return;
+    }
+    setMocksSaving(true);
+    try {
+      const res = await fetch(`/api/test-cases/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ network_mocks: mocks.map(fromMockForm) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(typeof data.error === "string" ? data.error : "Invalid network mocks: each rule needs a status, a body or a delay");
+        return;
+      }
+      setMocks((Array.isArray(data.networkMocks) ? data.networkMocks : []).map(toMockForm));
+      toast.success("Network mocks saved");
+    } catch {
+      toast.error("Network error");
+    } finally {
+      setMocksSaving(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-24">
@@ -175,6 +272,107 @@ export default function TestCaseDetailPage() {
         </Card>
       </div>
 
+      {tc.testType !== "API" && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Network mocks</CardTitle>
+              <CardDescription>
+                Requests matching a URL pattern are intercepted during E2E runs. Set a status and body to stub the
+                response, or only a delay to slow the real request (e.g. gateway timeouts). Patterns are globs
+                (<code>**</code> spans path segments) or regexes written as <code>/pattern/</code>. The first matching rule wins.
+              </CardDescription>
+            </div>
+            {userRole !== "qa" && (
+              <div className="flex shrink-0 gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setMocks((prev) => [...prev, { url: "", method: "", status: "200", content_type: "application/json", delay_ms: "", body: "" }])}
+                >
+                  <Plus className="h-4 w-4 mr-1.5" />
+                  Add rule
+                </Button>
+                <Button size="sm" disabled={mocksSaving} onClick={saveMocks}>
+                  {mocksSaving ? "Saving…" : "Save"}
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {mocks.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No network mocks. Requests go to the real network.</p>
+            ) : (
+              mocks.map((mock, i) => (
+                <div key={i} className="space-y-2 rounded-md border border-border p-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={mock.method}
+                      onChange={(e) => updateMock(i, { method: e.target.value })}
+                      disabled={userRole === "qa"}
+                      className={selectClassInline}
+                    >
+                      <option value="">Any method</option>
+                      {MOCK_METHOD_OPTIONS.map((m) => (
+                        <option key={m} value={m}>{m}</option>
+                      ))}
+                    </select>
+                    <Input
+                      value={mock.url}
+                      onChange={(e) => updateMock(i, { url: e.target.value })}
+                      disabled={userRole === "qa"}
+                      placeholder="**/api/payments/**"
+                      className="h-9 min-h-0 flex-1 min-w-[240px] font-mono text-sm"
+                    />
+                    <Input
+                      type="number"
+                      value={mock.status}
+                      onChange={(e) => updateMock(i, { status: e.target.value })}
+                      disabled={userRole === "qa"}
+                      placeholder="Status"
+                      className="h-9 min-h-0 w-24 text-sm"
+                    />
+                    <Input
+                      type="number"
+                      value={mock.delay_ms}
+                      onChange={(e) => updateMock(i, { delay_ms: e.target.value })}
+                      disabled={userRole === "qa"}
+                      placeholder="Delay ms"
+                      className="h-9 min-h-0 w-28 text-sm"
+                    />
+                    <Input
+                      value={mock.content_type}
+                      onChange={(e) => updateMock(i, { content_type: e.target.value })}
+                      disabled={userRole === "qa"}
+                      placeholder="Content type"
+                      className="h-9 min-h-0 w-44 font-mono text-sm"
+                    />
+                    {userRole !== "qa" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Remove rule"
+                        onClick={() => setMocks((prev) => prev.filter((_, j) => j !== i))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <textarea
+                    value={mock.body}
+                    onChange={(e) => updateMock(i, { body: e.target.value })}
+                    disabled={userRole === "qa"}
+                    placeholder='Response body, e.g. {"items": []}'
+                    rows={3}
+                    className="w-full resize-y rounded-md border border-border bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-accent"
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Execute steps</CardTitle>
@@ -29,6 +29,9 @@ export async function GET(
     enabled: app.enabled,
     platform: app.platform,
     testTypes: app.testTypes,
+    deviceProfile: app.deviceProfile,
+    loginUrlPattern: app.loginUrlPattern,
+    loginMarkerSelector: app.loginMarkerSelector,
     createdAt: app.createdAt,
     updatedAt: app.updatedAt,
   });
@@ -63,6 +66,9 @@ export async function PATCH(
   if (p.testTypes !== undefined)
     data.testTypes =
       Array.isArray(p.testTypes) && p.testTypes.length > 0 ? p.testTypes : Prisma.DbNull;
+  if (p.deviceProfile !== undefined) data.deviceProfile = p.deviceProfile;
+  if (p.loginUrlPattern !== undefined) data.loginUrlPattern = p.loginUrlPattern?.trim() || null;
+  if (p.loginMarkerSelector !== undefined) data.loginMarkerSelector = p.loginMarkerSelector?.trim() || null;
 
   const app = await prisma.application.update({
     where: { id },
@@ -78,6 +84,9 @@ export async function PATCH(
     enabled: app.enabled,
     platform: app.platform,
     testTypes: app.testTypes,
+    deviceProfile: app.deviceProfile,
+    loginUrlPattern: app.loginUrlPattern,
+    loginMarkerSelector: app.loginMarkerSelector,
     createdAt: app.createdAt,
     updatedAt: app.updatedAt,
   });
@@ -61,6 +61,9 @@ export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (
         enabled: true,
         platform: true,
         testTypes: true,
+        deviceProfile: true,
+        loginUrlPattern: true,
+        loginMarkerSelector: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -96,6 +99,9 @@ export const POST = withApiKeyLogging(PERMISSIONS.CREATE_TEST_CASES, async (req)
       enabled: parsed.data.enabled ?? true,
       platform: parsed.data.platform ?? null,
       testTypes: Array.isArray(parsed.data.testTypes) && parsed.data.testTypes.length > 0 ? parsed.data.testTypes : Prisma.DbNull,
+      deviceProfile: parsed.data.deviceProfile ?? null,
+      loginUrlPattern: parsed.data.loginUrlPattern?.trim() || null,
+      loginMarkerSelector: parsed.data.loginMarkerSelector?.trim() || null,
     },
   });
 
@@ -108,6 +114,9 @@ export const POST = withApiKeyLogging(PERMISSIONS.CREATE_TEST_CASES, async (req)
     enabled: app.enabled,
     platform: app.platform,
     testTypes: app.testTypes,
+    deviceProfile: app.deviceProfile,
+    loginUrlPattern: app.loginUrlPattern,
+    loginMarkerSelector: app.loginMarkerSelector,
     createdAt: app.createdAt,
     updatedAt: app.updatedAt,
   });
@@ -9,6 +9,7 @@ import { PERMISSIONS } from "@/lib/auth/rbac";
 import { prisma } from "@/lib/db/client";
 import { updateEnvironmentSchema } from "@/lib/validations/schemas";
 import { encrypt, decrypt } from "@/lib/encryption";
+import type { E2ECredentialEntry } from "@/lib/credentials/e2e-credentials";
 
 export async function GET(
   _req: NextRequest,
@@ -20,16 +21,17 @@ export async function GET(
   const { id } = await params;
   const env = await prisma.environment.findUnique({
     where: { id },
-    include: { application: { select: { id: true, name: true, code: true, platform: true, testTypes: true } } },
+    include: { application: { select: { id: true, name: true, code: true, platform: true, testTypes: true, deviceProfile: true } } },
   });
   if (!env) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-  let credentials: { role?: string; username: string; password: string }[] | undefined;
+  let credentials: { role?: string; username: string; password: string; hasTotpSecret: boolean }[] | undefined;
   if (env.credentialsEnc) {
     try {
-      const raw = JSON.parse(decrypt(env.credentialsEnc)) as { role?: string; username: string; password: string }[];
+      const raw = JSON.parse(decrypt(env.credentialsEnc)) as E2ECredentialEntry[];
+      // Like passwords, TOTP secrets are never sent back; the UI only learns whether one is set
       credentials = Array.isArray(raw)
-        ? raw.map((c) => ({ role: c.role ?? "", username: c.username ?? "", password: "" }))
+        ? raw.map((c) => ({ role: c.role ?? "", username: c.username ?? "", password: "", hasTotpSecret: !!c.totpSecret }))
         : undefined;
     } catch {
       credentials = undefined;
@@ -48,6 +50,8 @@ export async function GET(
     isActive: env.isActive,
     apiAuthMode: env.apiAuthMode,
     e2eAuthMode: env.e2eAuthMode,
+    browserEngine: env.browserEngine,
+    deviceProfile: env.deviceProfile,
     createdAt: env.createdAt,
     username: env.usernameEnc ? decrypt(env.usernameEnc) : undefined,
     password: undefined,
@@ -97,28 +101,35 @@ export async function PATCH(
   if (p.isActive !== undefined) data.isActive = p.isActive;
   if (p.apiAuthMode !== undefined) data.apiAuthMode = p.apiAuthMode;
   if (p.e2eAuthMode !== undefined) data.e2eAuthMode = p.e2eAuthMode;
+  if (p.browserEngine !== undefined) data.browserEngine = p.browserEngine;
+  if (p.deviceProfile !== undefined) data.deviceProfile = p.deviceProfile;
   if ("username" in body) data.usernameEnc = body.username ? encrypt(body.username) : null;
   if ("password" in body) data.passwordEnc = body.password ? encrypt(body.password) : null;
   if ("apiToken" in body) data.apiTokenEnc = body.apiToken ? encrypt(body.apiToken) : null;
   if (p.appKey !== undefined) data.appKeyEnc = p.appKey ? encrypt(p.appKey) : null;
   if (p.secretKey !== undefined) data.secretKeyEnc = p.secretKey ? encrypt(p.secretKey) : null;
   if (p.credentials !== undefined && Array.isArray(p.credentials)) {
-    let credentialsToSave = p.credentials as { role?: string; username: string; password: string }[];
-    if (credentialsToSave.length > 0) {
+    const submitted = p.credentials;
+    if (submitted.length > 0) {
       const existing = await prisma.environment.findUnique({ where: { id }, select: { credentialsEnc: true } });
-      let existingList: { role?: string; username: string; password: string }[] = [];
+      let existingList: E2ECredentialEntry[] = [];
       if (existing?.credentialsEnc) {
         try {
-          existingList = JSON.parse(decrypt(existing.credentialsEnc)) as { role?: string; username: string; password: string }[];
+          existingList = JSON.parse(decrypt(existing.credentialsEnc)) as E2ECredentialEntry[];
         } catch {
           /* ignore */
         }
       }
-      credentialsToSave = credentialsToSave.map((c, i) => ({
-        role: c.role ?? "",
-        username: c.username,
-        password: c.password !== "" ? c.password : (existingList[i]?.password ?? ""),
-      }));
+      // Blank password / TOTP secret = keep the stored one; totpSecret null = remove it
+      const credentialsToSave: E2ECredentialEntry[] = submitted.map((c, i) => {
+        const totpSecret = c.totpSecret === null ? undefined : c.totpSecret?.trim() || existingList[i]?.totpSecret;
+        return {
+          role: c.role ?? "",
+          username: c.username,
+          password: c.password !== "" ? c.password : (existingList[i]?.password ?? ""),
+          ...(totpSecret && { totpSecret }),
+        };
+      });
       data.credentialsEnc = encrypt(JSON.stringify(credentialsToSave));
     } else {
       data.credentialsEnc = null;
@@ -139,6 +150,8 @@ export async function PATCH(
     isActive: env.isActive,
     apiAuthMode: env.apiAuthMode,
     e2eAuthMode: env.e2eAuthMode,
+    browserEngine: env.browserEngine,
+    deviceProfile: env.deviceProfile,
   });
 }
 
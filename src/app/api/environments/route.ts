@@ -58,11 +58,13 @@ export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (
         baseUrl: true,
         platform: true,
         applicationId: true,
-        application: { select: { id: true, name: true, code: true, platform: true, testTypes: true } },
+        application: { select: { id: true, name: true, code: true, platform: true, testTypes: true, deviceProfile: true } },
         type: true,
         isActive: true,
         apiAuthMode: true,
         e2eAuthMode: true,
+        browserEngine: true,
+        deviceProfile: true,
         createdAt: true,
       },
       orderBy,
@@ -92,7 +94,14 @@ export const POST = withApiKeyLogging(PERMISSIONS.CREATE_TEST_CASES, async (req)
   const apiAuthMode = (parsed.data.apiAuthMode as string) ?? "NONE";
   const credentialsEnc =
     type === "E2E" && Array.isArray(parsed.data.credentials) && parsed.data.credentials.length > 0
-      ? encrypt(JSON.stringify(parsed.data.credentials))
+      ? encrypt(
+          JSON.stringify(
+            parsed.data.credentials.map(({ totpSecret, ...c }) => ({
+              ...c,
+              ...(totpSecret?.trim() && { totpSecret: totpSecret.trim() }),
+            }))
+          )
+        )
       : null;
   const isBearer = type === "API" && apiAuthMode === "BEARER_TOKEN";
   const isBasic = type === "API" && apiAuthMode === "BASIC_AUTH";
@@ -127,6 +136,8 @@ export const POST = withApiKeyLogging(PERMISSIONS.CREATE_TEST_CASES, async (req)
       credentialsEnc,
       apiAuthMode: parsed.data.apiAuthMode ?? "NONE",
       e2eAuthMode: parsed.data.e2eAuthMode ?? "NEVER_AUTH",
+      browserEngine: parsed.data.browserEngine ?? "chromium",
+      deviceProfile: parsed.data.deviceProfile ?? null,
     },
   });
 
@@ -141,6 +152,8 @@ export const POST = withApiKeyLogging(PERMISSIONS.CREATE_TEST_CASES, async (req)
     isActive: env.isActive,
     apiAuthMode: env.apiAuthMode,
     e2eAuthMode: env.e2eAuthMode,
+    browserEngine: env.browserEngine,
+    deviceProfile: env.deviceProfile,
     createdAt: env.createdAt,
   });
 });
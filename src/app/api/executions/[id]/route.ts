@@ -1,11 +1,13 @@
 /**
- * GET /api/executions/[id] – single execution with step_log, video_url, etc.
+ * GET /api/executions/[id] – single execution with step_log, video_url, trace_url, etc.
+ * traceViewerUrl: trace viewer link for traceUrl (config trace_viewer_url), null when there is no trace.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { withApiKeyLogging } from "@/lib/auth/require-auth";
 import { PERMISSIONS } from "@/lib/auth/rbac";
 import { prisma } from "@/lib/db/client";
+import { getConfig } from "@/lib/config";
 
 export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (_req, _auth, context) => {
   const params = await context?.params ?? {};
@@ -19,5 +21,11 @@ export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (
     },
   });
   if (!execution) return NextResponse.json({ error: "Not found" }, { status: 404 });
-  return NextResponse.json(execution);
+  let traceViewerUrl: string | null = null;
+  if (execution.traceUrl) {
+    const config = await getConfig();
+    const viewer = (config.trace_viewer_url ?? "").trim().replace(/\/+$/, "");
+    if (viewer) traceViewerUrl = `${viewer}/?trace=${encodeURIComponent(execution.traceUrl)}`;
+  }
+  return NextResponse.json({ ...execution, traceViewerUrl });
 });
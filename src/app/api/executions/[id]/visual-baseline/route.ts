@@ -0,0 +1,65 @@
+/**
+ * POST /api/executions/[id]/visual-baseline – approve a visual_match step's actual screenshot as the new baseline
+ * for (test case, environment, browser engine, viewport, step). Body: { stepIndex }.
+ */
+
+import { NextResponse } from "next/server";
+import { Prisma, type BrowserEngine } from "@prisma/client";
+import { withApiKeyLogging } from "@/lib/auth/require-auth";
+import { PERMISSIONS } from "@/lib/auth/rbac";
+import { prisma } from "@/lib/db/client";
+import { getArtifact } from "@/lib/storage/s3";
+import { approveVisualBaselineSchema } from "@/lib/validations/schemas";
+import { approveVisualBaseline } from "@/lib/visual/visual-baseline-repository";
+
+type StepLogWithVisual = {
+  order: number;
+  visual?: { viewport: string; browser_engine?: BrowserEngine; actual_key: string; approved_at?: string };
+};
+
+export const POST = withApiKeyLogging(PERMISSIONS.EDIT_TEST_CASES, async (req, auth, context) => {
+  const params = await context?.params ?? {};
+  const id = params.id as string;
+  const body = await req.json().catch(() => ({}));
+  const parsed = approveVisualBaselineSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const execution = await prisma.execution.findUnique({
+    where: { id },
+    select: { id: true, testCaseId: true, environmentId: true, browserEngine: true, stepLog: true },
+  });
+  if (!execution) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const stepLog = Array.isArray(execution.stepLog) ? (execution.stepLog as unknown as StepLogWithVisual[]) : [];
+  const step = stepLog.find((s) => s.order === parsed.data.stepIndex);
+  if (!step?.visual?.actual_key) {
+    return NextResponse.json({ error: "Step has no visual_match screenshot" }, { status: 400 });
+  }
+
+  const content = await getArtifact(step.visual.actual_key);
+  if (!content) {
+    return NextResponse.json({ error: "Screenshot is no longer available in storage" }, { status: 410 });
+  }
+
+  const baseline = await approveVisualBaseline({
+    testCaseId: execution.testCaseId,
+    environmentId: execution.environmentId,
+    // Step logs from before per-engine baselines have no browser_engine; those runs were Chromium or the execution's engine
+    browserEngine: step.visual.browser_engine ?? execution.browserEngine ?? "chromium",
+    viewport: step.visual.viewport,
+    stepIndex: parsed.data.stepIndex,
+    content,
+    sourceExecutionId: execution.id,
+    approvedById: auth.apiKeyId ? null : auth.userId,
+  });
+
+  step.visual.approved_at = baseline.updatedAt.toISOString();
+  await prisma.execution.update({
+    where: { id },
+    data: { stepLog: stepLog as unknown as Prisma.InputJsonValue },
+  });
+
+  return NextResponse.json(baseline, { status: 201 });
+});
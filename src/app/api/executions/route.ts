@@ -1,5 +1,6 @@
 /**
  * GET /api/executions?projectId=&environmentId=&limit= | POST – trigger run (manager+).
+ * POST creates a test run recording the trigger (MANUAL user, or API / CI key) and enqueues its executions directly.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -8,7 +9,7 @@ import { PERMISSIONS } from "@/lib/auth/rbac";
 import { prisma } from "@/lib/db/client";
 import { triggerExecutionSchema } from "@/lib/validations/schemas";
 import { enqueueExecution } from "@/lib/queue/execution-queue";
-import { decrypt } from "@/lib/encryption";
+import { resolveE2ECredentials } from "@/lib/credentials/e2e-credentials";
 
 export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (req) => {
   const projectId = req.nextUrl.searchParams.get("projectId");
@@ -48,39 +49,56 @@ export const POST = withApiKeyLogging(PERMISSIONS.TRIGGER_EXECUTION, async (req,
     where: {
       id: { in: parsed.data.testCaseIds },
       projectId: parsed.data.projectId },
-    select: { id: true, testSteps: true },
+    select: {
+      id: true,
+      testSteps: true,
+      testType: true,
+      primaryActor: true,
+      ticket: { select: { primaryActor: true } },
+    },
   });
   if (testCases.length !== parsed.data.testCaseIds.length) {
     return NextResponse.json({ error: "One or more test cases not found" }, { status: 404 });
   }
 
-  const credentials = {
-    username: env.usernameEnc ? decrypt(env.usernameEnc) : undefined,
-    password: env.passwordEnc ? decrypt(env.passwordEnc) : undefined,
-    apiToken: env.apiTokenEnc ? decrypt(env.apiTokenEnc) : undefined,
-  };
+  const withoutSteps = testCases.find((tc) => (tc.testSteps ?? []).length === 0);
+  if (withoutSteps) {
+    return NextResponse.json(
+      { error: `Test case ${withoutSteps.id} has no test steps` },
+      { status: 400 }
+    );
+  }
+
+  // API-key callers have no user row (auth.userId is a placeholder)
+  const userId = auth.apiKeyId ? null : auth.userId;
+  const run = await prisma.testRun.create({
+    data: {
+      projectId: parsed.data.projectId,
+      status: "RUNNING",
+      triggerType: auth.apiKeyId ? (parsed.data.trigger ?? "API") : "MANUAL",
+      triggeredById: userId,
+      apiKeyId: auth.apiKeyId ?? null,
+    },
+  });
 
   const created: { id: string; testCaseId: string }[] = [];
 
   for (const tc of testCases) {
-    const steps = tc.testSteps ?? [];
-    if (steps.length === 0) {
-      return NextResponse.json(
-        { error: `Test case ${tc.id} has no test steps` },
-        { status: 400 }
-      );
-    }
-
     const execution = await prisma.execution.create({
       data: {
+        runId: run.id,
         projectId: parsed.data.projectId,
         environmentId: parsed.data.environmentId,
         testCaseId: tc.id,
         status: "QUEUED",
-        triggeredById: auth.userId,
+        triggeredById: userId,
+        browserEngine: tc.testType === "API" ? null : parsed.data.browserEngine ?? env.browserEngine,
       },
     });
 
+    // Same credential choice as scheduled runs: the role matching the primary actor (with its TOTP secret), else the first row
+    const credentials = resolveE2ECredentials(env, tc.primaryActor ?? tc.ticket?.primaryActor ?? null);
+    // The run orchestrator only marks this run COMPLETED; it neither dispatches its executions nor posts to Slack
     await enqueueExecution({
       executionId: execution.id,
       projectId: parsed.data.projectId,
@@ -93,5 +111,5 @@ export const POST = withApiKeyLogging(PERMISSIONS.TRIGGER_EXECUTION, async (req,
     created.push({ id: execution.id, testCaseId: tc.id });
   }
 
-  return NextResponse.json({ created });
+  return NextResponse.json({ runId: run.id, created });
 });
@@ -0,0 +1,115 @@
+/**
+ * GET /api/projects/[id]/accessibility - accessibility findings over time for a project.
+ * Query: applicationId, days (default 30, max 365)
+ * Returns per-application totals, a daily trend and the most frequent axe rules.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/require-auth";
+import { PERMISSIONS } from "@/lib/auth/rbac";
+import { prisma } from "@/lib/db/client";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+const TOP_RULES = 10;
+
+type StoredViolation = { id: string; impact: string | null; help: string; help_url: string; nodes: number };
+
+type Totals = {
+  audits: number;
+  failed: number;
+  critical: number;
+  serious: number;
+  moderate: number;
+  minor: number;
+};
+
+function emptyTotals(): Totals {
+  return { audits: 0, failed: 0, critical: 0, serious: 0, moderate: 0, minor: 0 };
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(PERMISSIONS.VIEW_EXECUTION_RESULTS);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: projectId } = await params;
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true },
+  });
+  if (!project) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const applicationId = req.nextUrl.searchParams.get("applicationId")?.trim() || undefined;
+  const days = Math.min(MAX_DAYS, Math.max(1, Number(req.nextUrl.searchParams.get("days")) || DEFAULT_DAYS));
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const audits = await prisma.accessibilityAudit.findMany({
+    where: { projectId, createdAt: { gte: since }, ...(applicationId && { applicationId }) },
+    orderBy: { createdAt: "asc" },
+    select: {
+      applicationId: true,
+      application: { select: { name: true } },
+      passed: true,
+      criticalCount: true,
+      seriousCount: true,
+      moderateCount: true,
+      minorCount: true,
+      violations: true,
+      createdAt: true,
+    },
+  });
+
+  const add = (t: Totals, a: (typeof audits)[number]) => {
+    t.audits += 1;
+    if (!a.passed) t.failed += 1;
+    t.critical += a.criticalCount;
+    t.serious += a.seriousCount;
+    t.moderate += a.moderateCount;
+    t.minor += a.minorCount;
+  };
+
+  const byApplication = new Map<string, Totals & { applicationId: string | null; applicationName: string; lastAuditAt: Date }>();
+  const trend = new Map<string, Totals>();
+  const rules = new Map<string, { id: string; impact: string | null; help: string; helpUrl: string; occurrences: number; nodes: number }>();
+
+  for (const a of audits) {
+    const appKey = a.applicationId ?? "";
+    let app = byApplication.get(appKey);
+    if (!app) {
+      app = {
+        ...emptyTotals(),
+        applicationId: a.applicationId,
+        applicationName: a.application?.name ?? "No application",
+        lastAuditAt: a.createdAt,
+      };
+      byApplication.set(appKey, app);
+    }
+    add(app, a);
+    app.lastAuditAt = a.createdAt;
+
+    const day = a.createdAt.toISOString().slice(0, 10);
+    if (!trend.has(day)) trend.set(day, emptyTotals());
+    add(trend.get(day)!, a);
+
+    const violations = Array.isArray(a.violations) ? (a.violations as unknown as StoredViolation[]) : [];
+    for (const v of violations) {
+      const rule = rules.get(v.id) ?? { id: v.id, impact: v.impact, help: v.help, helpUrl: v.help_url, occurrences: 0, nodes: 0 };
+      rule.occurrences += 1;
+      rule.nodes += v.nodes ?? 0;
+      rules.set(v.id, rule);
+    }
+  }
+
+  return NextResponse.json({
+    days,
+    totals: audits.reduce((t, a) => (add(t, a), t), emptyTotals()),
+    byApplication: Array.from(byApplication.values()).sort((a, b) => b.failed - a.failed || b.audits - a.audits),
+    trend: Array.from(trend.entries()).map(([date, t]) => ({ date, ...t })),
+    topRules: Array.from(rules.values())
+      .sort((a, b) => b.occurrences - a.occurrences)
+      .slice(0, TOP_RULES),
+  });
+}
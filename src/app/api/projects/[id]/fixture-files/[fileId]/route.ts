@@ -0,0 +1,32 @@
+/**
+ * DELETE /api/projects/[id]/fixture-files/[fileId] - delete fixture file (row + S3 object).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/require-auth";
+import { PERMISSIONS } from "@/lib/auth/rbac";
+import { prisma } from "@/lib/db/client";
+import { deleteArtifact } from "@/lib/storage/s3";
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; fileId: string }> }
+) {
+  const auth = await requirePermission(PERMISSIONS.EDIT_TEST_CASES);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: projectId, fileId } = await params;
+  const existing = await prisma.fixtureFile.findFirst({
+    where: { id: fileId, projectId },
+  });
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  try {
+    await deleteArtifact(existing.storageKey);
+  } catch (err) {
+    // Row is removed regardless so a missing/unreachable object does not block cleanup
+    console.warn("[FixtureFiles] Failed to delete S3 object", existing.storageKey, err);
+  }
+  await prisma.fixtureFile.delete({ where: { id: fileId } });
+  return NextResponse.json({ ok: true });
+}
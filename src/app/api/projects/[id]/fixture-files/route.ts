@@ -0,0 +1,84 @@
+/**
+ * GET /api/projects/[id]/fixture-files - list fixture files for the project.
+ * POST - upload a fixture file (multipart/form-data, field "file"). Re-uploading the same name replaces it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth/require-auth";
+import { PERMISSIONS } from "@/lib/auth/rbac";
+import { prisma } from "@/lib/db/client";
+import {
+  MAX_FIXTURE_FILE_BYTES,
+  sanitizeFixtureFileName,
+  saveFixtureFile,
+} from "@/lib/fixtures/fixture-file-repository";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(PERMISSIONS.VIEW_EXECUTION_RESULTS);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: projectId } = await params;
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true },
+  });
+  if (!project) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const data = await prisma.fixtureFile.findMany({
+    where: { projectId },
+    orderBy: { fileName: "asc" },
+  });
+  return NextResponse.json({ data, total: data.length });
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(PERMISSIONS.EDIT_TEST_CASES);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: projectId } = await params;
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true },
+  });
+  if (!project) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 });
+  }
+  const file = form.get("file");
+  if (!file || typeof file === "string") {
+    return NextResponse.json({ error: "file is required" }, { status: 400 });
+  }
+  const fileName = sanitizeFixtureFileName(file.name);
+  if (!fileName) {
+    return NextResponse.json({ error: "Invalid file name" }, { status: 400 });
+  }
+  if (file.size > MAX_FIXTURE_FILE_BYTES) {
+    return NextResponse.json(
+      { error: `File exceeds ${MAX_FIXTURE_FILE_BYTES / (1024 * 1024)} MB limit` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const row = await saveFixtureFile({
+      projectId,
+      fileName,
+      contentType: file.type || "application/octet-stream",
+      content: Buffer.from(await file.arrayBuffer()),
+    });
+    return NextResponse.json(row, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return NextResponse.json({ error: `Upload failed: ${message}` }, { status: 500 });
+  }
+}
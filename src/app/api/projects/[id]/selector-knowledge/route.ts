@@ -95,6 +95,7 @@ export async function GET(
       applicationName: row.application?.name ?? null,
       applicationCode: row.application?.code ?? null,
       semanticKey: row.semanticKey,
+      frameContext: row.frameContext,
       selector: row.selector,
       confidenceScore: row.confidenceScore,
       usageCount: row.usageCount,
@@ -24,6 +24,10 @@ export async function GET(
       completedAt: true,
       createdAt: true,
       updatedAt: true,
+      triggerType: true,
+      schedule: { select: { id: true, name: true } },
+      triggeredBy: { select: { id: true, name: true, email: true } },
+      apiKey: { select: { id: true, name: true } },
     },
   });
   if (!run) return NextResponse.json({ error: "Not found" }, { status: 404 });
@@ -39,6 +43,9 @@ export async function GET(
       startedAt: true,
       finishedAt: true,
       duration: true,
+      browserEngine: true,
+      attempt: true,
+      retryOfId: true,
       testCaseId: true,
       testCase: { select: { id: true, title: true } },
     },
@@ -56,6 +63,9 @@ export async function GET(
         startedAt: e.startedAt,
         finishedAt: e.finishedAt,
         duration: e.duration,
+        browserEngine: e.browserEngine,
+        attempt: e.attempt,
+        retryOfId: e.retryOfId,
         testCaseId: e.testCaseId,
         testCaseTitle: e.testCase?.title ?? "",
       };
@@ -1,6 +1,6 @@
 /**
  * GET /api/projects/[id]/test-runs - list test runs for a project with counts.
- * Query: page, limit, status, sortBy, sortOrder
+ * Query: page, limit, status, scheduleId, triggerType (SCHEDULE | MANUAL | API | CI), sortBy, sortOrder
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -28,11 +28,22 @@ export async function GET(
   const page = Math.max(1, Number(req.nextUrl.searchParams.get("page")) || 1);
   const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.nextUrl.searchParams.get("limit")) || DEFAULT_LIMIT));
   const status = req.nextUrl.searchParams.get("status")?.trim() || undefined;
+  const scheduleId = req.nextUrl.searchParams.get("scheduleId")?.trim() || undefined;
+  const triggerType = req.nextUrl.searchParams.get("triggerType")?.trim() || undefined;
   const sortBy = (req.nextUrl.searchParams.get("sortBy")?.trim() || "startedAt") as "startedAt" | "completedAt" | "status";
   const sortOrder = (req.nextUrl.searchParams.get("sortOrder")?.toLowerCase() === "asc" ? "asc" : "desc") as "asc" | "desc";
   const skip = (page - 1) * limit;
 
-  const where = { projectId, ...(status && { status: status as "RUNNING" | "COMPLETED" }) };
+  const triggerEnum = ["SCHEDULE", "MANUAL", "API", "CI"] as const;
+  const where = {
+    projectId,
+    ...(status && { status: status as "RUNNING" | "COMPLETED" }),
+    ...(scheduleId && { scheduleId }),
+    ...(triggerType &&
+      triggerEnum.includes(triggerType as (typeof triggerEnum)[number]) && {
+        triggerType: triggerType as (typeof triggerEnum)[number],
+      }),
+  };
 
   const orderBy =
     sortBy === "completedAt" ? { completedAt: sortOrder } :
@@ -52,7 +63,12 @@ export async function GET(
         completedAt: true,
         createdAt: true,
         updatedAt: true,
-        _count: { select: { executions: true } },
+        triggerType: true,
+        schedule: { select: { id: true, name: true } },
+        triggeredBy: { select: { id: true, name: true, email: true } },
+        apiKey: { select: { id: true, name: true } },
+        // Latest attempts only: an execution re-queued by the retry policy is superseded by its retry
+        _count: { select: { executions: { where: { retries: { none: {} } } } } },
       },
     }),
     prisma.testRun.count({ where }),
@@ -60,7 +76,7 @@ export async function GET(
 
   const executionCounts = await prisma.execution.groupBy({
     by: ["runId", "status"],
-    where: { runId: { in: runs.map((r) => r.id) } },
+    where: { runId: { in: runs.map((r) => r.id) }, retries: { none: {} } },
     _count: { id: true },
   });
 
@@ -83,6 +99,10 @@ export async function GET(
     completedAt: r.completedAt,
     createdAt: r.createdAt,
     updatedAt: r.updatedAt,
+    triggerType: r.triggerType,
+    schedule: r.schedule,
+    triggeredBy: r.triggeredBy,
+    apiKey: r.apiKey,
     totalExecutions: countsByRun[r.id]?.total ?? 0,
     passed: countsByRun[r.id]?.passed ?? 0,
     failed: countsByRun[r.id]?.failed ?? 0,
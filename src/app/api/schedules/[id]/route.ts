@@ -2,11 +2,13 @@
  * GET /api/schedules/[id] | PATCH | DELETE.
  */
 
+import { Prisma } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { requirePermission } from "@/lib/auth/require-auth";
 import { PERMISSIONS } from "@/lib/auth/rbac";
 import { prisma } from "@/lib/db/client";
 import { updateScheduleSchema } from "@/lib/validations/schemas";
+import { getNextRunFromCron } from "@/lib/scheduler/next-run";
 
 export async function GET(
   _req: NextRequest,
@@ -46,9 +48,28 @@ export async function PATCH(
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
+  const existing = await prisma.schedule.findUnique({
+    where: { id },
+    select: { cronExpression: true, timezone: true },
+  });
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const { selectionFilter, blackoutWindows, ...fields } = parsed.data;
+  const cronExpression = parsed.data.cronExpression ?? existing.cronExpression;
+  const timezone = parsed.data.timezone ?? existing.timezone;
+  const timingChanged = cronExpression !== existing.cronExpression || timezone !== existing.timezone;
   const data = {
-    ...parsed.data,
+    ...fields,
     ...(parsed.data.retryPolicy !== undefined && { retryPolicy: parsed.data.retryPolicy as object }),
+    ...(selectionFilter !== undefined && {
+      selectionFilter: selectionFilter ? (selectionFilter as object) : Prisma.DbNull,
+    }),
+    ...(blackoutWindows !== undefined && {
+      blackoutWindows: blackoutWindows?.length ? blackoutWindows : Prisma.DbNull,
+    }),
+    ...(parsed.data.browserEngines !== undefined && { browserEngines: [...new Set(parsed.data.browserEngines)] }),
+    // Next run follows the new cron / timezone instead of the old schedule
+    ...(timingChanged && { nextRunAt: getNextRunFromCron(cronExpression, timezone) }),
   };
   const schedule = await prisma.schedule.update({
     where: { id },
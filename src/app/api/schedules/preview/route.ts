@@ -0,0 +1,26 @@
+/**
+ * POST /api/schedules/preview – how many test cases a schedule with this test case list / selection filter would pick.
+ */
+
+import { NextResponse } from "next/server";
+import { withApiKeyLogging } from "@/lib/auth/require-auth";
+import { PERMISSIONS } from "@/lib/auth/rbac";
+import { prisma } from "@/lib/db/client";
+import { previewScheduleSelectionSchema } from "@/lib/validations/schemas";
+import { scheduleTestCaseWhere } from "@/lib/scheduler/test-case-selection";
+
+export const POST = withApiKeyLogging(PERMISSIONS.MANAGE_SCHEDULE, async (req) => {
+  const parsed = previewScheduleSelectionSchema.safeParse(await req.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const count = await prisma.testCase.count({
+    where: scheduleTestCaseWhere({
+      projectId: parsed.data.projectId,
+      testCaseIds: parsed.data.testCaseIds ?? [],
+      selectionFilter: parsed.data.selectionFilter ?? null,
+    }),
+  });
+  return NextResponse.json({ count });
+});
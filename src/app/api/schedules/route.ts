@@ -41,14 +41,19 @@ export const POST = withApiKeyLogging(PERMISSIONS.MANAGE_SCHEDULE, async (req) =
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
-  const nextRunAt = getNextRunFromCron(parsed.data.cronExpression);
+  const timezone = parsed.data.timezone ?? "UTC";
+  const nextRunAt = getNextRunFromCron(parsed.data.cronExpression, timezone);
   const schedule = await prisma.schedule.create({
     data: {
       projectId: parsed.data.projectId,
       environmentIds: parsed.data.environmentIds,
       name: parsed.data.name,
       cronExpression: parsed.data.cronExpression,
+      timezone,
+      blackoutWindows: parsed.data.blackoutWindows?.length ? parsed.data.blackoutWindows : Prisma.DbNull,
       testCaseIds: parsed.data.testCaseIds ?? [],
+      selectionFilter: parsed.data.selectionFilter ? (parsed.data.selectionFilter as object) : Prisma.DbNull,
+      browserEngines: [...new Set(parsed.data.browserEngines ?? [])],
       concurrencyLimit: parsed.data.concurrencyLimit ?? 3,
       retryPolicy: parsed.data.retryPolicy ? (parsed.data.retryPolicy as object) : Prisma.DbNull,
       isActive: parsed.data.isActive ?? true,
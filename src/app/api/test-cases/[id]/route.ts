@@ -44,6 +44,7 @@ export async function GET(
   return NextResponse.json({
     ...rest,
     dataRequirement: rest.dataRequirement ?? [],
+    networkMocks: rest.networkMocks ?? [],
     latestExecution,
   });
 }
@@ -84,11 +85,13 @@ export async function PATCH(
     ...(parsed.data.testSteps !== undefined && { testSteps: parsed.data.testSteps }),
     ...(parsed.data.expectedResult !== undefined && { expectedResult: parsed.data.expectedResult ?? null }),
     ...(parsed.data.category !== undefined && { category: parsed.data.category ?? null }),
+    ...(parsed.data.tags !== undefined && { tags: parsed.data.tags }),
     ...(parsed.data.data_condition !== undefined && { data_condition: parsed.data.data_condition ?? null }),
     ...(parsed.data.data_requirement !== undefined && {
       dataRequirement: parsed.data.data_requirement === null ? [] : parsed.data.data_requirement,
     }),
     ...(parsed.data.setup_hint !== undefined && { setup_hint: parsed.data.setup_hint ?? null }),
+    ...(parsed.data.network_mocks !== undefined && { networkMocks: parsed.data.network_mocks ?? [] }),
     ...(parsed.data.structuredPlan !== undefined && { structuredPlan: parsed.data.structuredPlan as object }),
     ...(parsed.data.ignoreReason !== undefined && { ignoreReason: parsed.data.ignoreReason ?? null }),
     ...(parsed.data.primaryActor !== undefined && { primaryActor: parsed.data.primaryActor }),
@@ -112,6 +115,7 @@ export async function PATCH(
   return NextResponse.json({
     ...testCase,
     dataRequirement: testCase.dataRequirement ?? [],
+    networkMocks: testCase.networkMocks ?? [],
   });
 }
 
@@ -1,5 +1,5 @@
 /**
- * GET /api/test-cases?projectId= | POST – create.
+ * GET /api/test-cases?projectId=&tag= | POST – create.
  */
 
 import { Prisma } from "@prisma/client";
@@ -24,6 +24,7 @@ export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (
   const status = req.nextUrl.searchParams.get("status")?.trim() || undefined;
   const testType = req.nextUrl.searchParams.get("testType")?.trim() || undefined;
   const platform = req.nextUrl.searchParams.get("platform")?.trim() || undefined;
+  const tag = req.nextUrl.searchParams.get("tag")?.trim().toLowerCase() || undefined;
   const page = Math.max(1, Number(req.nextUrl.searchParams.get("page")) || 1);
   const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.nextUrl.searchParams.get("limit")) || DEFAULT_LIMIT));
   const skip = (page - 1) * limit;
@@ -51,6 +52,7 @@ export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (
   if (status && statusEnum.includes(status as (typeof statusEnum)[number])) where.status = status as (typeof statusEnum)[number];
   if (testType === "API" || testType === "E2E") where.testType = testType;
   if (platform) where.platform = platform;
+  if (tag) where.tags = { has: tag };
 
   const orderField = ["title", "priority", "status", "updatedAt"].includes(sortBy) ? sortBy : "updatedAt";
   const orderBy = { [orderField]: sortOrder as "asc" | "desc" };
@@ -71,9 +73,11 @@ export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (
         testSteps: true,
         expectedResult: true,
         category: true,
+        tags: true,
         data_condition: true,
         dataRequirement: true,
         setup_hint: true,
+        networkMocks: true,
         ignoreReason: true,
         ticketId: true,
         ticket: { select: { title: true, externalId: true } },
@@ -93,6 +97,7 @@ export const GET = withApiKeyLogging(PERMISSIONS.VIEW_EXECUTION_RESULTS, async (
   const normalized = list.map((tc) => ({
     ...tc,
     dataRequirement: tc.dataRequirement ?? [],
+    networkMocks: tc.networkMocks ?? [],
   }));
   return NextResponse.json({
     data: normalized,
@@ -140,9 +145,11 @@ export const POST = withApiKeyLogging(PERMISSIONS.CREATE_TEST_CASES, async (req,
       testSteps: parsed.data.testSteps ?? [],
       expectedResult: parsed.data.expectedResult ?? null,
       category: parsed.data.category ?? null,
+      tags: parsed.data.tags ?? [],
       data_condition: parsed.data.data_condition ?? null,
       dataRequirement: Array.isArray(parsed.data.data_requirement) ? parsed.data.data_requirement : [],
       setup_hint: parsed.data.setup_hint ?? null,
+      networkMocks: parsed.data.network_mocks ?? [],
       structuredPlan: parsed.data.structuredPlan ? (parsed.data.structuredPlan as object) : Prisma.DbNull,
       source: (parsed.data.source as "manual" | "import" | "n8n" | "AI") ?? "manual",
       primaryActor,
@@ -152,5 +159,6 @@ export const POST = withApiKeyLogging(PERMISSIONS.CREATE_TEST_CASES, async (req,
   return NextResponse.json({
     ...testCase,
     dataRequirement: testCase.dataRequirement ?? [],
+    networkMocks: testCase.networkMocks ?? [],
   });
 });
@@ -34,6 +34,8 @@ export async function GET(
     testCaseId: e.testCaseId,
     testCaseTitle: e.testCase?.title ?? null,
     status: e.status,
+    attempt: e.attempt,
+    retryOfId: e.retryOfId,
     startedAt: e.startedAt,
     finishedAt: e.finishedAt,
     duration: e.duration,
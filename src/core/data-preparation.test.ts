@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { flattenResolvedDataToVariables, interpolatePlaceholders, replacePlaceholders } from "./data-preparation";
+
+const resolvedData = {
+  user: { name: "Alice", token: "tok_123" },
+  order: { items: [{ material_code: "M-1" }] },
+};
+
+describe("interpolatePlaceholders", () => {
+  it("resolves nested paths and array indexes", () => {
+    assert.equal(interpolatePlaceholders("Bearer {{user.token}}", resolvedData), "Bearer tok_123");
+    assert.equal(interpolatePlaceholders("/materials/{{ order.items[0].material_code }}", resolvedData), "/materials/M-1");
+  });
+
+  it("leaves runtime variables for the runner", () => {
+    const deferred = new Set(["ORDER_ID", "session"]);
+    assert.equal(
+      interpolatePlaceholders("/orders/{{ORDER_ID}}?u={{user.name}}&s={{session.id}}", resolvedData, deferred),
+      "/orders/{{ORDER_ID}}?u=Alice&s={{session.id}}"
+    );
+  });
+
+  it("throws on an unresolved placeholder", () => {
+    assert.throws(() => interpolatePlaceholders("{{user.email}}", resolvedData), /Placeholder \{\{user\.email\}\} could not be resolved/);
+  });
+});
+
+describe("replacePlaceholders", () => {
+  it("replaces <VAR> and {{VAR}} and keeps unknown placeholders", () => {
+    const variables = { TENANT: "acme", ORDER_ID: "42" };
+    assert.equal(replacePlaceholders("<TENANT>/orders/{{ORDER_ID}}/<OTHER>", variables), "acme/orders/42/<OTHER>");
+  });
+
+  it("passes empty input through", () => {
+    assert.equal(replacePlaceholders(undefined, { A: "1" }), undefined);
+    assert.equal(replacePlaceholders("", { A: "1" }), "");
+    assert.equal(replacePlaceholders("<A>", {}), "<A>");
+  });
+});
+
+describe("flattenResolvedDataToVariables", () => {
+  it("flattens to dotted keys", () => {
+    assert.deepEqual(flattenResolvedDataToVariables(resolvedData), {
+      "user.name": "Alice",
+      "user.token": "tok_123",
+      "order.items[0].material_code": "M-1",
+    });
+  });
+});
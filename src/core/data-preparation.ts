@@ -185,16 +185,19 @@ const PLACEHOLDER_REGEX = /\{\{([^}]+)\}\}/g;
 
 /**
  * Interpolate {{alias.field}} and {{alias.items[0].field}} in a string using resolvedData.
- * Throws if a placeholder cannot be resolved.
+ * Placeholders whose full path or alias is in `deferred` (values captured at runtime) are left as-is.
+ * Throws if any other placeholder cannot be resolved.
  */
 export function interpolatePlaceholders(
   str: string,
-  resolvedData: Record<string, unknown>
+  resolvedData: Record<string, unknown>,
+  deferred?: ReadonlySet<string>
 ): string {
   return str.replace(PLACEHOLDER_REGEX, (match, path) => {
     const trimmed = path.trim();
     const dotIndex = trimmed.indexOf(".");
     const alias = dotIndex >= 0 ? trimmed.slice(0, dotIndex) : trimmed;
+    if (deferred?.has(trimmed) || deferred?.has(alias)) return match;
     const rest = dotIndex >= 0 ? trimmed.slice(dotIndex + 1) : "";
     const base = resolvedData[alias];
     const value = rest ? getNestedValue(base, rest) : base;
@@ -205,6 +208,25 @@ export function interpolatePlaceholders(
   });
 }
 
+/**
+ * Replace <PLACEHOLDER> and {{PLACEHOLDER}} with variables["PLACEHOLDER"]. Unknown placeholders left as-is.
+ * Runtime counterpart of interpolatePlaceholders: variables include values extracted by earlier steps.
+ */
+export function replacePlaceholders(
+  str: string | undefined,
+  variables: Record<string, string>
+): string | undefined {
+  if (str == null || str === "") return str;
+  if (Object.keys(variables).length === 0) return str;
+  let out = str;
+  for (const [key, value] of Object.entries(variables)) {
+    for (const placeholder of [`<${key}>`, `{{${key}}}`]) {
+      if (out.includes(placeholder)) out = out.split(placeholder).join(value);
+    }
+  }
+  return out;
+}
+
 /**
  * Flatten resolvedData to variables for runner compatibility.
  * Keys: "alias.field" -> value as string.
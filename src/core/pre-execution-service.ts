@@ -6,12 +6,52 @@
 import { prisma } from "@/lib/db/client";
 import { DataOrchestrator } from "@/core/data-orchestrator";
 import type { ApplicationConfig, EnvConfig, TestCaseInput } from "@/core/data-orchestrator";
-import type { AgentExecution, AgentExecutionStep } from "@/lib/agent-execution-types";
+import type {
+  AgentExecution,
+  AgentExecutionDropTarget,
+  AgentExecutionStep,
+  NetworkMockRule,
+} from "@/lib/agent-execution-types";
 import { findSelector, incrementUsageCount } from "@/lib/selector/selector-knowledge-repository";
 import { buildSemanticKey } from "@/lib/selector/semantic-key";
 import { isBodySelectorForFill } from "@/lib/selector/selector-validation";
-import { mapExpectedResultToAssertion } from "@/lib/assertion/assertion-mapper-service";
+import {
+  mapExpectedResultToAssertions,
+  mapExpectedResultToApiAssertion,
+  splitStepAssertionClause,
+  mentionsNoConsoleErrors,
+  stripNoConsoleErrors,
+  mentionsVisualMatch,
+  mapVisualMatchAssertion,
+  mentionsAccessibility,
+  mapAccessibilityAssertion,
+} from "@/lib/assertion/assertion-mapper-service";
+import {
+  parseApiRequestFromStepText,
+  parseExtractionsFromStepText,
+  extractStatusCode,
+} from "@/lib/api-request/api-request-parser";
 import { isValidUrl, extractUrlFromStepText } from "@/lib/url-validation";
+import {
+  inferInteractionAction,
+  mentionsDownload,
+  nextFrameContext,
+  parseActorSwitch,
+  parseCopyStep,
+  parseDialogMessage,
+  parseDialogPromptText,
+  parseDownloadCheck,
+  parseDownloadTarget,
+  parseDragTargets,
+  parseExtractStep,
+  parseFrameRef,
+  parseKeyCombo,
+  parseKeyTarget,
+  parsePageScroll,
+  parsePageTarget,
+  parseScrollTarget,
+  parseSwitchMain,
+} from "@/lib/interaction/interaction-parser";
 import {
   resolveDataRequirements,
   interpolatePlaceholders,
@@ -34,6 +74,8 @@ export interface PreExecutionInput {
     data_condition: string | null;
     data_requirement?: DataRequirementItem[];
     setup_hint: string | null;
+    /** E2E route stubs (TestCase.networkMocks); copied into the agent_execution snapshot. */
+    network_mocks?: NetworkMockRule[];
     ticket?: {
       title: string | null;
       description: string | null;
@@ -59,12 +101,27 @@ export interface PreExecutionResult {
 }
 
 
+/** Verbs that make a step an action; "Click submit with no console errors" clicks and checks the console after. */
+const ACTION_VERB_REGEX =
+  /\b(?:click|tap|press|submit|fill|type|enter|select|choose|navigate|go to|open|upload|attach|hover|drag|scroll|tick|uncheck|download|copy|switch)\b/i;
+
 function inferAction(stepText: string): string {
   const t = stepText.toLowerCase();
+  if (mentionsVisualMatch(t)) return "assert_visual_match";
+  if (mentionsNoConsoleErrors(t)) {
+    const rest = stripNoConsoleErrors(stepText);
+    // The check itself is added as a step assertion (see consoleCheck in runPreExecution)
+    return ACTION_VERB_REGEX.test(rest) ? inferAction(rest) : "assert_no_console_errors";
+  }
+  // Without a fixture file name it is a control named "Upload" ("Click the Upload button") → click rules below
+  if ((t.includes("upload") || t.includes("attach file")) && extractUploadFileName(stepText)) return "upload";
+  const interaction = inferInteractionAction(stepText);
+  if (interaction) return interaction;
   if (t.includes("click") || t.includes("press") || t.includes("submit")) return "click";
   if (t.includes("fill") || t.includes("type") || t.includes("enter")) return "fill";
   if (t.includes("select")) return "select";
   if (t.includes("navigate") || t.includes("go to") || t.includes("open")) return "navigate";
+  if (mentionsAccessibility(t)) return "assert_accessibility";
   if (t.includes("visible") || t.includes("displayed")) return "assert_visible";
   if (t.includes("redirect") || t.includes("url")) return "assert_url";
   if (t.includes("contain") || t.includes("text")) return "assert_text";
@@ -73,6 +130,179 @@ function inferAction(stepText: string): string {
   return "click";
 }
 
+/** Fixture file name from upload step text: quoted name or first token with an extension ("Upload invoice.pdf to ..."). */
+function extractUploadFileName(stepText: string): string | null {
+  const quoted = stepText.match(/["'`]([^"'`]+\.[A-Za-z0-9]{1,8})["'`]/);
+  if (quoted) return quoted[1].trim();
+  const bare = stepText.match(/(?:^|\s)([\w-][\w.-]*\.[A-Za-z0-9]{1,8})(?=[\s.,;:]*(?:\s|$))/);
+  return bare ? bare[1] : null;
+}
+
+const STEP_TIMEOUT_PATTERN =
+  /[\s,;(]*\btime\s?out\s*:?\s*(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)\b\)?/i;
+const TIMEOUT_UNIT_MS: Record<string, number> = { m: 60000, s: 1000 };
+
+/**
+ * Per-step limit written in step text ("Click Export (timeout 2m)", "Wait for report, timeout: 90s").
+ * Returns the limit in ms and the text without the clause, so the semantic key does not change with the limit.
+ */
+function extractStepTimeout(stepText: string): { timeoutMs: number | null; text: string } {
+  const match = stepText.match(STEP_TIMEOUT_PATTERN);
+  if (!match) return { timeoutMs: null, text: stepText };
+  const unit = match[2].toLowerCase();
+  const factor = unit.startsWith("ms") || unit.startsWith("milli") ? 1 : TIMEOUT_UNIT_MS[unit[0]];
+  const timeoutMs = Math.round(Number.parseFloat(match[1]) * factor);
+  return { timeoutMs: timeoutMs > 0 ? timeoutMs : null, text: stepText.replace(match[0], "").trim() };
+}
+
+/**
+ * press_key / scroll / drag: step fields parsed from text and the text the element selector is resolved from
+ * (key target, scroll target or dragged element rather than the whole sentence).
+ * pageLevel = the step needs no element ("Press Enter" goes to the focused element, "Scroll down" scrolls the page,
+ * frame / tab switches act on the browser context).
+ */
+function parseInteractionStep(
+  action: string,
+  stepText: string
+): { target: string; pageLevel: boolean; fields: Partial<AgentExecutionStep> } {
+  switch (action) {
+    case "press_key": {
+      const keyTarget = parseKeyTarget(stepText);
+      const key = parseKeyCombo(stepText);
+      return { target: keyTarget ?? key ?? stepText, pageLevel: !keyTarget, fields: { key } };
+    }
+    case "scroll": {
+      const scrollTo = parsePageScroll(stepText);
+      return scrollTo
+        ? { target: scrollTo, pageLevel: true, fields: { scroll_to: scrollTo } }
+        : { target: parseScrollTarget(stepText) ?? stepText, pageLevel: false, fields: {} };
+    }
+    case "drag":
+      return { target: parseDragTargets(stepText)?.source ?? stepText, pageLevel: false, fields: {} };
+    case "switch_frame": {
+      const frame = parseFrameRef(stepText);
+      return { target: frame ?? stepText, pageLevel: true, fields: { frame } };
+    }
+    case "switch_page": {
+      const pageTarget = parsePageTarget(stepText) ?? "new";
+      return { target: String(pageTarget), pageLevel: true, fields: { page_target: pageTarget } };
+    }
+    case "accept_dialog":
+    case "dismiss_dialog":
+      return {
+        target: "dialog",
+        pageLevel: true,
+        fields: { prompt_text: parseDialogPromptText(stepText), dialog_message: parseDialogMessage(stepText) },
+      };
+    case "download":
+      return { target: parseDownloadTarget(stepText), pageLevel: false, fields: { download: parseDownloadCheck(stepText) } };
+    case "copy": {
+      const { target, variable } = parseCopyStep(stepText);
+      return { target, pageLevel: false, fields: { variable } };
+    }
+    case "extract": {
+      const extract = parseExtractStep(stepText);
+      return {
+        target: extract?.target ?? stepText,
+        pageLevel: false,
+        fields: {
+          variable: extract?.variable ?? null,
+          extract_attribute: extract?.attribute ?? null,
+          extract_pattern: extract?.pattern ?? null,
+        },
+      };
+    }
+    case "enter_otp":
+      // The runner finds the OTP field itself and types the code from the actor's TOTP secret
+      return { target: "otp", pageLevel: true, fields: {} };
+    case "switch_actor": {
+      const actor = parseActorSwitch(stepText);
+      return { target: actor ?? stepText, pageLevel: true, fields: { actor } };
+    }
+    case "switch_main": {
+      const switchMain = parseSwitchMain(stepText);
+      return {
+        target: switchMain?.frameOnly ? "main_frame" : "main",
+        pageLevel: true,
+        fields: { close_page: switchMain?.close ?? false, frame_only: switchMain?.frameOnly ?? false },
+      };
+    }
+    default:
+      return { target: stepText, pageLevel: false, fields: {} };
+  }
+}
+
+/** Drop target of a drag step: selector knowledge under its own semantic key; unknown → resolved by the runner with AI + DOM. */
+async function resolveDropTarget(
+  projectId: string,
+  appId: string,
+  targetText: string,
+  frameContext: string,
+  executionSelectorCache: ExecutionSelectorCache
+): Promise<AgentExecutionDropTarget> {
+  const semantic_key = buildSemanticKey("drop", targetText);
+  const cacheKey = `${appId}:${frameContext}:${semantic_key}`;
+  const cached = executionSelectorCache.get(cacheKey);
+  if (cached) return { semantic_key, resolved_selector: cached.selector };
+  if (appId && projectId) {
+    const knowledge = await findSelector(projectId, appId, semantic_key, frameContext);
+    if (knowledge?.selector) {
+      executionSelectorCache.set(cacheKey, { status: "FOUND_IN_DB", selector: knowledge.selector });
+      await incrementUsageCount(projectId, appId, semantic_key, frameContext);
+      return { semantic_key, resolved_selector: knowledge.selector };
+    }
+  }
+  return { semantic_key, resolved_selector: null };
+}
+
+/** Apply fn to every string inside an assertion value (string, cells array, attribute object). */
+function mapStringValues(value: unknown, fn: (s: string) => string): unknown {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map((v) => mapStringValues(v, fn));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStringValues(v, fn)]));
+  }
+  return value;
+}
+
+/**
+ * API test cases: build a step from text without selector resolution.
+ * "METHOD /path" → api_request (optionally with a status assertion in the same sentence);
+ * "status NNN" → assert_status; 'contains "x"' → assert_text. Unparseable steps are UNRESOLVED and fail at runtime.
+ * "save $.path as VAR" clauses become step.extract (request chaining).
+ */
+function buildApiStep(stepIndex: number, stepText: string, now: string): AgentExecutionStep {
+  const request = parseApiRequestFromStepText(stepText);
+  const extract = parseExtractionsFromStepText(stepText);
+  // Strip extraction clauses so "save $.status as X" is not read as an assertion
+  const assertionText = extract.length ? stepText.replace(/\b(?:save|store|extract|capture)\s+\S+\s+(?:as|into|to)\s+\S+/gi, "") : stepText;
+  const statusCode = extractStatusCode(assertionText);
+  const quoted = assertionText.match(/["'`]([^"'`]+)["'`]/)?.[1] ?? null;
+  let action = "api_request";
+  let assertion: AgentExecutionStep["assertion"] = null;
+  if (request) {
+    if (statusCode != null) assertion = { type: "status_code", selector: null, value: statusCode };
+  } else if (statusCode != null) {
+    action = "assert_status";
+    assertion = { type: "status_code", selector: null, value: statusCode };
+  } else if (/contain|include/i.test(assertionText)) {
+    action = "assert_text";
+    assertion = quoted ? { type: "text_contains", selector: null, value: quoted } : null;
+  }
+  const resolved = action === "api_request" ? request != null : assertion != null;
+  return {
+    stepIndex,
+    semantic_key: buildSemanticKey(action, stepText),
+    action,
+    resolved_selector: null,
+    resolution_status: resolved ? "RESOLVED" : "UNRESOLVED",
+    assertion,
+    last_verified_at: resolved ? now : null,
+    request,
+    ...(extract.length > 0 && { extract }),
+  };
+}
+
 /**
  * For navigate steps: ensure we only keep action "navigate" when we have a valid URL.
  * If the resolved target is a selector (e.g. from AI), convert to "click" so the runner
@@ -96,7 +326,7 @@ function resolveNavigateTarget(
   return { action: "click", resolved_selector };
 }
 
-/** Step text injected when E2E environment requires login (e2eAuthMode === ALWAYS_AUTH). */
+/** Step text injected when E2E environment requires login (e2eAuthMode ALWAYS_AUTH or CONDITIONAL). */
 const LOGIN_STEP_TEXT = "Perform login to the application using environment credentials";
 
 export async function runPreExecution(input: PreExecutionInput): Promise<PreExecutionResult> {
@@ -163,10 +393,34 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
 
   const appId = applicationId ?? "";
   const now = new Date().toISOString();
+  // Page / frame the next step runs in; switch_frame / switch_page / switch_main steps move it.
+  // Every actor has its own browser context: switch_actor brings back that actor's last page / frame ("" = first actor).
+  let frameContext = "";
+  let actor = "";
+  const actorFrameContexts = new Map<string, string>();
 
   for (let stepIndex = 0; stepIndex < effectiveTestSteps.length; stepIndex++) {
-    const stepText = effectiveTestSteps[stepIndex];
-    if (!stepText?.trim()) continue;
+    if (!effectiveTestSteps[stepIndex]?.trim()) continue;
+    // Step limit is re-read on every run, like the upload file name below
+    const { timeoutMs, text: timedStepText } = extractStepTimeout(effectiveTestSteps[stepIndex]);
+
+    // API steps: parsed from text on every run; no selector knowledge involved
+    if (testType === "API") {
+      stepsByIndex.set(stepIndex, { ...buildApiStep(stepIndex, timedStepText, now), ...(timeoutMs && { timeout_ms: timeoutMs }) });
+      continue;
+    }
+    // "... and verify <check>" becomes step assertions (refreshed every run); the rest is the action.
+    // Download steps keep the clause: it describes the downloaded file, not the page.
+    const isDownload = mentionsDownload(timedStepText);
+    const { text: splitText, check } = splitStepAssertionClause(timedStepText);
+    const actionText = isDownload ? timedStepText : splitText;
+    const stepAssertions = check && !isDownload ? mapExpectedResultToAssertions(check, null) : [];
+    // "Click submit with no console errors": the action runs on the rest of the text, the console check rides along
+    const consoleCheck = mentionsNoConsoleErrors(actionText) && inferAction(actionText) !== "assert_no_console_errors";
+    const stepText = consoleCheck ? stripNoConsoleErrors(actionText) : actionText;
+    if (consoleCheck && !stepAssertions.some((a) => a.type === "no_console_errors")) {
+      stepAssertions.push({ type: "no_console_errors", selector: null, value: null });
+    }
 
     // Injected login step: no selector resolution
     if (needsE2ELogin && stepIndex === 0) {
@@ -178,20 +432,89 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
         resolution_status: "RESOLVED",
         assertion: null,
         last_verified_at: now,
+        // CONDITIONAL: runner logs in only when the application's login page signature matches
+        login_mode: e2eAuthMode === "CONDITIONAL" ? "conditional" : "always",
       });
       continue;
     }
 
     const origIndex = needsE2ELogin ? stepIndex - 1 : stepIndex;
     const inferredAction = inferAction(stepText);
-    const key = buildSemanticKey(inferredAction, stepText);
+    const interaction = parseInteractionStep(inferredAction, stepText);
+    const key = buildSemanticKey(inferredAction, interaction.target);
+    const stepFrameContext = frameContext;
+    if (inferredAction === "switch_actor" && interaction.fields.actor) {
+      actorFrameContexts.set(actor, frameContext);
+      actor = interaction.fields.actor.toLowerCase();
+      frameContext = actorFrameContexts.get(actor) ?? "";
+    } else {
+      frameContext = nextFrameContext(frameContext, inferredAction, interaction.fields);
+    }
+    if (stepFrameContext) interaction.fields.frame_context = stepFrameContext;
+    if (inferredAction === "drag") {
+      const dropText = parseDragTargets(stepText)?.target;
+      if (dropText) {
+        interaction.fields.drop_target = await resolveDropTarget(
+          projectId,
+          appId,
+          dropText,
+          stepFrameContext,
+          executionSelectorCache
+        );
+      }
+    }
+    // Re-read on every run so editing the file name in step text takes effect without re-resolving the selector
+    const uploadFile = inferredAction === "upload" ? extractUploadFileName(stepText) : null;
+    // Assertions read from step text (visual threshold / ignore regions, accessibility impact) are refreshed the same way.
+    // Accessibility can ride on any action except fill/select, whose assertion.value carries the input value.
+    const textAssertion =
+      inferredAction === "assert_visual_match"
+        ? mapVisualMatchAssertion(stepText)
+        : mentionsAccessibility(stepText) && inferredAction !== "fill" && inferredAction !== "select"
+          ? mapAccessibilityAssertion(stepText)
+          : null;
+
+    // Page-level key presses and scrolls need no selector: rebuilt from text on every run
+    if (interaction.pageLevel) {
+      stepsByIndex.set(stepIndex, {
+        stepIndex,
+        semantic_key: key,
+        action: inferredAction,
+        resolved_selector: null,
+        resolution_status: "RESOLVED",
+        assertion: textAssertion,
+        assertions: stepAssertions.length ? stepAssertions : null,
+        last_verified_at: now,
+        ...interaction.fields,
+        ...(timeoutMs && { timeout_ms: timeoutMs }),
+      });
+      continue;
+    }
     let entry = stepsByIndex.get(stepIndex);
 
-    // Only step 0 may have action "login". Re-resolve if a previous run left action "login" at another index.
+    // Only step 0 may have action "login". Re-resolve if a previous run left action "login" at another index,
+    // or "upload" on a step that no longer names a fixture file.
+    // A selector resolved in another page / frame (a switch step was added or removed before it) is re-resolved too.
     if (entry?.resolution_status === "RESOLVED") {
-      if (needsE2ELogin && stepIndex !== 0 && entry.action === "login") {
+      if (
+        (needsE2ELogin && stepIndex !== 0 && entry.action === "login") ||
+        (entry.action === "upload" && !uploadFile) ||
+        (entry.frame_context ?? "") !== stepFrameContext
+      ) {
         entry = undefined;
       } else {
+        // Always rewritten: assertions from the previous run (incl. expectedResult ones on the last step) must not pile up,
+        // and a stored assertion derived from an older expectedResult must not outlive an edit to it
+        // (fill / select keep theirs: it carries the input value, not a check)
+        const carriesInputValue = entry.action === "fill" || entry.action === "select";
+        stepsByIndex.set(stepIndex, {
+          ...entry,
+          ...(entry.action === "upload" && { upload_file: uploadFile }),
+          ...interaction.fields,
+          assertion: carriesInputValue ? entry.assertion : textAssertion ?? null,
+          assertions: stepAssertions.length ? stepAssertions : null,
+          timeout_ms: timeoutMs,
+        });
         continue;
       }
     }
@@ -199,7 +522,7 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
     let resolved_selector: string | null = null;
     let resolution_status: "RESOLVED" | "UNRESOLVED" | "BROKEN" | "PENDING_RUNTIME" = "PENDING_RUNTIME";
     let resolved_from: "strict" | "knowledge" | "ai" | "ai_runtime" | undefined;
-    const cacheKey = `${appId}:${key}`;
+    const cacheKey = `${appId}:${stepFrameContext}:${key}`;
 
     // Step A: Check execution cache (same semantic_key in multiple steps)
     const cached = executionSelectorCache.get(cacheKey);
@@ -219,7 +542,7 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
 
     // Step B: Cache miss — DB lookup only. No AI. Unknown → PENDING_RUNTIME (resolved at runtime).
     if (!cached && appId && projectId) {
-      const knowledge = await findSelector(projectId, appId, key);
+      const knowledge = await findSelector(projectId, appId, key, stepFrameContext);
       if (knowledge?.selector) {
         if (inferredAction === "fill" && isBodySelectorForFill(knowledge.selector, "fill")) {
           if (process.env.NODE_ENV !== "test") {
@@ -234,7 +557,7 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
           resolution_status = "RESOLVED";
           resolved_from = "knowledge";
           executionSelectorCache.set(cacheKey, { status: "FOUND_IN_DB", selector: knowledge.selector });
-          await incrementUsageCount(projectId, appId, key);
+          await incrementUsageCount(projectId, appId, key, stepFrameContext);
         }
       }
       // If not found in DB: leave resolved_selector=null, resolution_status=PENDING_RUNTIME,
@@ -251,9 +574,13 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
       action,
       resolved_selector: finalSelector,
       resolution_status,
-      assertion: entry?.assertion ?? null,
+      assertion: textAssertion ?? entry?.assertion ?? null,
       last_verified_at: resolution_status === "RESOLVED" ? now : null,
       resolved_from,
+      ...(uploadFile && { upload_file: uploadFile }),
+      ...interaction.fields,
+      ...(stepAssertions.length && { assertions: stepAssertions }),
+      ...(timeoutMs && { timeout_ms: timeoutMs }),
     };
     stepsByIndex.set(stepIndex, entry);
   }
@@ -266,14 +593,22 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
   const lastIndex = steps.length - 1;
   if (lastIndex >= 0 && testCase.expectedResult) {
     const lastStep = steps[lastIndex];
-    const assertion = mapExpectedResultToAssertion(
-      testCase.expectedResult,
-      lastStep.resolved_selector
-    );
-    steps[lastIndex] = { ...lastStep, assertion };
+    if (testType === "API") {
+      // API: keep the step's own assertion when expectedResult has nothing checkable on the response
+      const assertion = mapExpectedResultToApiAssertion(testCase.expectedResult) ?? lastStep.assertion;
+      steps[lastIndex] = { ...lastStep, assertion };
+    } else {
+      // E2E: one assertion per expectedResult clause, after the step's own assertion and step-text checks
+      const expected = mapExpectedResultToAssertions(testCase.expectedResult, lastStep.resolved_selector);
+      steps[lastIndex] = { ...lastStep, assertions: [...(lastStep.assertions ?? []), ...expected] };
+    }
   }
 
-  // Step 3b: Placeholder interpolation ({{alias.field}}) when resolvedData is present
+  // Step 3b: Placeholder interpolation ({{alias.field}}) when resolvedData is present.
+  // Names captured at runtime (step.extract, copy / extract step.variable) are deferred to the runner.
+  const runtimeVariableNames = new Set(
+    steps.flatMap((s) => [...(s.extract ?? []).map((e) => e.variable), ...(s.variable ? [s.variable] : [])])
+  );
   if (Object.keys(resolvedData).length > 0) {
     steps = steps.map((step, i) => {
       const stepText = effectiveTestSteps[i] ?? "";
@@ -282,7 +617,7 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
         if (step.resolved_selector && step.resolved_selector.includes("{{")) {
           updated = {
             ...updated,
-            resolved_selector: interpolatePlaceholders(step.resolved_selector, resolvedData),
+            resolved_selector: interpolatePlaceholders(step.resolved_selector, resolvedData, runtimeVariableNames),
           };
         }
         if (step.assertion?.value != null && String(step.assertion.value).includes("{{")) {
@@ -291,15 +626,61 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
             assertion: step.assertion
               ? {
                   ...step.assertion,
-                  value: interpolatePlaceholders(String(step.assertion.value), resolvedData),
+                  value: interpolatePlaceholders(String(step.assertion.value), resolvedData, runtimeVariableNames),
                 }
               : step.assertion,
           };
         }
+        if (step.assertions?.some((a) => JSON.stringify(a.value ?? null).includes("{{"))) {
+          updated = {
+            ...updated,
+            assertions: step.assertions.map((a) => ({
+              ...a,
+              value: mapStringValues(a.value, (s) =>
+                s.includes("{{") ? interpolatePlaceholders(s, resolvedData, runtimeVariableNames) : s
+              ),
+            })),
+          };
+        }
+        if (step.request) {
+          const body = step.request.body;
+          const bodyText = body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body);
+          const headers = step.request.headers;
+          const headersHavePlaceholders = Object.values(headers ?? {}).some((v) => v.includes("{{"));
+          if (step.request.path.includes("{{") || bodyText?.includes("{{") || headersHavePlaceholders) {
+            const interpolatedBody =
+              bodyText !== undefined ? interpolatePlaceholders(bodyText, resolvedData, runtimeVariableNames) : undefined;
+            let parsedBody: unknown = interpolatedBody;
+            if (interpolatedBody !== undefined) {
+              try {
+                parsedBody = JSON.parse(interpolatedBody);
+              } catch {
+                parsedBody = interpolatedBody;
+              }
+            }
+            updated = {
+              ...updated,
+              request: {
+                ...step.request,
+                path: interpolatePlaceholders(step.request.path, resolvedData, runtimeVariableNames),
+                ...(headers &&
+                  headersHavePlaceholders && {
+                    headers: Object.fromEntries(
+                      Object.entries(headers).map(([k, v]) => [
+                        k,
+                        interpolatePlaceholders(v, resolvedData, runtimeVariableNames),
+                      ])
+                    ),
+                  }),
+                ...(parsedBody !== undefined && { body: parsedBody }),
+              },
+            };
+          }
+        }
         if (step.action === "fill") {
           const match = stepText.match(/\{\{([^}]+)\}\}/);
           if (match) {
-            const val = interpolatePlaceholders(match[0], resolvedData);
+            const val = interpolatePlaceholders(match[0], resolvedData, runtimeVariableNames);
             updated = {
               ...updated,
               assertion: {
@@ -320,6 +701,7 @@ export async function runPreExecution(input: PreExecutionInput): Promise<PreExec
 
   const agentExecutionPayload: AgentExecution & { data_snapshot?: Record<string, unknown> } = {
     steps,
+    ...(testType === "E2E" && testCase.network_mocks?.length && { network_mocks: testCase.network_mocks }),
     ...(Object.keys(resolvedData).length > 0 && { data_snapshot: resolvedData }),
   };
 
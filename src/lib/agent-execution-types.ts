@@ -6,13 +6,101 @@
 export type ResolutionStatus = "RESOLVED" | "UNRESOLVED" | "BROKEN" | "PENDING_RUNTIME";
 
 export interface AgentExecutionAssertion {
+  /**
+   * element_visible | element_not_visible | element_not_exists | element_state (value: checked | unchecked | disabled | enabled) |
+   * element_count (value: ElementCountAssertion) | attribute_value (value: AttributeAssertion) | input_value (value: expected string) |
+   * text_contains | text_not_contains | text_matches (value: "/pattern/flags") | toast_text (value: text, null = any toast) |
+   * table_row (value: TableRowAssertion) | url_contains | text_masked (value: raw text that must not be shown) |
+   * status_code (E2E: last main-frame document response) |
+   * no_console_errors (fails when any console error or uncaught page error was captured so far) |
+   * visual_match (value: VisualMatchOptions; selector = element to capture, null = viewport) |
+   * accessibility (value: AccessibilityAssertionOptions; axe-core audit of the current page) |
+   * fill_value (not checked: input value for fill steps).
+   * selector null = the step's own element for element checks, the whole page for text checks.
+   */
   type: string;
   selector: string | null;
   value: unknown;
 }
 
+/** element_count value: number of elements matching the selector compared with count. */
+export interface ElementCountAssertion {
+  operator: "eq" | "gte" | "lte" | "gt" | "lt";
+  count: number;
+}
+
+/** attribute_value value. */
+export interface AttributeAssertion {
+  name: string;
+  value: string;
+  match?: "equals" | "contains";
+}
+
+/** table_row value: some row (tr / role=row) inside the selector (null = page) contains every cell text. */
+export interface TableRowAssertion {
+  cells: string[];
+}
+
+/** Area excluded from visual diffing: an element (masked in the screenshot) or a pixel rectangle. */
+export type VisualIgnoreRegion =
+  | { selector: string }
+  | { x: number; y: number; width: number; height: number };
+
+/** accessibility options; unset impact falls back to the accessibility_fail_impact config key. */
+export interface AccessibilityAssertionOptions {
+  /** Fail on violations at or above this impact: minor | moderate | serious | critical. */
+  impact?: string;
+  /** axe-core rule tags to run (e.g. ["wcag2a", "wcag2aa"]); all rules when empty. */
+  tags?: string[];
+  /** CSS selector limiting the audit to part of the page. */
+  include?: string;
+}
+
+/** visual_match options; unset fields fall back to the visual_* config keys. */
+export interface VisualMatchOptions {
+  /** Max share of differing pixels, in percent (e.g. 0.5 = 0.5%). */
+  threshold?: number;
+  ignore_regions?: VisualIgnoreRegion[];
+}
+
+/** HTTP request spec for API steps (action "api_request"). Path may be relative to Environment.baseUrl. */
+export interface AgentExecutionApiRequest {
+  method: string;
+  path: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/** Value captured from a response into runtime variables. path: JSONPath-lite ("$.data.items[0].id") or "header:<name>". */
+export interface AgentExecutionExtraction {
+  variable: string;
+  path: string;
+}
+
 export type ResolvedFrom = "strict" | "knowledge" | "ai" | "ai_runtime";
 
+/** Page-level scroll for "scroll" steps without an element target. */
+export type AgentExecutionScroll = "top" | "bottom" | "up" | "down";
+
+/** "switch_page" target: "new" = next tab / popup opened by the app; number = 1-based tab position (1 = main page). */
+export type AgentExecutionPageTarget = "new" | number;
+
+/** "download" steps: checks on the downloaded file; every field is optional. */
+export interface AgentExecutionDownloadCheck {
+  /** Fragment the suggested file name must contain (case-insensitive). */
+  name?: string;
+  /** Expected type as an extension ("pdf", "csv"); checked against the file name and, where known, the file's magic bytes. */
+  type?: string;
+  min_bytes?: number;
+  max_bytes?: number;
+}
+
+/** Drop target of a "drag" step; resolved through selector knowledge under its own semantic key ("drop_done_column"). */
+export interface AgentExecutionDropTarget {
+  semantic_key: string;
+  resolved_selector: string | null;
+}
+
 export interface AgentExecutionStep {
   stepIndex: number;
   semantic_key: string;
@@ -20,11 +108,70 @@ export interface AgentExecutionStep {
   resolved_selector: string | null;
   resolution_status: ResolutionStatus;
   assertion: AgentExecutionAssertion | null;
+  /** Further checks run after the step and its assertion ("... and verify ..." in step text; expectedResult clauses on the last step). */
+  assertions?: AgentExecutionAssertion[] | null;
   last_verified_at: string | null; // ISO datetime
   /** How selector was resolved; used by worker for auto-save when "ai" and validation passes */
   resolved_from?: ResolvedFrom;
+  /** API test cases only: request parsed from step text; executed by the API runner */
+  request?: AgentExecutionApiRequest | null;
+  /** API test cases only: values saved from this step's response for later steps (<VAR> or {{VAR}}) */
+  extract?: AgentExecutionExtraction[] | null;
+  /** E2E "upload" steps only: project fixture file name to set on the file input (e.g. "invoice.pdf") */
+  upload_file?: string | null;
+  /** Injected "login" step only: always = log in unconditionally (ALWAYS_AUTH); conditional = only when the login page is shown (CONDITIONAL). */
+  login_mode?: "always" | "conditional";
+  /** "press_key" steps only: Playwright key combo ("Enter", "Control+a"); sent to resolved_selector, or the focused element when null. */
+  key?: string | null;
+  /** "scroll" steps only: page-level scroll; unset = scroll resolved_selector into view. */
+  scroll_to?: AgentExecutionScroll | null;
+  /** "drag" steps only: where resolved_selector is dropped. */
+  drop_target?: AgentExecutionDropTarget | null;
+  /** Per-step limit from step text ("timeout 90s"); null/undefined = config step_timeout. */
+  timeout_ms?: number | null;
+  /** "switch_frame" steps only: iframe name, id, title or src fragment; searched inside the current frame. */
+  frame?: string | null;
+  /** "switch_page" steps only. */
+  page_target?: AgentExecutionPageTarget | null;
+  /** "switch_main" steps only: close the current tab / popup before returning to the main page. */
+  close_page?: boolean;
+  /** "switch_main" steps only: leave iframes but stay on the current tab / popup ("Exit the iframe"). */
+  frame_only?: boolean;
+  /** Page / frame the step runs in ("" or unset = main page; "popup > frame 3ds"); part of the selector knowledge key. */
+  frame_context?: string | null;
+  /** "switch_actor" steps only: credential role (credentialsEnc entry) that performs the following steps. */
+  actor?: string | null;
+  /** "accept_dialog" steps only: text typed into a prompt dialog. */
+  prompt_text?: string | null;
+  /** "accept_dialog" / "dismiss_dialog" steps only: text the dialog message must contain. */
+  dialog_message?: string | null;
+  /** "download" steps only: checks on the downloaded file; null = any file. */
+  download?: AgentExecutionDownloadCheck | null;
+  /** "copy" / "extract" steps only: runtime variable that receives the value (<VAR> / {{VAR}} in later steps). */
+  variable?: string | null;
+  /** "extract" steps only: attribute to read instead of the element's text / input value. */
+  extract_attribute?: string | null;
+  /** "extract" steps only: regex ("/#(\d+)/" or bare); the first capture group, or the whole match, is kept. */
+  extract_pattern?: string | null;
+}
+
+/**
+ * E2E route-interception rule from TestCase.networkMocks, applied with context.route before the first step.
+ * A rule with status or body fulfills the request with a stub; a rule with only delay_ms delays the real request.
+ */
+export interface NetworkMockRule {
+  /** Playwright URL glob ("**" matches across path segments) or a regex written as "/pattern/flags". */
+  url: string;
+  /** HTTP method to match; null or unset matches any method. */
+  method?: string | null;
+  status?: number | null;
+  body?: string | null;
+  content_type?: string | null;
+  delay_ms?: number | null;
 }
 
 export interface AgentExecution {
   steps: AgentExecutionStep[];
+  /** E2E only: test case network mocks at the time of the run. */
+  network_mocks?: NetworkMockRule[];
 }
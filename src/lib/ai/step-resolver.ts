@@ -4,7 +4,7 @@
  * Includes action-aware SYSTEM_PROMPT, deterministic validation, and fill fallback.
  */
 
-import type { Locator, Page } from "playwright";
+import type { Frame, Locator, Page } from "playwright";
 import OpenAI from "openai";
 import { getConfig } from "@/lib/config";
 import { OPENAI_DEFAULT_MODEL } from "@/lib/config/openai-models";
@@ -22,8 +22,10 @@ export interface ResolveStepInput {
   projectId?: string;
   applicationId?: string;
   semanticKey?: string;
-  /** When present, build interactive snapshot and inject into AI prompt */
-  page?: Page;
+  /** Page / frame context of the step for knowledge lookup ("" = main page) */
+  frameContext?: string;
+  /** When present, build interactive snapshot and inject into AI prompt (a Frame when the step runs inside an iframe) */
+  page?: Page | Frame;
   /** When true, skip knowledge lookup (caller already checked) to avoid duplicate DB query */
   skipKnowledgeLookup?: boolean;
 }
@@ -85,6 +87,41 @@ For action = "navigate":
 - Do NOT restrict to role=button only.
 - Text-based or CSS-based selector is allowed.
 
+For action = "double_click":
+- Same as "click", but the element may also be a table row, cell, list item or card.
+
+For action = "check" or "uncheck":
+- The element MUST be a checkbox, radio or switch: input[type="checkbox" | "radio"], role="checkbox" | "radio" | "switch".
+- Prefer role-based selectors with the accessible name (label text).
+- NEVER return the surrounding form, row or a button.
+
+For action = "drag":
+- The element being dragged: card, row, list item, file or drag handle.
+- Prefer elements with draggable="true" or a drag handle inside the named item.
+- Any role is allowed; text-based selectors are allowed.
+
+For action = "drop":
+- The container that receives the dragged element: column, list, lane, dropzone or panel.
+- Do NOT restrict to interactive roles; text-based or CSS-based selector is allowed.
+
+For action = "scroll":
+- The element to scroll into view (section, footer, heading, row, button).
+- Any element is allowed.
+
+For action = "press_key":
+- The element that receives the key: input, textarea, contenteditable or a focusable widget (grid, listbox, menu).
+
+For action = "download":
+- The link or button that starts the download (a[href], a[download], button, menu item).
+
+For action = "copy":
+- Prefer the "Copy" button next to the named value; otherwise the element (input, code, span) that shows the value.
+- Text-based or CSS-based selector is allowed.
+
+For action = "extract":
+- The element that shows the value to read (order number, generated username, status cell, link); not its label.
+- Any element is allowed; text-based or CSS-based selector is allowed.
+
 Avoid ambiguous matches.
 If multiple elements match, choose the most interactive and specific one.
 
@@ -101,7 +138,9 @@ When Interactive Snapshot is provided:
 - If no valid match exists in the snapshot: return {"selector": null, "locatorStrategy": "css", "noMatch": true}.
 - Prefer exact visible text equality. Do NOT extend or shorten names.
 - If target says "Login", do NOT select "Login as Operator".
-- If no exact match exists, choose closest exact equality from the snapshot only.`;
+- If no exact match exists, choose closest exact equality from the snapshot only.
+- Exception: for "drop", "scroll", "copy" and "extract" the target may be a non-interactive element (column, section, footer, code)
+  that is not in the snapshot; then use Page context and return a text-based or CSS-based selector.`;
 
 /** Max interactive elements in snapshot to limit token usage */
 const MAX_SNAPSHOT_ELEMENTS = 80;
@@ -122,7 +161,7 @@ export interface InteractiveSnapshotElement {
  * Only: input, textarea, button, a, select, role attribute, contenteditable=true.
  * Excludes: hidden, disabled, non-visible.
  */
-export async function buildInteractiveSnapshot(page: Page): Promise<InteractiveSnapshotElement[]> {
+export async function buildInteractiveSnapshot(page: Page | Frame): Promise<InteractiveSnapshotElement[]> {
   const elements = await page.evaluate((maxElements: number) => {
     const INTERACTIVE_SELECTORS = [
       "input:not([type=hidden])",
@@ -327,7 +366,8 @@ export async function resolveStep(input: ResolveStepInput): Promise<ResolveStepO
     const knowledge = await findSelector(
       input.projectId,
       input.applicationId,
-      input.semanticKey
+      input.semanticKey,
+      input.frameContext
     );
     if (knowledge?.selector) {
       if (input.action === "fill" && isBodySelectorForFill(knowledge.selector, "fill")) {
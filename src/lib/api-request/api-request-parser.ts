@@ -0,0 +1,84 @@
+/**
+ * Rule-based parsing of API test step text into an HTTP request spec.
+ * No AI. Used by Pre-Execution for testType API; the API runner executes the result.
+ *
+ * Recognised forms (case-insensitive method):
+ * - "GET /api/orders"
+ * - "Send POST request to /api/orders with body {"sku": "A-1"}"
+ * - "Call PATCH https://host/api/orders/<ORDER_ID> with body {...}"
+ * - "... and save $.data.id as ORDER_ID" (extraction into runtime variables; see parseExtractionsFromStepText)
+ */
+
+import type { AgentExecutionApiRequest, AgentExecutionExtraction } from "@/lib/agent-execution-types";
+
+export const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+const METHOD_PATH_REGEX = new RegExp(
+  `\\b(${HTTP_METHODS.join("|")})\\b\\s+(?:request\\s+)?(?:to\\s+|on\\s+|at\\s+)?(https?:\\/\\/[^\\s"']+|\\/[^\\s"']*)`,
+  "i"
+);
+
+/** "save|store|extract|capture <path> as|into <VAR>", where path is "$..." or "header:<name>" and VAR may be wrapped in <> or {{}}. */
+const EXTRACTION_REGEX =
+  /\b(?:save|store|extract|capture)\s+(\$[^\s]*|header:[\w-]+)\s+(?:as|into|to)\s+(?:<|\{\{)?\s*([A-Za-z][\w.]*)\s*(?:>|\}\})?/gi;
+
+/** Parse all extraction clauses from step text. */
+export function parseExtractionsFromStepText(stepText: string): AgentExecutionExtraction[] {
+  if (!stepText?.trim()) return [];
+  const out: AgentExecutionExtraction[] = [];
+  for (const match of Array.from(stepText.matchAll(EXTRACTION_REGEX))) {
+    out.push({ path: match[1].replace(/[.,;:]+$/, ""), variable: match[2].replace(/\.+$/, "") });
+  }
+  return out;
+}
+
+/** Extract the first {...} or [...] block from step text as a JSON body. Returns undefined when absent or invalid. */
+function extractJsonBody(stepText: string): unknown {
+  const objStart = stepText.indexOf("{");
+  const arrStart = stepText.indexOf("[");
+  const starts = [objStart, arrStart].filter((i) => i >= 0);
+  if (starts.length === 0) return undefined;
+  const start = Math.min(...starts);
+  const closing = stepText[start] === "{" ? "}" : "]";
+  const end = stepText.lastIndexOf(closing);
+  if (end <= start) return undefined;
+  const candidate = stepText.slice(start, end + 1);
+  // {{alias.field}} placeholders are interpolated later; keep body as raw string so JSON.parse does not reject it
+  if (candidate.includes("{{")) return candidate;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse "METHOD path [with body {...}]" from step text.
+ * Returns null when no HTTP method + path/URL is present.
+ */
+export function parseApiRequestFromStepText(stepText: string): AgentExecutionApiRequest | null {
+  if (!stepText?.trim()) return null;
+  // Extraction paths like $.items[0].id must not be mistaken for a request body
+  const text = stepText.replace(EXTRACTION_REGEX, "");
+  const match = text.match(METHOD_PATH_REGEX);
+  if (!match) return null;
+  const method = match[1].toUpperCase() as HttpMethod;
+  const path = match[2].replace(/[.,;:)]+$/, "");
+  // Path match stops at whitespace; a body placed directly after the path must not be part of it
+  const afterPath = text.slice((match.index ?? 0) + match[0].length);
+  const body = method === "GET" || method === "HEAD" ? undefined : extractJsonBody(afterPath);
+  return {
+    method,
+    path,
+    headers: {},
+    ...(body !== undefined && { body }),
+  };
+}
+
+/** Extract an expected HTTP status code from text like "status 201", "status code is 404", "HTTP 400". */
+export function extractStatusCode(text: string): number | null {
+  const match = text.match(/\b(?:status(?:\s+code)?|http)\s*(?:is\s+|of\s+|=\s*)?([1-5]\d{2})\b/i);
+  return match ? Number.parseInt(match[1], 10) : null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Minimal JSONPath subset for response extraction: $, .key, [index], ['key'] / ["key"].
+ * No filters, wildcards or recursive descent.
+ */
+
+/** Split "$.data.items[0]['display-name']" into ["data", "items", 0, "display-name"]. Returns null on syntax error. */
+function tokenize(path: string): Array<string | number> | null {
+  let rest = path.trim();
+  if (rest.startsWith("$")) rest = rest.slice(1);
+  const tokens: Array<string | number> = [];
+  const re = /^(?:\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\s*["']([^"']*)["']\s*\])/;
+  while (rest.length > 0) {
+    const m = rest.match(re);
+    if (!m) {
+      // Allow a leading bare key ("data.id") for convenience
+      const bare = tokens.length === 0 ? rest.match(/^([A-Za-z_$][\w$-]*)/) : null;
+      if (!bare) return null;
+      tokens.push(bare[1]);
+      rest = rest.slice(bare[0].length);
+      continue;
+    }
+    if (m[1] !== undefined) tokens.push(m[1]);
+    else if (m[2] !== undefined) tokens.push(Number.parseInt(m[2], 10));
+    else tokens.push(m[3]);
+    rest = rest.slice(m[0].length);
+  }
+  return tokens;
+}
+
+/** Evaluate a JSONPath-lite expression against a parsed JSON value. Returns undefined when the path does not resolve. */
+export function evaluateJsonPath(value: unknown, path: string): unknown {
+  const tokens = tokenize(path);
+  if (tokens === null) return undefined;
+  let current: unknown = value;
+  for (const token of tokens) {
+    if (current == null || typeof current !== "object") return undefined;
+    if (typeof token === "number") {
+      if (!Array.isArray(current)) return undefined;
+      current = current[token];
+    } else {
+      current = (current as Record<string, unknown>)[token];
+    }
+  }
+  return current;
+}
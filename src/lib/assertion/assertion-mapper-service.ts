@@ -1,38 +1,289 @@
 /**
- * Rule-based mapping from TestCase.expectedResult (text) to executable assertion.
- * No AI. Attach to last step.
+ * Rule-based mapping from TestCase.expectedResult (text) to executable assertions.
+ * No AI. Expected-result clauses attach to the last step; "... and verify ..." clauses in step text attach to their step.
  */
 
-import type { AgentExecutionAssertion } from "@/lib/agent-execution-types";
+import type {
+  AccessibilityAssertionOptions,
+  AgentExecutionAssertion,
+  AttributeAssertion,
+  ElementCountAssertion,
+  TableRowAssertion,
+  VisualMatchOptions,
+} from "@/lib/agent-execution-types";
+import { extractStatusCode } from "@/lib/api-request/api-request-parser";
 
+const NO_CONSOLE_ERRORS_REGEX = /\b(?:no|without(?: any)?)\s+(?:js\s+|javascript\s+|browser\s+)?console\s+errors?\b/i;
+
+/** True for "no console errors" / "without any JS console errors" style phrases. */
+export function mentionsNoConsoleErrors(text: string): boolean {
+  return NO_CONSOLE_ERRORS_REGEX.test(text);
+}
+
+/** Step text with the "no console errors" phrase (and a "with" / "and verify" lead-in) removed. */
+export function stripNoConsoleErrors(text: string): string {
+  const lead = /[\s,;]*(?:\b(?:and|then|with)\s+)?(?:\b(?:verify|expect|ensure|assert|confirm|check)(?:s)?\s+(?:that\s+)?)?(?:there\s+are\s+)?/i;
+  return text.replace(new RegExp(lead.source + NO_CONSOLE_ERRORS_REGEX.source, "i"), "").trim();
+}
+
+const VISUAL_MATCH_REGEX =
+  /\b(?:visual(?:ly)?\s+(?:match(?:es)?|regression|baseline|unchanged)|match(?:es)?\s+(?:the\s+)?(?:visual\s+)?baseline|screenshot\s+match(?:es)?)\b/i;
+
+/** True for "matches the visual baseline" / "visually unchanged" / "screenshot matches" style phrases. */
+export function mentionsVisualMatch(text: string): boolean {
+  return VISUAL_MATCH_REGEX.test(text);
+}
+
+/**
+ * visual_match assertion from text. "within 0.5%" sets the threshold; quoted selectors after "ignore/ignoring"
+ * become ignore regions (e.g. 'Page matches the visual baseline ignoring ".clock", "#ad-banner"').
+ */
+export function mapVisualMatchAssertion(text: string): AgentExecutionAssertion {
+  const options: VisualMatchOptions = {};
+  const threshold = text.match(/\bwithin\s+(\d+(?:\.\d+)?)\s*%/i);
+  if (threshold) options.threshold = Number.parseFloat(threshold[1]);
+  const ignoreClause = text.match(/\bignor(?:e|ing)\b(.*)$/i)?.[1] ?? "";
+  const selectors = Array.from(ignoreClause.matchAll(/["'`]([^"'`]+)["'`]/g)).map((m) => m[1].trim()).filter(Boolean);
+  if (selectors.length) options.ignore_regions = selectors.map((selector) => ({ selector }));
+  return { type: "visual_match", selector: null, value: options };
+}
+
+const ACCESSIBILITY_REGEX = /\b(?:accessibility|a11y|wcag)\b/i;
+
+/** True when text asks for an accessibility / WCAG check. */
+export function mentionsAccessibility(text: string): boolean {
+  return ACCESSIBILITY_REGEX.test(text);
+}
+
+/** axe-core tags for a WCAG version + level, e.g. 2.1 AA → wcag2a, wcag2aa, wcag21a, wcag21aa. */
+function wcagTags(version: string, level: string): string[] {
+  const minor = Number.parseInt(version.split(".")[1] ?? "0", 10) || 0;
+  const levels = ["a", "aa", "aaa"].slice(0, level.length);
+  const tags: string[] = [];
+  for (let v = 0; v <= minor; v++) {
+    for (const l of levels) tags.push(`wcag2${v === 0 ? "" : v}${l}`);
+  }
+  return tags;
+}
+
+/**
+ * accessibility assertion from text. "critical|serious|moderate|minor" sets the fail impact;
+ * "WCAG 2.1 AA" limits rules to the matching axe-core tags.
+ */
+export function mapAccessibilityAssertion(text: string): AgentExecutionAssertion {
+  const options: AccessibilityAssertionOptions = {};
+  const impact = text.match(/\b(critical|serious|moderate|minor)\b/i);
+  if (impact) options.impact = impact[1].toLowerCase();
+  const wcag = text.match(/\bwcag\s*(2(?:\.[0-2])?)\s*(aaa|aa|a)\b/i);
+  if (wcag) options.tags = wcagTags(wcag[1], wcag[2].toLowerCase());
+  return { type: "accessibility", selector: null, value: options };
+}
+
+const TOAST_REGEX = /\b(?:toast|notification|snackbar|flash message|success message|error message|alert)\b/i;
+const REGEX_LITERAL = /\/((?:\\\/|[^/])+)\/([gimsuy]*)/;
+const ATTRIBUTE_REGEX =
+  /\battribute\s+["'`]?([\w:.-]+)["'`]?\s+(is|equals|=|should be|contains|includes)\s+["'`]([^"'`]*)["'`]|\b([\w:.-]+)\s+attribute\s+(is|equals|=|should be|contains|includes)\s+["'`]([^"'`]*)["'`]/i;
+const INPUT_VALUE_REGEX =
+  /\b(?:has|with)\s+(?:the\s+)?value\s+["'`]([^"'`]*)["'`]|\bvalue\s+(?:is|equals|=|should be)\s+["'`]([^"'`]*)["'`]/i;
+const COUNT_REGEX =
+  /\b(exactly|at least|at most|more than|fewer than|less than)?\s*(\d+|no)\s+(rows?|records?|entries|entry|items?|results?|cards?|elements?|options?)\b/i;
+const NOT_CONTAINS_REGEX =
+  /\b(?:does not|doesn't|do not|don't|should not|must not|no longer|never)\s+(?:contain|show|display|include|mention)s?\b/i;
+const STATE_REGEX = /\bis\s+(not\s+checked|unchecked|checked|disabled|enabled)\b/i;
+const SELECTOR_PREFIX_REGEX = /^(?:css:|role:|text:|xpath:|[.#[])/i;
+
+const COUNT_OPERATORS: Record<string, ElementCountAssertion["operator"]> = {
+  exactly: "eq",
+  "at least": "gte",
+  "at most": "lte",
+  "more than": "gt",
+  "fewer than": "lt",
+  "less than": "lt",
+};
+
+/** All quoted fragments, in order ('row with "INV-1" and "Paid"' → ["INV-1", "Paid"]). */
+function extractQuotedValues(text: string): string[] {
+  return Array.from(text.matchAll(/["'`]([^"'`]+)["'`]/g)).map((m) => m[1]);
+}
+
+/** Stored selector for a quoted CSS-ish fragment ('".result-card"' → "css:.result-card"); null for plain text. */
+function quotedSelector(quoted: string | undefined): string | null {
+  if (!quoted || !SELECTOR_PREFIX_REGEX.test(quoted)) return null;
+  return /^(?:css|role|text|xpath):/i.test(quoted) ? quoted : `css:${quoted}`;
+}
+
+/** RegExp from a text_matches value ("/^INV-\\d+$/i" or a bare pattern). Null when the pattern does not compile. */
+export function toAssertionRegExp(value: unknown): RegExp | null {
+  const raw = String(value ?? "");
+  const literal = raw.match(/^\/(.+)\/([gimsuy]*)$/);
+  try {
+    return literal ? new RegExp(literal[1], literal[2].replace("g", "")) : new RegExp(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map one expected-result clause to an executable assertion.
+ * selector null on element checks (visible, count, attribute, input value, state, masked) = the step's own element;
+ * on text checks (contains / not contains / matches) = the whole page.
+ */
 export function mapExpectedResultToAssertion(
   expectedResult: string | null | undefined,
   lastStepResolvedSelector: string | null
 ): AgentExecutionAssertion | null {
   if (!expectedResult || !expectedResult.trim()) return null;
-  const text = expectedResult.trim().toLowerCase();
+  const raw = expectedResult.trim();
+  const text = raw.toLowerCase();
+  // Values keep their original casing
+  const quoted = extractQuotedValues(raw);
 
-  if (text.includes("visible") && !text.includes("not visible")) {
-    return { type: "element_visible", selector: lastStepResolvedSelector, value: null };
+  if (mentionsVisualMatch(text)) {
+    // Original casing: ignore-region selectors are case-sensitive
+    return mapVisualMatchAssertion(raw);
   }
-  if (text.includes("not visible")) {
-    return { type: "element_not_visible", selector: lastStepResolvedSelector, value: null };
+  if (mentionsNoConsoleErrors(text)) {
+    return { type: "no_console_errors", selector: null, value: null };
   }
-  if (text.includes("redirect")) {
-    return { type: "url_contains", selector: null, value: null };
+  if (mentionsAccessibility(text)) {
+    return mapAccessibilityAssertion(text);
   }
-  if (text.includes("status 200")) {
-    return { type: "status_code", selector: null, value: 200 };
+  const regex = /\b(?:match(?:es|ing)?|regex|pattern)\b/.test(text) ? raw.match(REGEX_LITERAL) : null;
+  if (regex) {
+    return { type: "text_matches", selector: null, value: `/${regex[1]}/${regex[2]}` };
   }
-  if (text.includes("masked")) {
-    return { type: "text_masked", selector: lastStepResolvedSelector, value: null };
+  if (TOAST_REGEX.test(text)) {
+    return { type: "toast_text", selector: null, value: quoted[0] ?? null };
   }
-  if (text.includes("not returned") || text.includes("no result")) {
+  if (/\brows?\b/.test(text) && quoted.length > 0 && /\b(?:with|contains?|containing|shows?|showing|includes?|for)\b/.test(text)) {
+    const table: TableRowAssertion = { cells: quoted };
+    return { type: "table_row", selector: null, value: table };
+  }
+  const attribute = raw.match(ATTRIBUTE_REGEX);
+  if (attribute) {
+    const [name, verb, expected] = attribute[1] ? attribute.slice(1, 4) : attribute.slice(4, 7);
+    const value: AttributeAssertion = {
+      name,
+      value: expected,
+      match: /contains|includes/i.test(verb) ? "contains" : "equals",
+    };
+    return { type: "attribute_value", selector: lastStepResolvedSelector, value };
+  }
+  const inputValue = raw.match(INPUT_VALUE_REGEX);
+  if (inputValue) {
+    return { type: "input_value", selector: lastStepResolvedSelector, value: inputValue[1] ?? inputValue[2] };
+  }
+  const count = raw.match(COUNT_REGEX);
+  if (count) {
+    const unit = count[3].toLowerCase();
+    const value: ElementCountAssertion = {
+      operator: COUNT_OPERATORS[(count[1] ?? "").toLowerCase()] ?? "eq",
+      count: count[2].toLowerCase() === "no" ? 0 : Number.parseInt(count[2], 10),
+    };
+    const selector =
+      quotedSelector(quoted[0]) ?? (/^(?:rows?|records?|entr)/.test(unit) ? "css:tbody tr" : lastStepResolvedSelector);
+    return { type: "element_count", selector, value };
+  }
+  if (NOT_CONTAINS_REGEX.test(text) && quoted.length > 0) {
+    return { type: "text_not_contains", selector: null, value: quoted[0] };
+  }
+  if (text.includes("not visible") || /\b(?:is hidden|disappears?|is closed|is dismissed)\b/.test(text)) {
+    return { type: "element_not_visible", selector: lastStepResolvedSelector, value: null };
+  }
+  if (text.includes("not returned") || text.includes("no result") || /\b(?:does not exist|no longer exists?)\b/.test(text)) {
     return { type: "element_not_exists", selector: lastStepResolvedSelector, value: null };
   }
-  if (text.includes("contains")) {
-    return { type: "text_contains", selector: lastStepResolvedSelector, value: null };
+  const state = text.match(STATE_REGEX);
+  if (state) {
+    const value = state[1].replace(/\s+/g, " ") === "not checked" ? "unchecked" : state[1];
+    return { type: "element_state", selector: lastStepResolvedSelector, value };
+  }
+  if (/\b(?:redirect(?:s|ed)?|navigates?|url)\b/.test(text)) {
+    const target = quoted[0] ?? raw.match(/(?:^|\s)(\/[\w\-/.?=&%]*)/)?.[1];
+    if (target) return { type: "url_contains", selector: null, value: target };
+  }
+  const statusCode = extractStatusCode(text);
+  if (statusCode != null) {
+    return { type: "status_code", selector: null, value: statusCode };
+  }
+  if (text.includes("masked")) {
+    return { type: "text_masked", selector: lastStepResolvedSelector, value: quoted[0] ?? null };
+  }
+  if (quoted.length > 0 && /\b(?:contains?|shows?|displays?|displayed|visible|includes?|reads?|says)\b/.test(text)) {
+    return { type: "text_contains", selector: null, value: quoted[0] };
   }
 
   return { type: "element_visible", selector: lastStepResolvedSelector, value: null };
 }
+
+/** Split an expected result into clauses: lines, bullets, ";", sentences and "..., and the toast says ...". */
+export function splitExpectedResult(text: string): string[] {
+  return text
+    .split(/\r?\n|;|(?<=[.!?])\s+(?=[A-Z"'`])|\s+and\s+(?=(?:then\s+)?(?:verify|expect|ensure|check|the|a|an|no)\b)/)
+    .map((clause) => clause.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim())
+    .filter(Boolean);
+}
+
+/** One assertion per expected-result clause (duplicates dropped). */
+export function mapExpectedResultToAssertions(
+  expectedResult: string | null | undefined,
+  lastStepResolvedSelector: string | null
+): AgentExecutionAssertion[] {
+  if (!expectedResult?.trim()) return [];
+  const seen = new Set<string>();
+  const out: AgentExecutionAssertion[] = [];
+  for (const clause of splitExpectedResult(expectedResult)) {
+    const assertion = mapExpectedResultToAssertion(clause, lastStepResolvedSelector);
+    if (!assertion) continue;
+    const key = JSON.stringify(assertion);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(assertion);
+  }
+  return out;
+}
+
+/**
+ * Trailing check in an action step ("Click Save and verify the toast says 'Saved'").
+ * Returns the action text without the clause, plus the clause; check is null when the step has none.
+ */
+export function splitStepAssertionClause(stepText: string): { text: string; check: string | null } {
+  const match = stepText.match(
+    /^(.+?)[\s,]+(?:and|then)\s+(?:verify|expect|ensure|assert|confirm|check)(?:s)?(?:\s+that)?\s+(.+)$/i
+  );
+  if (!match) return { text: stepText, check: null };
+  return { text: match[1].trim(), check: match[2].trim() };
+}
+
+/** Quoted fragment from expected result (e.g. 'contains "order_id"' → order_id). */
+function extractQuotedValue(text: string): string | null {
+  const match = text.match(/["'`]([^"'`]+)["'`]/);
+  return match ? match[1] : null;
+}
+
+/**
+ * API test cases: map expectedResult to a response assertion (status_code, or text_contains / text_not_contains /
+ * text_matches on the body).
+ * UI assertion types are never produced. Returns null when nothing checkable is found.
+ */
+export function mapExpectedResultToApiAssertion(
+  expectedResult: string | null | undefined
+): AgentExecutionAssertion | null {
+  if (!expectedResult || !expectedResult.trim()) return null;
+  const statusCode = extractStatusCode(expectedResult);
+  if (statusCode != null) {
+    return { type: "status_code", selector: null, value: statusCode };
+  }
+  const regex = /\b(?:match(?:es|ing)?|regex|pattern)\b/i.test(expectedResult) ? expectedResult.match(REGEX_LITERAL) : null;
+  if (regex) {
+    return { type: "text_matches", selector: null, value: `/${regex[1]}/${regex[2]}` };
+  }
+  const quoted = extractQuotedValue(expectedResult);
+  if (quoted && NOT_CONTAINS_REGEX.test(expectedResult)) {
+    return { type: "text_not_contains", selector: null, value: quoted };
+  }
+  if (quoted && /contain|include|return/i.test(expectedResult)) {
+    return { type: "text_contains", selector: null, value: quoted };
+  }
+  return null;
+}
@@ -8,6 +8,13 @@ export const CONFIG_KEYS = [
   "max_ai_tokens_per_run",
   "retry_limit",
   "execution_timeout",
+  "step_timeout",
+  "trace_mode",
+  "trace_viewer_url",
+  "visual_diff_threshold",
+  "visual_pixel_threshold",
+  "accessibility_fail_impact",
+  "session_cache_ttl_minutes",
   "global_rate_limit",
   "run_test_mode",
   "openai_api_key",
@@ -60,6 +67,12 @@ export const CONFIG_DEFAULTS: Partial<Record<(typeof CONFIG_KEYS)[number], strin
   max_ai_tokens_per_run: "8000",
   retry_limit: "3",
   execution_timeout: "300000",
+  step_timeout: "60000",
+  trace_mode: "on_failure",
+  visual_diff_threshold: "0.1",
+  visual_pixel_threshold: "0.1",
+  accessibility_fail_impact: "serious",
+  session_cache_ttl_minutes: "30",
   global_rate_limit: "60",
   run_test_mode: "true",
   openai_model: OPENAI_DEFAULT_MODEL,
@@ -76,6 +89,16 @@ export const CONFIG_DEFAULTS: Partial<Record<(typeof CONFIG_KEYS)[number], strin
   slack_event_test_failed: "false",
 };
 
+/** Playwright trace capture per E2E execution: always keep, keep only for failed runs, or do not record. */
+export const TRACE_MODES = ["always", "on_failure", "off"] as const;
+
+export type TraceMode = (typeof TRACE_MODES)[number];
+
+/** axe-core impact levels, least to most severe. Accessibility assertions fail on violations at or above the configured level. */
+export const ACCESSIBILITY_IMPACTS = ["minor", "moderate", "serious", "critical"] as const;
+
+export type AccessibilityImpact = (typeof ACCESSIBILITY_IMPACTS)[number];
+
 /** Slack notification events: config key → display label. Channel is set per project (Slack Channel ID). */
 export const SLACK_EVENT_KEYS = [
   { key: "slack_event_new_ticket", label: "New ticket" },
@@ -13,6 +13,13 @@ const ENV_MAP: Record<string, string> = {
   max_ai_tokens_per_run: "",
   retry_limit: "",
   execution_timeout: "",
+  step_timeout: "",
+  trace_mode: "",
+  trace_viewer_url: "TRACE_VIEWER_URL",
+  visual_diff_threshold: "",
+  visual_pixel_threshold: "",
+  accessibility_fail_impact: "",
+  session_cache_ttl_minutes: "",
   global_rate_limit: "",
   run_test_mode: "",
   openai_api_key: "OPENAI_API_KEY",
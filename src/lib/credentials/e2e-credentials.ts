@@ -0,0 +1,79 @@
+/**
+ * E2E login credentials of an Environment: credentialsEnc holds a JSON list with one entry per role
+ * (maker, checker, admin, ...); legacy environments only have usernameEnc / passwordEnc.
+ */
+
+import { decrypt } from "@/lib/encryption";
+
+/** E2E credential entry in credentialsEnc JSON. totpSecret: base32 key or otpauth:// URI for 2FA logins (see totp.ts). */
+export type E2ECredentialEntry = { role?: string; username: string; password: string; totpSecret?: string };
+
+/** Credentials handed to the worker for one actor. */
+export interface E2ECredentials {
+  /** Role of the chosen credentialsEnc entry; keys the cached login session. */
+  role?: string;
+  username?: string;
+  password?: string;
+  /** Generates the OTP code when the app asks for one after the password. */
+  totpSecret?: string;
+  apiToken?: string;
+}
+
+type EnvWithEncryptedCredentials = {
+  credentialsEnc: string | null;
+  usernameEnc: string | null;
+  passwordEnc: string | null;
+  apiTokenEnc: string | null;
+};
+
+function sameRole(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+function readCredentialList(credentialsEnc: string | null): E2ECredentialEntry[] {
+  if (!credentialsEnc) return [];
+  try {
+    const list = JSON.parse(decrypt(credentialsEnc)) as E2ECredentialEntry[];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve E2E credentials from env: use credentialsEnc (pick by role or first), fallback to legacy usernameEnc/passwordEnc.
+ */
+export function resolveE2ECredentials(env: EnvWithEncryptedCredentials, role?: string | null): E2ECredentials {
+  let chosenRole: string | undefined;
+  let username: string | undefined;
+  let password: string | undefined;
+  let totpSecret: string | undefined;
+  const list = readCredentialList(env.credentialsEnc);
+  if (list.length > 0) {
+    // ไม่ระบุ role → ใช้แถวแรก; ระบุ role → หาให้ตรงหรือ fallback แถวแรก
+    const chosen = role ? list.find((c) => sameRole(c.role, role)) ?? list[0] : list[0];
+    chosenRole = chosen.role?.trim() || undefined;
+    username = chosen.username || undefined;
+    password = chosen.password || undefined;
+    totpSecret = chosen.totpSecret?.trim() || undefined;
+  }
+  if (username === undefined && env.usernameEnc) username = decrypt(env.usernameEnc);
+  if (password === undefined && env.passwordEnc) password = decrypt(env.passwordEnc);
+  const apiToken = env.apiTokenEnc ? decrypt(env.apiTokenEnc) : undefined;
+  return { role: chosenRole, username, password, ...(totpSecret && { totpSecret }), apiToken };
+}
+
+/**
+ * Every credentialsEnc entry that has a role, for multi-actor runs: "switch_actor" steps pick one by role.
+ * No fallback to the first row here; an unknown role must fail the step rather than log in as someone else.
+ */
+export function listE2EActorCredentials(env: Pick<EnvWithEncryptedCredentials, "credentialsEnc">): E2ECredentials[] {
+  return readCredentialList(env.credentialsEnc)
+    .filter((c) => c.role?.trim() && c.username && c.password)
+    .map((c) => ({
+      role: c.role!.trim(),
+      username: c.username,
+      password: c.password,
+      ...(c.totpSecret?.trim() && { totpSecret: c.totpSecret.trim() }),
+    }));
+}
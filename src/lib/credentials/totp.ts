@@ -0,0 +1,66 @@
+/**
+ * RFC 6238 time-based one-time passwords (Google Authenticator style: HMAC-SHA1, 30 s period, 6 digits).
+ * The secret is the base32 key shown next to the enrolment QR code, or the otpauth:// URI itself.
+ */
+
+import * as crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface TotpOptions {
+  /** Defaults: 30 s period, 6 digits, sha1; an otpauth:// URI's own parameters take precedence. */
+  period?: number;
+  digits?: number;
+  algorithm?: "sha1" | "sha256" | "sha512";
+}
+
+function decodeBase32(input: string): Buffer {
+  const clean = input.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error("TOTP secret is not valid base32");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  if (bytes.length === 0) throw new Error("TOTP secret is empty");
+  return Buffer.from(bytes);
+}
+
+/** Secret and options from a bare base32 secret or an otpauth://totp/...?secret=...&digits=...&period=... URI. */
+function parseSecret(secret: string, options: TotpOptions): { key: Buffer; period: number; digits: number; algorithm: string } {
+  let raw = secret.trim();
+  let { period = 30, digits = 6, algorithm = "sha1" } = options;
+  if (/^otpauth:\/\//i.test(raw)) {
+    const params = new URL(raw).searchParams;
+    raw = params.get("secret") ?? "";
+    period = Number(params.get("period")) || period;
+    digits = Number(params.get("digits")) || digits;
+    const alg = params.get("algorithm")?.toLowerCase();
+    if (alg === "sha1" || alg === "sha256" || alg === "sha512") algorithm = alg;
+  }
+  return { key: decodeBase32(raw), period, digits, algorithm };
+}
+
+/** Current code for secret at time (ms since epoch). Throws when the secret cannot be decoded. */
+export function generateTotp(secret: string, time = Date.now(), options: TotpOptions = {}): string {
+  const { key, period, digits, algorithm } = parseSecret(secret, options);
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / period)));
+  const hmac = crypto.createHmac(algorithm, key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/** Milliseconds until the code for secret changes; lets callers wait instead of typing a code about to expire. */
+export function totpRemainingMs(secret: string, time = Date.now(), options: TotpOptions = {}): number {
+  const { period } = parseSecret(secret, options);
+  return period * 1000 - (time % (period * 1000));
+}
@@ -0,0 +1,44 @@
+/**
+ * Named device profiles for E2E runs.
+ * Names are Playwright device descriptor keys (playwright `devices`); the worker resolves them to
+ * viewport, userAgent, touch and deviceScaleFactor. Kept free of Playwright imports so the UI can use it.
+ * Environment.deviceProfile overrides Application.deviceProfile; null on both = default desktop context.
+ */
+
+export const DEVICE_PROFILES = [
+  "Desktop Chrome",
+  "Desktop Chrome HiDPI",
+  "Desktop Edge",
+  "Desktop Firefox",
+  "Desktop Safari",
+  "iPhone SE (3rd gen)",
+  "iPhone 13",
+  "iPhone 13 Mini",
+  "iPhone 14",
+  "iPhone 14 Pro Max",
+  "iPhone 15",
+  "iPhone 15 Pro Max",
+  "iPad Mini",
+  "iPad (gen 7)",
+  "iPad Pro 11",
+  "Pixel 5",
+  "Pixel 7",
+  "Galaxy S9+",
+  "Galaxy S24",
+  "Galaxy A55",
+  "Galaxy Tab S9",
+] as const;
+
+export type DeviceProfileName = (typeof DEVICE_PROFILES)[number];
+
+export function isDeviceProfileName(name: string): name is DeviceProfileName {
+  return (DEVICE_PROFILES as readonly string[]).includes(name);
+}
+
+/** Effective profile for an execution: environment first, then application; null = desktop default. */
+export function resolveDeviceProfile(
+  environmentProfile: string | null | undefined,
+  applicationProfile: string | null | undefined
+): string | null {
+  return environmentProfile?.trim() || applicationProfile?.trim() || null;
+}
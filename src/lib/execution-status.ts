@@ -8,6 +8,7 @@ export type ExecutionStatusDisplay =
   | "FAILED_BUSINESS"
   | "FAILED_UNVERIFIED_DATA"
   | "FAILED_SELECTOR"
+  | "TIMEOUT"
   | "FAILED"
   | "RUNNING"
   | "QUEUED"
@@ -26,7 +27,7 @@ export function getExecutionDisplayStatus(
   return status;
 }
 
-/** Badge variant for execution status (classified or DB). FAILED_UNVERIFIED_DATA and FAILED_SELECTOR use warning. */
+/** Badge variant for execution status (classified or DB). FAILED_UNVERIFIED_DATA, FAILED_SELECTOR and TIMEOUT use warning. */
 export function executionStatusBadgeVariant(displayStatus: string): BadgeVariant {
   switch (displayStatus) {
     case "PASSED":
@@ -37,6 +38,8 @@ export function executionStatusBadgeVariant(displayStatus: string): BadgeVariant
       return "warning";
     case "FAILED_SELECTOR":
       return "warning";
+    case "TIMEOUT":
+      return "warning";
     case "FAILED":
       return "destructive";
     case "RUNNING":
@@ -59,6 +62,8 @@ export function executionStatusLabel(displayStatus: string): string {
       return "Assertion failed on unverified AI-simulated data";
     case "FAILED_SELECTOR":
       return "Selector / element not found";
+    case "TIMEOUT":
+      return "Timed out (execution or step limit)";
     case "FAILED":
       return "Execution error";
     default:
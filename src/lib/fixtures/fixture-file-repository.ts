@@ -0,0 +1,75 @@
+/**
+ * Lookup + storage for per-project fixture files (referenced by "upload" steps).
+ * File content lives in S3 under fixtures/{projectId}/{fileName}; this table holds the metadata.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { getArtifact, projectFixtureKey, uploadArtifact } from "@/lib/storage/s3";
+
+export const MAX_FIXTURE_FILE_BYTES = 20 * 1024 * 1024;
+
+export interface FixtureFileRow {
+  id: string;
+  projectId: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  storageKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Strip any path segments and characters that are unsafe in S3 keys / local paths. Returns "" when nothing usable remains. */
+export function sanitizeFixtureFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? "";
+  return base.replace(/[^\w.\- ]+/g, "_").replace(/^\.+/, "").trim();
+}
+
+/** Find a fixture by file name (case-insensitive, as step text is free-form). */
+export async function findFixtureFile(
+  projectId: string,
+  fileName: string
+): Promise<FixtureFileRow | null> {
+  return prisma.fixtureFile.findFirst({
+    where: { projectId, fileName: { equals: fileName, mode: "insensitive" } },
+  });
+}
+
+/** Load fixture content from S3. Returns null when the fixture or its object is missing. */
+export async function loadFixtureFile(
+  projectId: string,
+  fileName: string
+): Promise<{ file: FixtureFileRow; content: Buffer } | null> {
+  const file = await findFixtureFile(projectId, fileName);
+  if (!file) return null;
+  const content = await getArtifact(file.storageKey);
+  if (!content) return null;
+  return { file, content };
+}
+
+/** Upload content to S3 and create or replace the fixture row for (projectId, fileName). */
+export async function saveFixtureFile(params: {
+  projectId: string;
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}): Promise<FixtureFileRow> {
+  const storageKey = projectFixtureKey(params.projectId, params.fileName);
+  // Fixtures are test inputs read back through getArtifact, never linked: keep them private even with a public s3_acl
+  await uploadArtifact(storageKey, params.content, params.contentType, { private: true });
+  return prisma.fixtureFile.upsert({
+    where: { projectId_fileName: { projectId: params.projectId, fileName: params.fileName } },
+    create: {
+      projectId: params.projectId,
+      fileName: params.fileName,
+      contentType: params.contentType,
+      sizeBytes: params.content.length,
+      storageKey,
+    },
+    update: {
+      contentType: params.contentType,
+      sizeBytes: params.content.length,
+      storageKey,
+    },
+  });
+}
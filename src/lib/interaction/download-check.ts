@@ -0,0 +1,74 @@
+/**
+ * Verification of files captured by "download" steps: name, type and size against AgentExecutionDownloadCheck.
+ * Type is taken from the file's magic bytes when recognisable, otherwise from its extension.
+ */
+
+import type { AgentExecutionDownloadCheck } from "@/lib/agent-execution-types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  doc: "application/msword",
+  zip: "application/zip",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  json: "application/json",
+  txt: "text/plain",
+  xml: "application/xml",
+};
+
+/** Office Open XML files are zip archives; a zip signature is fine for these extensions. */
+const ZIP_BASED = new Set(["zip", "xlsx", "docx"]);
+
+function extensionOf(fileName: string): string {
+  const ext = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? "";
+  return ext === "jpeg" ? "jpg" : ext;
+}
+
+/** Type from magic bytes; null when the signature is not one we recognise (text formats have none). */
+function sniffType(head: Buffer): string | null {
+  if (head.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+  if (head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04) return "zip";
+  if (head[0] === 0x89 && head.subarray(1, 4).toString("latin1") === "PNG") return "png";
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return "jpg";
+  if (head.subarray(0, 4).toString("latin1") === "GIF8") return "gif";
+  return null;
+}
+
+/** Content type for a downloaded file, from its extension; application/octet-stream when unknown. */
+export function downloadContentType(fileName: string): string {
+  return CONTENT_TYPES[extensionOf(fileName)] ?? "application/octet-stream";
+}
+
+/** Failure message when the file does not meet check, or null when it does (or there is nothing to check). */
+export function checkDownload(
+  fileName: string,
+  content: Buffer,
+  check: AgentExecutionDownloadCheck | null | undefined
+): string | null {
+  if (!check) return null;
+  const failures: string[] = [];
+  if (check.name && !fileName.toLowerCase().includes(check.name.toLowerCase())) {
+    failures.push(`expected file name containing "${check.name}", got "${fileName}"`);
+  }
+  if (check.type) {
+    const expected = check.type.toLowerCase() === "jpeg" ? "jpg" : check.type.toLowerCase();
+    const sniffed = sniffType(content);
+    const matches = sniffed
+      ? sniffed === expected || (sniffed === "zip" && ZIP_BASED.has(expected))
+      : extensionOf(fileName) === expected;
+    if (!matches) failures.push(`expected a ${expected.toUpperCase()} file, got ${(sniffed ?? extensionOf(fileName)) || "unknown type"}`);
+  }
+  if (check.min_bytes != null && content.length < check.min_bytes) {
+    failures.push(`expected at least ${check.min_bytes} bytes, got ${content.length}`);
+  }
+  if (check.max_bytes != null && content.length > check.max_bytes) {
+    failures.push(`expected at most ${check.max_bytes} bytes, got ${content.length}`);
+  }
+  return failures.length > 0 ? `Download check failed: ${failures.join("; ")}` : null;
+}
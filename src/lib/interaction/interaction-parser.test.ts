@@ -0,0 +1,136 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  inferInteractionAction,
+  parseActorSwitch,
+  parseDialogMessage,
+  parseDialogPromptText,
+  parseDragTargets,
+  parseFrameRef,
+  parseKeyCombo,
+  parsePageTarget,
+  parseScrollTarget,
+} from "./interaction-parser";
+
+/** [step text, expected action (null = caller falls back to click / fill / ...)] */
+function expectActions(cases: Array<[string, string | null]>) {
+  for (const [text, action] of cases) {
+    it(`${JSON.stringify(text)} → ${action}`, () => {
+      assert.equal(inferInteractionAction(text), action);
+    });
+  }
+}
+
+describe("keys", () => {
+  expectActions([
+    ["Press Enter", "press_key"],
+    ["Press Enter to submit", "press_key"],
+    ["Press the Escape key", "press_key"],
+    ["Press Control + Shift + K in the editor", "press_key"],
+    ["Click the Enter button", null],
+    ["Click the Space button", null],
+  ]);
+
+  it("normalises combos", () => {
+    assert.equal(parseKeyCombo("Press Ctrl+A"), "Control+a");
+    assert.equal(parseKeyCombo("Press Control + Shift + K in the editor"), "Control+Shift+k");
+    assert.equal(parseKeyCombo("Click Save"), null);
+  });
+});
+
+describe("checkboxes", () => {
+  expectActions([
+    ["Tick the Remember me checkbox", "check"],
+    ["Check the terms checkbox", "check"],
+    ["Untick the newsletter checkbox", "uncheck"],
+    ["Check that the checkbox is ticked", null],
+    ["Check the box is checked", null],
+  ]);
+});
+
+describe("scroll, drag and double-click", () => {
+  expectActions([
+    ["Scroll to the footer", "scroll"],
+    ["Scroll down", "scroll"],
+    ["Click the Scroll to top button", null],
+    ["Drag the card to the Done column", "drag"],
+    ["Double-click the row", "double_click"],
+  ]);
+
+  it("parses targets", () => {
+    assert.equal(parseScrollTarget("Scroll to the footer"), "footer");
+    assert.deepEqual(parseDragTargets("Drag the card to the Done column"), { source: "card", target: "Done column" });
+  });
+});
+
+describe("tabs, popups and frames", () => {
+  expectActions([
+    ["Switch to tab 2", "switch_page"],
+    ["Move to the second window", "switch_page"],
+    ["Go to the second browser tab", "switch_page"],
+    ["Switch to the new tab", "switch_page"],
+    ["Wait for the new window", "switch_page"],
+    // In-page tab widgets and app navigation
+    ["Go to the second tab", null],
+    ["Go to tab 2", null],
+    ["Go to the New Order page", null],
+    ["Wait for the new page to load", null],
+    ["Go to the main page", null],
+    ["Switch back to the main window", "switch_main"],
+    ["Return to the main tab", "switch_main"],
+    ["Exit the iframe", "switch_main"],
+    ["Switch to the payment iframe", "switch_frame"],
+  ]);
+
+  it("parses page and frame targets", () => {
+    assert.equal(parsePageTarget("Switch to tab 2"), 2);
+    assert.equal(parsePageTarget("Move to the second window"), 2);
+    assert.equal(parsePageTarget("Switch to the new tab"), "new");
+    assert.equal(parsePageTarget("Go to the second tab"), null);
+    assert.equal(parseFrameRef("Switch to the payment iframe"), "payment");
+  });
+});
+
+describe("native dialogs", () => {
+  expectActions([
+    ["Accept the dialog", "accept_dialog"],
+    ["Dismiss the dialog", "dismiss_dialog"],
+    ["Accept the alert", "accept_dialog"],
+    ["Click OK on the alert", "accept_dialog"],
+    ["Cancel the confirm dialog", "dismiss_dialog"],
+    ["Enter 'Bob' in the prompt and accept", "accept_dialog"],
+    // Buttons of in-page modals stay clicks
+    ["Click Cancel in the Edit user dialog", null],
+    ["Approve the request in the approval dialog", null],
+  ]);
+
+  it("parses prompt text and expected message", () => {
+    assert.equal(parseDialogPromptText("Enter 'Bob' in the prompt and accept"), "Bob");
+    assert.equal(parseDialogMessage("Accept the dialog saying 'Delete order?'"), "Delete order?");
+  });
+});
+
+describe("actor switches", () => {
+  it("parses the role", () => {
+    assert.equal(parseActorSwitch("Switch to the checker user"), "checker");
+    assert.equal(parseActorSwitch("Switch user to maker"), "maker");
+    assert.equal(parseActorSwitch("Continue as the checker user"), "checker");
+    assert.equal(parseActorSwitch("Act as the branch manager role"), "branch manager");
+  });
+
+  it("needs an actor noun after act / continue / proceed as", () => {
+    for (const text of ["Continue as guest", "Proceed as guest", "Act as admin", "Continue as planned with the form"]) {
+      assert.equal(parseActorSwitch(text), null, text);
+    }
+  });
+});
+
+describe("one-time codes", () => {
+  expectActions([
+    ["Enter the OTP", "enter_otp"],
+    ["Enter the verification code", "enter_otp"],
+    ["Type the two-factor code", "enter_otp"],
+    // A literal code is typed as given
+    ["Enter code 123456", null],
+  ]);
+});
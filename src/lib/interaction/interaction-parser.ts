@@ -0,0 +1,410 @@
+/**
+ * Rule-based parsing of E2E step text for interactions beyond click / fill: keyboard, drag-and-drop, scroll,
+ * checkboxes, double-click, switching between frames, tabs and popups, native dialogs, downloads and the clipboard. No AI. Used by Pre-Execution (action inference + step fields) and by the
+ * selector resolver (action-aware prompts); the Playwright runner executes the result.
+ *
+ * Recognised forms (case-insensitive):
+ * - "Double-click the order row", "Dblclick Invoice 42"
+ * - "Drag card 'Fix login' to Done column", "Drag the file onto the drop zone"
+ * - "Press Enter", "Hit Ctrl+Shift+K", "Press Escape in the search box"
+ * - "Tick the terms checkbox", "Check Remember me checkbox", "Untick newsletter", "Uncheck Remember me"
+ * - "Scroll to footer", "Scroll down", "Scroll to the bottom of the page"
+ * - "Switch to frame 'cardinal-challenge'", "Switch into the iframe with URL acs.bank.com"
+ * - "Switch to the new tab", "Wait for the popup window", "Switch to tab 2"
+ * - "Switch back to the main page", "Close the popup and return to the main window", "Exit the iframe"
+ * - "Confirm the delete dialog", "Dismiss the alert", "Enter 'Bob' in the prompt and accept"
+ * - "Download the invoice and verify it is a PDF over 10KB", "Click Export and wait for the download"
+ * - "Copy the referral code", "Copy the share link as SHARE_URL"
+ * - "Save the order number as ORDER_ID", "Store the href attribute of the invoice link as INVOICE_URL",
+ *   "Capture the confirmation message into <ORDER_NO> using regex /#(\d+)/"
+ * - "Switch to the checker user", "Switch actor to approver", "Act as maker", "Continue as the branch manager"
+ * - "Enter OTP", "Type the verification code" (code from the credential's TOTP secret; "Enter OTP 123456" stays a fill)
+ */
+
+import type {
+  AgentExecutionDownloadCheck,
+  AgentExecutionPageTarget,
+  AgentExecutionScroll,
+} from "@/lib/agent-execution-types";
+
+export type InteractionAction =
+  | "double_click"
+  | "drag"
+  | "press_key"
+  | "check"
+  | "uncheck"
+  | "scroll"
+  | "switch_frame"
+  | "switch_page"
+  | "switch_main"
+  | "accept_dialog"
+  | "dismiss_dialog"
+  | "download"
+  | "copy"
+  | "extract"
+  | "switch_actor"
+  | "enter_otp";
+
+/** Named keys → Playwright key names. Multi-word names ("page down", "arrow up") are joined before lookup. */
+const KEY_NAMES: Record<string, string> = {
+  enter: "Enter",
+  return: "Enter",
+  tab: "Tab",
+  escape: "Escape",
+  esc: "Escape",
+  backspace: "Backspace",
+  delete: "Delete",
+  del: "Delete",
+  space: "Space",
+  spacebar: "Space",
+  home: "Home",
+  end: "End",
+  pageup: "PageUp",
+  pagedown: "PageDown",
+  arrowup: "ArrowUp",
+  arrowdown: "ArrowDown",
+  arrowleft: "ArrowLeft",
+  arrowright: "ArrowRight",
+  insert: "Insert",
+};
+
+const MODIFIERS: Record<string, string> = {
+  ctrl: "Control",
+  control: "Control",
+  cmd: "Meta",
+  command: "Meta",
+  meta: "Meta",
+  alt: "Alt",
+  option: "Alt",
+  shift: "Shift",
+};
+
+const PRESS_REGEX = /\b(?:press(?:es)?|hit)\s+(?:the\s+)?(.+)$/i;
+/**
+ * What may follow a key name for the step to be a key press: nothing, "key", a target ("in the search box") or a
+ * continuation ("to submit", "twice"). Anything else names a control: "Press the Delete button", "Press Tab Settings".
+ */
+const KEY_FOLLOWER_REGEX =
+  /^\s*(?:$|[.,;:!)]|(?:keys?|in|on|inside|within|into|to|and|then|again|twice|once|until|while|\d+\s+times)\b)/;
+const KEY_TARGET_REGEX = /\b(?:in|on|inside|within|into)\s+(?:the\s+)?(.+)$/i;
+const DRAG_REGEX = /\bdrag(?:\s+and\s+drop)?\s+(.+?)\s+(?:to|onto|into|over)\s+(.+)$/i;
+/**
+ * Explicit wording only: "switch (back) to", "go / come / return back to", "return to the main window / tab".
+ * "Go to the main page" or "Go to the first page of results" is navigation within the app.
+ */
+const SWITCH_MAIN_REGEX =
+  /\bswitch\s+back\b|\b(?:switch\s+(?:back\s+)?|(?:return|go|come)\s+back\s+)to\s+(?:the\s+)?(?:main|original|first|parent|default)\s+(?:page|window|tab|frame|document|content)\b|\breturn\s+to\s+(?:the\s+)?(?:main|original|parent)\s+(?:window|tab|frame)\b|\b(?:exit|leave)\s+(?:the\s+)?(?:[\w-]+\s+)?i?frame\b/i;
+/**
+ * "new tab" / "new window" / "popup", or "switch to the new page"; "Go to the New Order page" and
+ * "Wait for the new page to load" are not tab switches.
+ */
+const NEW_PAGE_REGEX =
+  /\b(?:switch|move|go)\s+to\s+(?:the\s+)?(?:(?:new(?:ly\s+opened)?|opened)\s+(?:tab|window|popup|pop-up)|popup|pop-up)\b|\b(?:switch|move)\s+to\s+(?:the\s+)?(?:new(?:ly\s+opened)?|opened)\s+page\b|\bwait\s+for\s+(?:the\s+|a\s+)?(?:new\s+(?:tab|window)|(?:popup|pop-up)(?:\s+(?:window|tab|page))?)\b/i;
+/**
+ * "Switch / move to tab 2 | the second window"; "go to" only with "browser tab" or "window":
+ * "Go to the second tab" / "Go to tab 2" is a click on an in-page tab widget.
+ */
+const TAB_INDEX_REGEX =
+  /\b(?:(?:switch|move)\s+to\s+(?:the\s+)?|go\s+to\s+(?:the\s+)?(?=(?:\w+\s+)?(?:browser\s+tab|window)\b))(?:(?:browser\s+)?(?:tab|window)\s+#?(\d+)|(first|second|third|fourth|fifth)\s+(?:browser\s+)?(?:tab|window))\b/i;
+const FRAME_REGEX =
+  /\b(?:switch|move|go)\s+(?:in)?to\s+(?:the\s+)?(?:i?frame\s+(?:(?:named|called)\s+|with\s+(?:url|src|name|title)\s+)?(.+)$|(.+?)\s+i?frame\b)/i;
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5 };
+const DIALOG_NOUN_REGEX = /\b(?:dialog|alert|prompt|confirm(?:ation)?\s+(?:box|popup|window))\b/i;
+/** Wording only a native alert / confirm / prompt uses; "the Edit user dialog" is usually an in-page modal. */
+const NATIVE_DIALOG_REGEX =
+  /\b(?:alert|prompt|confirm(?:ation)?\s+(?:dialog|box|popup|window)|(?:browser|native|javascript|js)\s+dialog)\b/i;
+const DOWNLOAD_REGEX =
+  /^\s*download\b|\b(?:wait\s+for|save|capture|verify|check|expect)\s+(?:that\s+)?(?:the\s+)?(?:file\s+)?download(?:ed\s+file)?\b/i;
+const FILE_TYPE_REGEX = /\b(pdf|csv|xlsx|xls|zip|png|jpe?g|gif|docx?|json|txt|xml)\b/i;
+const SIZE_REGEX =
+  /\b(over|more than|larger than|bigger than|above|at least|under|less than|smaller than|below|at most)\s+(\d+(?:\.\d+)?)\s*(kb|kib|mb|mib|gb|bytes?|b)\b/gi;
+const SIZE_UNITS: Record<string, number> = { b: 1, byte: 1, bytes: 1, kb: 1024, kib: 1024, mb: 1024 ** 2, mib: 1024 ** 2, gb: 1024 ** 3 };
+const COPY_REGEX = /^\s*copy\b(?!\s+of\b)/i;
+/**
+ * Role name: one to three words ("checker", "branch manager"). "Act / continue / proceed as" needs the actor noun:
+ * "Continue as guest" is a guest-checkout click, not an actor switch.
+ */
+const ACTOR_ROLE = `["'\`]?([A-Za-z][\\w-]*(?:\\s+[A-Za-z][\\w-]*){0,2}?)["'\`]?`;
+const ACTOR_NOUN = `(?:\\s+(?:actor|user|role|account))`;
+const ACTOR_SWITCH_REGEXES = [
+  new RegExp(`^\\s*(?:switch|change)\\s+(?:the\\s+)?(?:actor|user|role|account)\\s+to\\s+(?:the\\s+)?${ACTOR_ROLE}${ACTOR_NOUN}?[.\\s]*$`, "i"),
+  new RegExp(`^\\s*(?:switch|change)\\s+to\\s+(?:the\\s+)?${ACTOR_ROLE}${ACTOR_NOUN}[.\\s]*$`, "i"),
+  new RegExp(`^\\s*(?:act|continue|proceed)\\s+as\\s+(?:the\\s+|an?\\s+)?${ACTOR_ROLE}${ACTOR_NOUN}[.\\s]*$`, "i"),
+];
+const ENTER_OTP_REGEX =
+  /\b(?:enter|type|fill(?:\s+in)?|input|provide)\s+(?:the\s+|a\s+)?(?:current\s+)?(?:(?:otp|totp|2fa|mfa)\b|(?:two[- ]factor|one[- ]time|verification|authenticator|authentication|security)\s+(?:code|password|passcode|token|pin)\b)/i;
+/** "save|store|capture ... as|into VAR"; VAR is <VAR>, {{VAR}} or an UPPER_SNAKE name (checked in parseExtractStep). */
+const EXTRACT_REGEX =
+  /^\s*(?:save|store|capture|extract|remember|record|grab)\s+(.+?)\s+(?:as|into|to)\s+(?:(?:the\s+)?variable\s+)?(?:<\s*([A-Za-z][\w.]*)\s*>|\{\{\s*([A-Za-z][\w.]*)\s*\}\}|([A-Za-z][\w]*))(?=[\s.,]|$)/i;
+const EXTRACT_PATTERN_REGEX = /\s*,?\s*(?:using\s+(?:the\s+)?(?:regex|pattern)|with\s+(?:the\s+)?(?:regex|pattern)|matching)\s+(\/.+\/[imsu]*)/i;
+const EXTRACT_ATTRIBUTE_REGEX = /^(?:the\s+)?["'`]?([\w:-]+)["'`]?\s+attribute\s+(?:of|from|on)\s+/i;
+const COPY_VARIABLE_REGEX =
+  /\s+(?:as|into|to)\s+(?:variable\s+)?(?:<|\{\{)?\s*(?![Cc]lipboard\b)([A-Za-z][\w.]*)\s*(?:>|\}\})?[.\s]*$/;
+
+/**
+ * Key combo after "press" / "hit" as a Playwright key string ("Enter", "Control+Shift+k"); letters stay lower-case.
+ * A single letter or digit only counts together with a modifier, so "Press A button" stays a click; a key name
+ * followed by a control name ("Press the Home button", "Press Insert row button") is a click too.
+ */
+export function parseKeyCombo(stepText: string): string | null {
+  const rest = stepText.match(PRESS_REGEX)?.[1];
+  if (!rest) return null;
+  const normalized = rest
+    .toLowerCase()
+    .replace(/["'`]/g, "")
+    .replace(/\barrow\s+(up|down|left|right)\b/g, "arrow$1")
+    .replace(/\b(up|down|left|right)\s+arrow\b/g, "arrow$1")
+    .replace(/\bpage\s+(up|down)\b/g, "page$1")
+    .replace(/\bspace\s+bar\b/g, "spacebar");
+  const combo = normalized.match(/^([a-z0-9]+(?:\s*\+\s*[a-z0-9]+)*)/)?.[1];
+  if (!combo || !KEY_FOLLOWER_REGEX.test(normalized.slice(combo.length))) return null;
+  const parts = combo.split("+").map((p) => p.trim());
+  const key = parts.pop()!;
+  const modifiers = parts.map((p) => MODIFIERS[p]);
+  if (modifiers.some((m) => !m)) return null;
+  const keyName =
+    KEY_NAMES[key] ??
+    (/^f([1-9]|1[0-2])$/.test(key) ? key.toUpperCase() : null) ??
+    (modifiers.length > 0 && /^[a-z0-9]$/.test(key) ? key : null);
+  if (!keyName) return null;
+  return [...modifiers, keyName].join("+");
+}
+
+/** Element that should receive the key ("Press Enter in the search box" → "search box"); null = focused element. */
+export function parseKeyTarget(stepText: string): string | null {
+  const rest = stepText.match(PRESS_REGEX)?.[1];
+  const target = rest?.match(KEY_TARGET_REGEX)?.[1]?.replace(/[.\s]+$/, "").trim();
+  return target || null;
+}
+
+/** Element to scroll into view ("Scroll to footer" → "footer", "Scroll down until Load more is visible" → "Load more"). */
+export function parseScrollTarget(stepText: string): string | null {
+  const target = stepText
+    .match(/\bscroll\s+(?:down\s+|up\s+|back\s+)?(?:to|until)\s+(?:the\s+)?(.+)$/i)?.[1]
+    ?.replace(/\s+is\s+(?:visible|shown|displayed)\b.*$/i, "")
+    .replace(/[.\s]+$/, "")
+    .trim();
+  return target || null;
+}
+
+/**
+ * Page-level scroll ("Scroll down", "Scroll to the bottom of the page"); null when the step scrolls to an element.
+ * "Scroll down to footer" names an element, so it is an element scroll, not a page scroll.
+ */
+export function parsePageScroll(stepText: string): AgentExecutionScroll | null {
+  const target = parseScrollTarget(stepText);
+  if (target) {
+    const edge = target.match(/^(top|bottom)(?:\s+of\s+(?:the\s+)?page)?$/i)?.[1];
+    return edge ? (edge.toLowerCase() as AgentExecutionScroll) : null;
+  }
+  const direction = stepText.match(/\bscroll\s+(up|down)\b/i)?.[1];
+  return direction ? (direction.toLowerCase() as AgentExecutionScroll) : null;
+}
+
+/** Dragged element and drop target ("Drag card X to Done column" → { source: "card X", target: "Done column" }). */
+export function parseDragTargets(stepText: string): { source: string; target: string } | null {
+  const match = stepText.match(DRAG_REGEX);
+  if (!match) return null;
+  const clean = (s: string) => s.replace(/^the\s+/i, "").replace(/[.\s]+$/, "").trim();
+  const source = clean(match[1]);
+  const target = clean(match[2]);
+  return source && target ? { source, target } : null;
+}
+
+/**
+ * "Close the popup and return to the main page" → { close: true, frameOnly: false }; "Exit the iframe" → frameOnly
+ * (stay on the current tab). Null when the step does not switch back.
+ */
+export function parseSwitchMain(stepText: string): { close: boolean; frameOnly: boolean } | null {
+  if (!SWITCH_MAIN_REGEX.test(stepText)) return null;
+  return {
+    close: /\bclose\b/i.test(stepText),
+    frameOnly: /\bi?frame\b/i.test(stepText) && !/\b(?:page|window|tab|popup|pop-up)\b/i.test(stepText),
+  };
+}
+
+/** Tab / popup to switch to: "new" = the next page opened by the app, number = 1-based tab position (1 = main page). */
+export function parsePageTarget(stepText: string): AgentExecutionPageTarget | null {
+  const index = stepText.match(TAB_INDEX_REGEX);
+  if (index) return index[1] ? Number.parseInt(index[1], 10) : ORDINALS[index[2].toLowerCase()];
+  return NEW_PAGE_REGEX.test(stepText) ? "new" : null;
+}
+
+/**
+ * Frame to switch into, matched at runtime against the iframe's name, id, title or src
+ * ("Switch to frame 'cardinal-challenge'" → "cardinal-challenge", "Switch to the 3-D Secure iframe" → "3-D Secure").
+ */
+export function parseFrameRef(stepText: string): string | null {
+  const match = stepText.match(FRAME_REGEX);
+  if (!match) return null;
+  const raw = match[1] ?? match[2] ?? "";
+  const ref = (raw.match(/["'`]([^"'`]+)["'`]/)?.[1] ?? raw).replace(/[.\s]+$/, "").trim();
+  return ref || null;
+}
+
+/**
+ * Page / frame context after a step, given the context it ran in: "" = main page, "popup", "tab 2",
+ * "frame payment", "popup > frame 3ds". Steps are keyed in selector knowledge by the context they run in.
+ */
+export function nextFrameContext(
+  current: string,
+  action: string,
+  fields: { frame?: string | null; page_target?: AgentExecutionPageTarget | null; frame_only?: boolean }
+): string {
+  if (action === "switch_main") {
+    return fields.frame_only ? current.split(" > ").filter((part) => !part.startsWith("frame ")).join(" > ") : "";
+  }
+  if (action === "switch_page") {
+    const target = fields.page_target ?? "new";
+    return target === "new" ? "popup" : target === 1 ? "" : `tab ${target}`;
+  }
+  if (action === "switch_frame" && fields.frame) {
+    return [current, `frame ${fields.frame.toLowerCase()}`].filter(Boolean).join(" > ");
+  }
+  return current;
+}
+
+/**
+ * "accept_dialog" / "dismiss_dialog" for native alert / confirm / prompt steps, or "Accept / Dismiss the dialog".
+ * "Click Cancel in the Edit user dialog" stays a click on the in-page modal.
+ */
+export function inferDialogAction(stepText: string): "accept_dialog" | "dismiss_dialog" | null {
+  const leadingVerb = /^\s*(?:accept|dismiss)\b/i.test(stepText) && DIALOG_NOUN_REGEX.test(stepText);
+  if (!leadingVerb && !NATIVE_DIALOG_REGEX.test(stepText)) return null;
+  if (/\b(?:dismiss|cancel|decline|reject)\b/i.test(stepText)) return "dismiss_dialog";
+  if (/\b(?:accept|confirm|ok|approve)\b/i.test(stepText)) return "accept_dialog";
+  return null;
+}
+
+/** Text typed into a prompt dialog ("Enter 'Bob' in the prompt and accept" → "Bob"); null for alerts and confirms. */
+export function parseDialogPromptText(stepText: string): string | null {
+  if (!/\bprompt\b/i.test(stepText)) return null;
+  return stepText.match(/\b(?:enter|type|fill(?:\s+in)?|with)\s+["'`]([^"'`]*)["'`]/i)?.[1] ?? null;
+}
+
+/** Expected dialog message ("Accept the dialog saying 'Delete order?'" → "Delete order?"). */
+export function parseDialogMessage(stepText: string): string | null {
+  return (
+    stepText.match(/\b(?:saying|says|reading|reads|with\s+(?:the\s+)?(?:message|text))\s+["'`]([^"'`]+)["'`]/i)?.[1] ?? null
+  );
+}
+
+/** True for steps that trigger and capture a file download. */
+export function mentionsDownload(stepText: string): boolean {
+  return DOWNLOAD_REGEX.test(stepText);
+}
+
+/** Element that starts the download ("Download the invoice" → "invoice", "Click Export CSV and wait for the download" → "Export CSV"). */
+export function parseDownloadTarget(stepText: string): string {
+  const actionPart = stepText.split(/[\s,]+(?:and|then)\s+/i)[0];
+  const target = actionPart
+    .replace(/^\s*(?:click(?:\s+on)?|press|tap|download)\s+(?:the\s+)?/i, "")
+    .replace(/["'`]/g, "")
+    .replace(/[.\s]+$/, "")
+    .trim();
+  return target || stepText;
+}
+
+/** Expectations on the downloaded file: name fragment, type (extension), size bounds. Null when the text sets none. */
+export function parseDownloadCheck(stepText: string): AgentExecutionDownloadCheck | null {
+  const check: AgentExecutionDownloadCheck = {};
+  const name = stepText.match(/\b(?:named|called|file\s*name\s+(?:is|contains|matches))\s+["'`]?([^"'`\s,]+)["'`]?/i)?.[1];
+  if (name) check.name = name.replace(/[.]+$/, "");
+  const type = (stepText.replace(name ?? "\0", "").match(FILE_TYPE_REGEX)?.[1] ?? "").toLowerCase();
+  if (type) check.type = type === "jpeg" ? "jpg" : type;
+  for (const match of Array.from(stepText.matchAll(SIZE_REGEX))) {
+    const bytes = Math.round(Number.parseFloat(match[2]) * (SIZE_UNITS[match[3].toLowerCase()] ?? 1));
+    if (/over|more|larger|bigger|above|at least/i.test(match[1])) check.min_bytes = bytes;
+    else check.max_bytes = bytes;
+  }
+  if (/\bnot\s+empty\b|\bnon-?empty\b/i.test(stepText)) check.min_bytes = Math.max(check.min_bytes ?? 0, 1);
+  return Object.keys(check).length > 0 ? check : null;
+}
+
+/**
+ * Copy step: element to copy from and the runtime variable that receives the clipboard text
+ * ("Copy the referral code" → { target: "referral code", variable: "REFERRAL_CODE" }).
+ */
+export function parseCopyStep(stepText: string): { target: string; variable: string } {
+  const explicit = stepText.match(COPY_VARIABLE_REGEX);
+  const target = stepText
+    .replace(explicit?.[0] ?? "\0", "")
+    .replace(COPY_REGEX, "")
+    .replace(/\s+(?:to|into)\s+(?:the\s+)?clipboard\b/i, "")
+    .replace(/^\s*(?:the\s+)?/i, "")
+    .replace(/["'`]/g, "")
+    .replace(/[.\s]+$/, "")
+    .trim();
+  const variable =
+    explicit?.[1] ??
+    (target
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "CLIPBOARD");
+  return { target: target || stepText, variable };
+}
+
+/**
+ * Extract step: element to read, runtime variable, attribute to read instead of the text, and an optional regex
+ * whose first group (or whole match) is kept. Null when the text is not an extraction:
+ * "Save changes as draft" has no variable, and "$.path" / "header:" sources are API extractions.
+ */
+export function parseExtractStep(
+  stepText: string
+): { target: string; variable: string; attribute: string | null; pattern: string | null } | null {
+  const pattern = stepText.match(EXTRACT_PATTERN_REGEX);
+  const match = stepText.replace(pattern?.[0] ?? "\0", "").match(EXTRACT_REGEX);
+  if (!match) return null;
+  const variable = match[2] ?? match[3] ?? match[4];
+  if (match[4] && !/^[A-Z][A-Z0-9_]*$/.test(match[4])) return null;
+  let source = match[1].trim();
+  if (/^(?:\$|header:)/i.test(source)) return null;
+  const attribute = source.match(EXTRACT_ATTRIBUTE_REGEX);
+  if (attribute) source = source.slice(attribute[0].length);
+  const target = source
+    .replace(/^(?:the\s+)?(?:(?:text|value|content)s?\s+(?:of|from|in)\s+)?(?:the\s+)?/i, "")
+    .replace(/["'`]/g, "")
+    .trim();
+  if (!target) return null;
+  return { target, variable, attribute: attribute?.[1] ?? null, pattern: pattern?.[1] ?? null };
+}
+
+/** Role a switch_actor step hands control to ("Switch to the checker user" → "checker"); null when the text is not one. */
+export function parseActorSwitch(stepText: string): string | null {
+  for (const regex of ACTOR_SWITCH_REGEXES) {
+    const role = stepText.match(regex)?.[1]?.trim();
+    if (role) return role;
+  }
+  return null;
+}
+
+/**
+ * Interaction action for step text, or null when the step is none of these (caller falls back to click / fill / ...).
+ * Checked before "click" and "fill": "Press Enter" must not become a fill, "Double-click" must not become a click,
+ * "Switch to the new tab" must not become a navigate.
+ */
+export function inferInteractionAction(stepText: string): InteractionAction | null {
+  const t = stepText.toLowerCase();
+  if (parseActorSwitch(stepText)) return "switch_actor";
+  if (parseSwitchMain(stepText)) return "switch_main";
+  if (parsePageTarget(stepText)) return "switch_page";
+  if (parseFrameRef(stepText)) return "switch_frame";
+  const dialog = inferDialogAction(stepText);
+  if (dialog) return dialog;
+  if (mentionsDownload(stepText)) return "download";
+  if (COPY_REGEX.test(stepText)) return "copy";
+  if (parseExtractStep(stepText)) return "extract";
+  if (ENTER_OTP_REGEX.test(stepText) && !/\b\d{4,8}\b/.test(stepText)) return "enter_otp";
+  if (/\b(?:double[\s-]?click|dbl[\s-]?click)/.test(t)) return "double_click";
+  if (/\bdrag\b/.test(t) && parseDragTargets(stepText)) return "drag";
+  if (parseKeyCombo(stepText)) return "press_key";
+  if (/\b(?:untick|un-tick|uncheck|un-check)\b/.test(t)) return "uncheck";
+  // "Check that the checkbox is ticked" / "Check the checkbox is ticked" are verifications, not check actions
+  const checksState = /\b(?:is|are|stays|remains)\s+(?:still\s+)?(?:not\s+)?(?:ticked|checked|unchecked|unticked|selected)\b/.test(t);
+  if (!checksState && (/\btick\b/.test(t) || /\bcheck\s+(?!that\b|if\b|whether\b)[^.]*\b(?:checkbox|check box)\b/.test(t))) {
+    return "check";
+  }
+  // Only a step that starts with "scroll": "Click the Scroll to top button" is a click
+  if (/^\s*scroll\b/.test(t)) return "scroll";
+  return null;
+}
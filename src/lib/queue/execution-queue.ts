@@ -13,8 +13,12 @@ export interface ExecutionJobPayload {
   testCaseId: string;
   baseUrl: string;
   envCredentials?: {
+    /** Role of the chosen credentialsEnc entry; keys the cached login session. */
+    role?: string;
     username?: string;
     password?: string;
+    /** Base32 TOTP secret (or otpauth:// URI) of the chosen entry, for 2FA logins. */
+    totpSecret?: string;
     apiToken?: string;
   };
 }
@@ -42,10 +46,14 @@ export const executionQueue = new Proxy({} as Queue<ExecutionJobPayload>, {
   },
 });
 
-/** jobId = executionId enforces idempotency; one execution = one job. */
-export async function enqueueExecution(job: ExecutionJobPayload): Promise<string> {
+/**
+ * jobId = executionId enforces idempotency; one execution = one job.
+ * attempts overrides the queue default (3), e.g. 1 when a schedule retry policy re-queues failures as new executions.
+ */
+export async function enqueueExecution(job: ExecutionJobPayload, options: { attempts?: number } = {}): Promise<string> {
   const bullJob = await executionQueue.add("run", job, {
     jobId: job.executionId,
+    ...(options.attempts !== undefined && { attempts: options.attempts }),
   });
   return bullJob.id ?? job.executionId;
 }
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeBlackoutWindow, findBlackoutWindow, parseBlackoutWindows } from "./blackout";
+import type { BlackoutWindow } from "@/lib/validations/schemas";
+
+// Tue 22:00–02:00 and Songkran, read in Asia/Bangkok (UTC+7, no DST)
+const deploy: BlackoutWindow = { type: "weekly", label: "Deploy", days: [2], start: "22:00", end: "02:00" };
+const songkran: BlackoutWindow = { type: "dates", label: "Songkran", from: "2026-04-13", to: "2026-04-15" };
+const windows = [deploy, songkran];
+const TZ = "Asia/Bangkok";
+
+describe("findBlackoutWindow", () => {
+  const cases: Array<[string, string, BlackoutWindow | null]> = [
+    ["2026-10-20T15:00:00Z", "Tue 22:00 local", deploy],
+    ["2026-10-20T18:59:00Z", "Wed 01:59 local, past midnight", deploy],
+    ["2026-10-20T19:00:00Z", "Wed 02:00 local, window ended", null],
+    ["2026-10-20T14:59:00Z", "Tue 21:59 local", null],
+    ["2026-10-21T15:00:00Z", "Wed 22:00 local, not a listed day", null],
+    ["2026-04-12T17:00:00Z", "Apr 13 00:00 local, still Apr 12 in UTC", songkran],
+    ["2026-04-15T16:59:00Z", "Apr 15 23:59 local", songkran],
+    ["2026-04-15T17:00:00Z", "Apr 16 00:00 local", null],
+  ];
+  for (const [iso, label, expected] of cases) {
+    it(label, () => {
+      assert.equal(findBlackoutWindow(windows, new Date(iso), TZ), expected);
+    });
+  }
+
+  it("treats equal start and end as the whole day", () => {
+    const allDay: BlackoutWindow = { type: "weekly", days: [0], start: "00:00", end: "00:00" };
+    assert.equal(findBlackoutWindow([allDay], new Date("2026-10-25T17:00:00Z"), TZ), null);
+    assert.equal(findBlackoutWindow([allDay], new Date("2026-10-25T10:00:00Z"), TZ), allDay);
+  });
+});
+
+describe("parseBlackoutWindows", () => {
+  it("returns an empty list for unset or invalid JSON", () => {
+    assert.deepEqual(parseBlackoutWindows(null), []);
+    assert.deepEqual(parseBlackoutWindows([{ type: "dates", from: "2026-04-15", to: "2026-04-13" }]), []);
+  });
+
+  it("keeps valid windows", () => {
+    assert.deepEqual(parseBlackoutWindows(windows), windows);
+  });
+});
+
+describe("describeBlackoutWindow", () => {
+  it("formats weekly and date windows", () => {
+    assert.equal(describeBlackoutWindow(deploy), "Deploy (Tue 22:00–02:00)");
+    assert.equal(describeBlackoutWindow(songkran), "Songkran (2026-04-13 – 2026-04-15)");
+    assert.equal(describeBlackoutWindow({ type: "dates", from: "2026-12-31", to: "2026-12-31" }), "2026-12-31");
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Schedule blackout windows (deployment windows, public holidays): the run creator skips runs inside one.
+ * Windows are read in the schedule's timezone; see blackoutWindowSchema for the shapes.
+ */
+
+import { blackoutWindowsSchema, type BlackoutWindow } from "@/lib/validations/schemas";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Schedule.blackoutWindows JSON as a list; empty when unset or unreadable. */
+export function parseBlackoutWindows(json: unknown): BlackoutWindow[] {
+  if (json == null) return [];
+  const parsed = blackoutWindowsSchema.safeParse(json);
+  return parsed.success ? parsed.data : [];
+}
+
+/** Wall-clock date, weekday (0 = Sunday) and minute of day of at in timezone. */
+function localTime(at: Date, timezone: string): { date: string; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+      .formatToParts(at)
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function inWindow(window: BlackoutWindow, local: { date: string; weekday: number; minutes: number }): boolean {
+  if (window.type === "dates") return local.date >= window.from && local.date <= window.to;
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start === end) return window.days.includes(local.weekday);
+  if (start < end) return window.days.includes(local.weekday) && local.minutes >= start && local.minutes < end;
+  // Runs past midnight: the evening of a listed day or the early morning after it
+  const previousDay = (local.weekday + 6) % 7;
+  return (
+    (window.days.includes(local.weekday) && local.minutes >= start) ||
+    (window.days.includes(previousDay) && local.minutes < end)
+  );
+}
+
+/** First window that at falls in, or null. */
+export function findBlackoutWindow(windows: BlackoutWindow[], at: Date, timezone: string): BlackoutWindow | null {
+  if (windows.length === 0) return null;
+  const local = localTime(at, timezone);
+  return windows.find((w) => inWindow(w, local)) ?? null;
+}
+
+/** "Deploy (Tue, Thu 22:00–02:00)" / "Songkran (2026-04-13 – 2026-04-15)" for logs and the schedule form. */
+export function describeBlackoutWindow(window: BlackoutWindow): string {
+  const range =
+    window.type === "dates"
+      ? window.from === window.to
+        ? window.from
+        : `${window.from} – ${window.to}`
+      : `${window.days.map((d) => WEEKDAYS[d]).join(", ")} ${window.start === window.end ? "all day" : `${window.start}–${window.end}`}`;
+  return window.label ? `${window.label} (${range})` : range;
+}
@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getNextRunFromCron, validateCronExpression } from "./next-run";
+
+describe("getNextRunFromCron", () => {
+  it("reads the expression in the schedule's timezone", () => {
+    const from = new Date("2026-10-19T00:00:00Z"); // Monday
+    assert.equal(getNextRunFromCron("0 9 * * 1-5", "Asia/Bangkok", from).toISOString(), "2026-10-19T02:00:00.000Z");
+    assert.equal(getNextRunFromCron("0 9 * * 1-5", "UTC", from).toISOString(), "2026-10-19T09:00:00.000Z");
+  });
+
+  it("follows daylight saving changes", () => {
+    // New York: EDT (UTC-4) until 2026-11-01, EST (UTC-5) after
+    const before = getNextRunFromCron("0 9 * * *", "America/New_York", new Date("2026-10-31T00:00:00Z"));
+    const after = getNextRunFromCron("0 9 * * *", "America/New_York", new Date("2026-11-02T00:00:00Z"));
+    assert.equal(before.toISOString(), "2026-10-31T13:00:00.000Z");
+    assert.equal(after.toISOString(), "2026-11-02T14:00:00.000Z");
+  });
+
+  it("defaults to UTC", () => {
+    assert.equal(getNextRunFromCron("30 6 * * *", undefined, new Date("2026-10-19T07:00:00Z")).toISOString(), "2026-10-20T06:30:00.000Z");
+  });
+});
+
+describe("validateCronExpression", () => {
+  it("accepts five-field expressions and rejects garbage", () => {
+    assert.equal(validateCronExpression("*/15 * * * *"), true);
+    assert.equal(validateCronExpression("every day"), false);
+  });
+});
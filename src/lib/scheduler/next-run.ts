@@ -1,11 +1,12 @@
 /**
  * Compute next run time from cron expression. Used when creating/updating schedules.
+ * The expression is read in the schedule's IANA timezone ("0 9 * * 1-5" in Asia/Bangkok = 02:00 UTC).
  */
 
 import cronParser from "cron-parser";
 
-export function getNextRunFromCron(cronExpression: string): Date {
-  const interval = cronParser.parseExpression(cronExpression);
+export function getNextRunFromCron(cronExpression: string, timezone = "UTC", currentDate = new Date()): Date {
+  const interval = cronParser.parseExpression(cronExpression, { tz: timezone, currentDate });
   return interval.next().toDate();
 }
 
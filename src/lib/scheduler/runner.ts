@@ -5,14 +5,18 @@
  * Schedule B — Run Orchestrator: processes active RUNNING runs (dispatch QUEUED → Bull, completion). No run creation.
  */
 
-import cronParser from "cron-parser";
+import { Prisma, type BrowserEngine } from "@prisma/client";
 import { prisma } from "@/lib/db/client";
 import { enqueueExecution } from "@/lib/queue/execution-queue";
-import { decrypt } from "@/lib/encryption";
+import { resolveE2ECredentials } from "@/lib/credentials/e2e-credentials";
 import { runPreExecution } from "@/core/pre-execution-service";
 import type { ApplicationConfig } from "@/core/data-orchestrator";
-import type { AgentExecution } from "@/lib/agent-execution-types";
+import type { AgentExecution, NetworkMockRule } from "@/lib/agent-execution-types";
 import { sendSlackNotification } from "@/lib/slack/send-message";
+import { retryPolicySchema, type RetryPolicy } from "@/lib/validations/schemas";
+import { parseSelectionFilter, scheduleTestCaseWhere } from "./test-case-selection";
+import { describeBlackoutWindow, findBlackoutWindow, parseBlackoutWindows } from "./blackout";
+import { getNextRunFromCron } from "./next-run";
 
 export async function getScheduleConfig(key: string): Promise<number | null> {
   const row = await prisma.systemConfig.findUnique({
@@ -28,10 +32,10 @@ export async function getScheduleConfig(key: string): Promise<number | null> {
 // -----------------------------------------------------------------------------
 
 /** Pick an environment from the list that matches TC's testType and applicationId. */
-function findEnvironmentForTestCase(
+function findEnvironmentForTestCase<E extends { id: string; type: string; applicationId: string | null }>(
   tc: { testType: string | null; applicationId: string | null },
-  environments: { id: string; type: string; applicationId: string | null }[]
-): { id: string; type: string; applicationId: string | null } | null {
+  environments: E[]
+): E | null {
   const wantType = tc.testType ?? "E2E";
   const wantApp = tc.applicationId ?? null;
   const match = environments.find(
@@ -48,47 +52,10 @@ function buildApplicationConfig(): ApplicationConfig {
   };
 }
 
-/** E2E credential entry in credentialsEnc JSON. */
-type E2ECredentialEntry = { role?: string; username: string; password: string };
-
-/**
- * Resolve E2E credentials from env: use credentialsEnc (pick by role or first), fallback to legacy usernameEnc/passwordEnc.
- */
-function resolveE2ECredentials(
-  env: {
-    credentialsEnc: string | null;
-    usernameEnc: string | null;
-    passwordEnc: string | null;
-    apiTokenEnc: string | null;
-  },
-  role?: string | null
-): { username?: string; password?: string; apiToken?: string } {
-  let username: string | undefined;
-  let password: string | undefined;
-  if (env.credentialsEnc) {
-    try {
-      const list = JSON.parse(decrypt(env.credentialsEnc)) as E2ECredentialEntry[];
-      if (Array.isArray(list) && list.length > 0) {
-        // ไม่ระบุ role → ใช้แถวแรก; ระบุ role → หาให้ตรงหรือ fallback แถวแรก
-        const chosen = role
-          ? list.find((c) => (c.role ?? "").trim().toLowerCase() === (role ?? "").trim().toLowerCase()) ?? list[0]
-          : list[0];
-        username = chosen.username || undefined;
-        password = chosen.password || undefined;
-      }
-    } catch {
-      /* ignore */
-    }
-  }
-  if (username === undefined && env.usernameEnc) username = decrypt(env.usernameEnc);
-  if (password === undefined && env.passwordEnc) password = decrypt(env.passwordEnc);
-  const apiToken = env.apiTokenEnc ? decrypt(env.apiTokenEnc) : undefined;
-  return { username, password, apiToken };
-}
-
 /**
  * Run Creator: for each due schedule, create test_run + executions (one env per TC by testType + application).
  * Then run PreExecution for each new execution. Does NOT push to Bull. Updates schedule nextRunAt.
+ * A run inside one of the schedule's blackout windows is skipped (logged) and the schedule moves to its next run.
  */
 export async function runRunCreator(): Promise<void> {
   const now = new Date();
@@ -106,10 +73,25 @@ export async function runRunCreator(): Promise<void> {
     try {
       const projectId = schedule.projectId;
 
-      // 1. If RUNNING run exists → do nothing (only update nextRunAt)
+      // 0. Run due inside a blackout window (deployment window, holiday) → skip it; a late tick still goes by
+      //    the time the run was due, not when the creator picked it up
+      const dueAt = schedule.nextRunAt ?? now;
+      const blackout = findBlackoutWindow(parseBlackoutWindows(schedule.blackoutWindows), dueAt, schedule.timezone);
+      if (blackout) {
+        console.info(
+          `[run-creator] Skipped schedule ${schedule.id} (${schedule.name}) run due at ${dueAt.toISOString()}: ` +
+            `inside blackout window ${describeBlackoutWindow(blackout)} (${schedule.timezone})`
+        );
+        await updateScheduleNextRun(schedule.id, now, { skipped: true });
+        continue;
+      }
+
+      // 1. If a scheduled RUNNING run exists → do nothing (only update nextRunAt);
+      //    manual / API / CI runs are enqueued directly and don't hold schedules back
       const activeRun = await prisma.testRun.findFirst({
         where: {
           projectId,
+          triggerType: "SCHEDULE",
           status: "RUNNING",
           completedAt: null,
         },
@@ -121,35 +103,21 @@ export async function runRunCreator(): Promise<void> {
         continue;
       }
 
-      // 2. Find tickets READY_TO_TEST and TCs ready (with testType, applicationId for env matching)
-      const readyTickets = await prisma.ticket.findMany({
-        where: { projectId, status: "READY_TO_TEST" },
-        select: { id: true },
-      });
-      const ticketIds = readyTickets.map((t) => t.id);
-      if (ticketIds.length === 0) {
-        await updateScheduleNextRun(schedule.id, now);
-        continue;
-      }
-
+      // 2. Pick TCs: the schedule's test case list / selection filter, else READY TCs under READY_TO_TEST tickets
+      //    (with testType, applicationId for env matching)
       const testCases = await prisma.testCase.findMany({
-        where: {
+        where: scheduleTestCaseWhere({
           projectId,
-          status: "READY",
-          ticketId: { in: ticketIds },
-        },
+          testCaseIds: schedule.testCaseIds,
+          selectionFilter: parseSelectionFilter(schedule.selectionFilter),
+        }),
         select: {
           id: true,
-          testSteps: true,
           testType: true,
           applicationId: true,
         },
       });
-
-      const withSteps = testCases.filter(
-        (tc) => Array.isArray(tc.testSteps) && tc.testSteps.length > 0
-      );
-      if (withSteps.length === 0) {
+      if (testCases.length === 0) {
         await updateScheduleNextRun(schedule.id, now);
         continue;
       }
@@ -162,23 +130,24 @@ export async function runRunCreator(): Promise<void> {
       }
       const scheduleEnvs = await prisma.environment.findMany({
         where: { id: { in: envIds }, projectId },
-        select: { id: true, type: true, applicationId: true },
+        select: { id: true, type: true, applicationId: true, browserEngine: true },
       });
       if (scheduleEnvs.length === 0) {
         await updateScheduleNextRun(schedule.id, now);
         continue;
       }
 
-      // Re-check no RUNNING run (avoid race)
+      // Re-check no scheduled RUNNING run (avoid race)
       const again = await prisma.testRun.findFirst({
-        where: { projectId, status: "RUNNING", completedAt: null },
+        where: { projectId, triggerType: "SCHEDULE", status: "RUNNING", completedAt: null },
       });
       if (again) {
         await updateScheduleNextRun(schedule.id, now);
         continue;
       }
 
-      // 4. Create test_run + executions (one environment per TC by testType + applicationId)
+      // 4. Create test_run + executions (one environment per TC by testType + applicationId;
+      //    E2E TCs fan out to one execution per schedule browser engine, else the environment's engine)
       const created: { executionId: string; testCaseId: string }[] = [];
       const tcIdsWithEnv: string[] = [];
       const skippedNoEnv: { id: string; testType: string | null; applicationId: string | null }[] = [];
@@ -187,11 +156,13 @@ export async function runRunCreator(): Promise<void> {
         const run = await tx.testRun.create({
           data: {
             projectId,
+            scheduleId: schedule.id,
+            triggerType: "SCHEDULE",
             status: "RUNNING",
             startedAt: now,
           },
         });
-        for (const tc of withSteps) {
+        for (const tc of testCases) {
           const env = findEnvironmentForTestCase(tc, scheduleEnvs);
           if (!env) {
             skippedNoEnv.push({
@@ -201,16 +172,25 @@ export async function runRunCreator(): Promise<void> {
             });
             continue;
           }
-          const ex = await tx.execution.create({
-            data: {
-              runId: run.id,
-              projectId,
-              environmentId: env.id,
-              testCaseId: tc.id,
-              status: "QUEUED",
-            },
-          });
-          created.push({ executionId: ex.id, testCaseId: tc.id });
+          const engines: (BrowserEngine | null)[] =
+            (tc.testType ?? "E2E") !== "E2E"
+              ? [null]
+              : schedule.browserEngines.length > 0
+                ? schedule.browserEngines
+                : [env.browserEngine];
+          for (const browserEngine of engines) {
+            const ex = await tx.execution.create({
+              data: {
+                runId: run.id,
+                projectId,
+                environmentId: env.id,
+                testCaseId: tc.id,
+                status: "QUEUED",
+                browserEngine,
+              },
+            });
+            created.push({ executionId: ex.id, testCaseId: tc.id });
+          }
           tcIdsWithEnv.push(tc.id);
         }
         if (tcIdsWithEnv.length > 0) {
@@ -250,6 +230,7 @@ export async function runRunCreator(): Promise<void> {
                   data_condition: true,
                   dataRequirement: true,
                   setup_hint: true,
+                  networkMocks: true,
                   applicationId: true,
                   primaryActor: true,
                   ticket: {
@@ -299,6 +280,7 @@ export async function runRunCreator(): Promise<void> {
               data_condition: execution.testCase.data_condition,
               data_requirement: (execution.testCase.dataRequirement ?? []) as Array<{ alias: string; type: string; scenario: string; role?: string | null }>,
               setup_hint: execution.testCase.setup_hint,
+              network_mocks: (execution.testCase.networkMocks ?? []) as unknown as NetworkMockRule[],
               ticket: execution.testCase.ticket
                 ? {
                     title: execution.testCase.ticket.title ?? null,
@@ -330,7 +312,7 @@ export async function runRunCreator(): Promise<void> {
         if (project?.slackChannelId) {
           sendSlackNotification("testing", {
             channelId: project.slackChannelId,
-            text: `Test run started for *${project.name}* (${created.length} test case(s)).`,
+            text: `Test run started for *${project.name}* (${tcIdsWithEnv.length} test case(s), ${created.length} execution(s)).`,
           }).catch(() => {});
         }
       }
@@ -348,7 +330,8 @@ export async function runRunCreator(): Promise<void> {
 
 /**
  * Run Orchestrator: for each RUNNING test_run, either dispatch QUEUED to Bull or mark run COMPLETED.
- * Does NOT create test_run.
+ * Does NOT create test_run. Manual / API / CI runs enqueue their executions when triggered, so for those
+ * this only marks the run COMPLETED (no dispatch, no Slack run summary).
  */
 export async function runRunOrchestrator(): Promise<void> {
   const activeRuns = await prisma.testRun.findMany({
@@ -357,6 +340,7 @@ export async function runRunOrchestrator(): Promise<void> {
       completedAt: null,
     },
     orderBy: { startedAt: "asc" },
+    include: { schedule: { select: { retryPolicy: true, concurrencyLimit: true } } },
   });
 
   for (const run of activeRuns) {
@@ -374,28 +358,39 @@ export async function runRunOrchestrator(): Promise<void> {
       const runningCount = (byStatus.RUNNING as number | undefined) ?? 0;
       const queuedCount = (byStatus.QUEUED as number | undefined) ?? 0;
 
-      // 2. If any RUNNING → do nothing (wait for workers)
-      if (runningCount > 0) {
+      // 2. If any RUNNING → do nothing (wait for workers); a triggered run's QUEUED executions are already in Bull
+      if (runningCount > 0 || (run.triggerType !== "SCHEDULE" && queuedCount > 0)) {
         continue;
       }
 
-      // 3. If any QUEUED → load batch and push to Bull
-      if (queuedCount > 0) {
-        const envAndBatch = await getEnvironmentAndBatchSizeForRun(projectId, runId);
-        if (envAndBatch) {
-          await loadQueuedExecutionsToBull(runId, envAndBatch.env, envAndBatch.batchSize);
-        }
+      // 3. Schedule retry policy: FAILED executions past their backoff get a new QUEUED attempt
+      const retryPolicy = parseRetryPolicy(run.schedule?.retryPolicy);
+      const retries = retryPolicy ? await requeueFailedExecutions(runId, retryPolicy) : { queued: 0, waiting: 0 };
+
+      // 4. If any QUEUED → load batch and push to Bull (the policy owns retries, so no Bull-level re-runs then)
+      if (queuedCount + retries.queued > 0) {
+        const batchSize = await getBatchSizeForRun(run.schedule);
+        await loadQueuedExecutionsToBull(runId, batchSize, retryPolicy ? 1 : undefined);
+        continue;
+      }
+      // A retry still in its backoff keeps the run open
+      if (retries.waiting > 0) {
         continue;
       }
 
-      // 4. No RUNNING, no QUEUED → all finished; sync any TC still TESTING from execution result, then mark run COMPLETED
+      // 5. No RUNNING, no QUEUED → all finished; sync any TC still TESTING from execution result, then mark run COMPLETED.
+      //    Retried attempts are history only; the last attempt decides the outcome.
       const executions = await prisma.execution.findMany({
-        where: { runId, status: { in: ["PASSED", "FAILED"] } },
-        select: { testCaseId: true, status: true },
+        where: { runId, status: { in: ["PASSED", "FAILED"] }, retries: { none: {} } },
+        select: { testCaseId: true, status: true, attempt: true },
       });
       const passedCount = executions.filter((e) => e.status === "PASSED").length;
       const failedCount = executions.filter((e) => e.status === "FAILED").length;
-      for (const ex of executions) {
+      const flakyCount = executions.filter((e) => e.status === "PASSED" && e.attempt > 1).length;
+      const flakyNote = flakyCount > 0 ? ` (${flakyCount} passed on retry)` : "";
+      // FAILED first so a TC run on several browser engines ends FAILED when any engine failed
+      const failedFirst = [...executions].sort((x, y) => (x.status === "FAILED" ? 0 : 1) - (y.status === "FAILED" ? 0 : 1));
+      for (const ex of failedFirst) {
         await prisma.testCase.updateMany({
           where: { id: ex.testCaseId, status: "TESTING" },
           data: { status: ex.status as "PASSED" | "FAILED" },
@@ -409,16 +404,16 @@ export async function runRunOrchestrator(): Promise<void> {
         where: { id: projectId },
         select: { slackChannelId: true, name: true },
       });
-      if (project?.slackChannelId) {
+      if (project?.slackChannelId && run.triggerType === "SCHEDULE") {
         if (failedCount === 0) {
           sendSlackNotification("test_passed", {
             channelId: project.slackChannelId,
-            text: `Test run completed for *${project.name}*: all ${passedCount} test(s) passed.`,
+            text: `Test run completed for *${project.name}*: all ${passedCount} test(s) passed${flakyNote}.`,
           }).catch(() => {});
         } else {
           sendSlackNotification("test_failed", {
             channelId: project.slackChannelId,
-            text: `Test run completed for *${project.name}*: ${passedCount} passed, ${failedCount} failed.`,
+            text: `Test run completed for *${project.name}*: ${passedCount} passed${flakyNote}, ${failedCount} failed.`,
           }).catch(() => {});
         }
       }
@@ -428,76 +423,108 @@ export async function runRunOrchestrator(): Promise<void> {
   }
 }
 
-/** Env with encrypted fields for per-execution credential resolution (by ticket role). */
-type EnvWithEnc = {
-  id: string;
-  baseUrl: string;
-  credentialsEnc: string | null;
-  usernameEnc: string | null;
-  passwordEnc: string | null;
-  apiTokenEnc: string | null;
-};
+/** Schedule.retryPolicy JSON; null when unset, unreadable or allowing no retries. */
+function parseRetryPolicy(json: unknown): RetryPolicy | null {
+  if (json == null) return null;
+  const parsed = retryPolicySchema.safeParse(json);
+  return parsed.success && parsed.data.maxRetries > 0 ? parsed.data : null;
+}
+
+/** Classified statuses retryOn "selector_or_infra" re-runs: element not found, or the execution itself errored. */
+const SELECTOR_OR_INFRA_FAILURES = new Set(["FAILED_SELECTOR", "FAILED"]);
 
 /**
- * Get environment and batch size for a run (from first execution's env + first active schedule for project).
- * Credentials are resolved per execution using testCase.primaryActor (inherited from Ticket; match role in credentials; else first row).
+ * For every FAILED, not yet retried execution of the run that the policy allows to retry, create the next attempt:
+ * a new QUEUED execution with the same plan, linked via retryOfId, so each attempt stays in the history.
+ * Attempts still inside their backoff are only counted.
  */
-async function getEnvironmentAndBatchSizeForRun(
-  projectId: string,
-  runId: string
-): Promise<{ env: EnvWithEnc; batchSize: number } | null> {
-  const firstExecution = await prisma.execution.findFirst({
-    where: { runId },
-    select: { environmentId: true },
-  });
-  if (!firstExecution) return null;
-
-  const env = await prisma.environment.findUnique({
-    where: { id: firstExecution.environmentId },
+async function requeueFailedExecutions(
+  runId: string,
+  policy: RetryPolicy
+): Promise<{ queued: number; waiting: number }> {
+  const failed = await prisma.execution.findMany({
+    where: { runId, status: "FAILED", attempt: { lte: policy.maxRetries }, retries: { none: {} } },
     select: {
       id: true,
-      baseUrl: true,
-      credentialsEnc: true,
-      usernameEnc: true,
-      passwordEnc: true,
-      apiTokenEnc: true,
+      projectId: true,
+      environmentId: true,
+      testCaseId: true,
+      browserEngine: true,
+      agentExecution: true,
+      executionMetadata: true,
+      triggeredById: true,
+      attempt: true,
+      finishedAt: true,
     },
   });
-  if (!env) return null;
+  let queued = 0;
+  let waiting = 0;
+  for (const ex of failed) {
+    const executionStatus = (ex.executionMetadata as { execution_status?: string } | null)?.execution_status ?? "FAILED";
+    if (policy.retryOn === "selector_or_infra" && !SELECTOR_OR_INFRA_FAILURES.has(executionStatus)) continue;
+    if ((ex.finishedAt?.getTime() ?? 0) + policy.backoffMs > Date.now()) {
+      waiting++;
+      continue;
+    }
+    await prisma.execution.create({
+      data: {
+        runId,
+        projectId: ex.projectId,
+        environmentId: ex.environmentId,
+        testCaseId: ex.testCaseId,
+        browserEngine: ex.browserEngine,
+        agentExecution: ex.agentExecution ?? Prisma.DbNull,
+        triggeredById: ex.triggeredById,
+        status: "QUEUED",
+        attempt: ex.attempt + 1,
+        retryOfId: ex.id,
+      },
+    });
+    queued++;
+  }
+  return { queued, waiting };
+}
 
-  const schedule = await prisma.schedule.findFirst({
-    where: { projectId, isActive: true },
-    orderBy: { nextRunAt: "asc" },
-    select: { concurrencyLimit: true },
-  });
+/**
+ * Batch size for a run: the concurrencyLimit of the schedule that created it (default 3 when the run has none,
+ * e.g. the schedule was deleted), capped by max_parallel_execution.
+ */
+async function getBatchSizeForRun(schedule: { concurrencyLimit: number } | null): Promise<number> {
   const maxParallel = (await getScheduleConfig("max_parallel_execution")) ?? 10;
-  const batchSize = Math.min(schedule?.concurrencyLimit ?? 3, maxParallel);
-
-  return { env, batchSize };
+  return Math.min(schedule?.concurrencyLimit ?? 3, maxParallel);
 }
 
 // -----------------------------------------------------------------------------
 // Shared helpers
 // -----------------------------------------------------------------------------
 
-export async function updateScheduleNextRun(scheduleId: string, now: Date): Promise<void> {
+export async function updateScheduleNextRun(
+  scheduleId: string,
+  now: Date,
+  options: { skipped?: boolean } = {}
+): Promise<void> {
   const schedule = await prisma.schedule.findUnique({
     where: { id: scheduleId },
-    select: { cronExpression: true },
+    select: { cronExpression: true, timezone: true },
   });
   if (!schedule) return;
-  const interval = cronParser.parseExpression(schedule.cronExpression);
-  const nextRun = interval.next().toDate();
+  const nextRun = getNextRunFromCron(schedule.cronExpression, schedule.timezone, now);
   await prisma.schedule.update({
     where: { id: scheduleId },
-    data: { lastRunAt: now, nextRunAt: nextRun },
+    // A skipped run (blackout) never ran, so lastRunAt keeps the last real run
+    data: options.skipped ? { nextRunAt: nextRun } : { lastRunAt: now, nextRunAt: nextRun },
   });
 }
 
+/**
+ * Push up to batchSize QUEUED executions of the run to Bull. Each job gets its own execution's environment
+ * (baseUrl + credentials), so runs spanning API and E2E environments hit the right host; credentials are resolved
+ * using testCase.primaryActor (inherited from Ticket; match role in credentials; else first row).
+ */
 async function loadQueuedExecutionsToBull(
   runId: string,
-  env: EnvWithEnc,
-  batchSize: number
+  batchSize: number,
+  jobAttempts?: number
 ): Promise<void> {
   const queued = await prisma.execution.findMany({
     where: { runId, status: "QUEUED" },
@@ -506,10 +533,21 @@ async function loadQueuedExecutionsToBull(
       testCase: {
         select: { primaryActor: true, ticket: { select: { primaryActor: true } } },
       },
+      environment: {
+        select: {
+          id: true,
+          baseUrl: true,
+          credentialsEnc: true,
+          usernameEnc: true,
+          passwordEnc: true,
+          apiTokenEnc: true,
+        },
+      },
     },
   });
 
   for (const ex of queued) {
+    const env = ex.environment;
     await prisma.execution.update({
       where: { id: ex.id },
       data: { status: "RUNNING", startedAt: new Date() },
@@ -523,6 +561,6 @@ async function loadQueuedExecutionsToBull(
       testCaseId: ex.testCaseId,
       baseUrl: env.baseUrl,
       envCredentials: credentials,
-    });
+    }, { attempts: jobAttempts });
   }
 }
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSelectionFilter, scheduleTestCaseWhere } from "./test-case-selection";
+
+const projectId = "proj_1";
+
+describe("scheduleTestCaseWhere", () => {
+  it("sweeps READY test cases under READY_TO_TEST tickets without a list or filter", () => {
+    assert.deepEqual(scheduleTestCaseWhere({ projectId, testCaseIds: [], selectionFilter: null }), {
+      projectId,
+      testSteps: { isEmpty: false },
+      status: "READY",
+      ticket: { status: "READY_TO_TEST" },
+    });
+  });
+
+  it("treats a filter with only empty lists as no filter", () => {
+    const where = scheduleTestCaseWhere({ projectId, testCaseIds: [], selectionFilter: { priorities: [], tags: [] } });
+    assert.equal(where.status, "READY");
+  });
+
+  it("re-runs the listed test cases whatever their last result", () => {
+    assert.deepEqual(scheduleTestCaseWhere({ projectId, testCaseIds: ["tc_1", "tc_2"], selectionFilter: null }), {
+      projectId,
+      testSteps: { isEmpty: false },
+      status: { in: ["READY", "PASSED", "FAILED"] },
+      id: { in: ["tc_1", "tc_2"] },
+    });
+  });
+
+  it("maps each filter field", () => {
+    const where = scheduleTestCaseWhere({
+      projectId,
+      testCaseIds: [],
+      selectionFilter: { priorities: ["CRITICAL"], tags: ["smoke"], ticketStatuses: ["DONE"], testTypes: ["API"] },
+    });
+    assert.deepEqual(where.priority, { in: ["CRITICAL"] });
+    assert.deepEqual(where.tags, { hasSome: ["smoke"] });
+    assert.deepEqual(where.ticket, { status: { in: ["DONE"] } });
+    assert.deepEqual(where.OR, [{ testType: { in: ["API"] } }]);
+  });
+
+  it("includes test cases without a test type when filtering on E2E", () => {
+    const where = scheduleTestCaseWhere({ projectId, testCaseIds: [], selectionFilter: { testTypes: ["E2E"] } });
+    assert.deepEqual(where.OR, [{ testType: { in: ["E2E"] } }, { testType: null }]);
+  });
+});
+
+describe("parseSelectionFilter", () => {
+  it("returns null for unset or invalid JSON", () => {
+    assert.equal(parseSelectionFilter(null), null);
+    assert.equal(parseSelectionFilter({ priorities: ["URGENT"] }), null);
+  });
+
+  it("normalises tags", () => {
+    assert.deepEqual(parseSelectionFilter({ tags: [" Smoke "] }), { tags: ["smoke"] });
+  });
+});
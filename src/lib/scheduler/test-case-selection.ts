@@ -0,0 +1,48 @@
+/**
+ * Which test cases a schedule runs. Without an explicit list or filter it sweeps READY test cases under
+ * READY_TO_TEST tickets; with a selection (e.g. an hourly smoke suite) it re-runs the picked test cases every time.
+ */
+
+import type { Prisma, TestCaseStatus } from "@prisma/client";
+import { scheduleSelectionFilterSchema, type ScheduleSelectionFilter } from "@/lib/validations/schemas";
+
+/** Statuses a schedule with a selection re-runs; DRAFT, CANCEL and IGNORE test cases are never picked. */
+const RERUNNABLE_STATUSES: TestCaseStatus[] = ["READY", "PASSED", "FAILED"];
+
+/** Schedule.selectionFilter JSON as a filter; null when unset or unreadable. */
+export function parseSelectionFilter(json: unknown): ScheduleSelectionFilter | null {
+  if (json == null) return null;
+  const parsed = scheduleSelectionFilterSchema.safeParse(json);
+  return parsed.success ? parsed.data : null;
+}
+
+function hasFilter(filter: ScheduleSelectionFilter | null): filter is ScheduleSelectionFilter {
+  return !!filter && Object.values(filter).some((list) => Array.isArray(list) && list.length > 0);
+}
+
+/** Where clause for the test cases the schedule picks; test cases without steps are never picked. */
+export function scheduleTestCaseWhere(schedule: {
+  projectId: string;
+  testCaseIds: string[];
+  selectionFilter: ScheduleSelectionFilter | null;
+}): Prisma.TestCaseWhereInput {
+  const { projectId, testCaseIds, selectionFilter: filter } = schedule;
+  const base: Prisma.TestCaseWhereInput = { projectId, testSteps: { isEmpty: false } };
+  if (testCaseIds.length === 0 && !hasFilter(filter)) {
+    return { ...base, status: "READY", ticket: { status: "READY_TO_TEST" } };
+  }
+  const where: Prisma.TestCaseWhereInput = { ...base, status: { in: RERUNNABLE_STATUSES } };
+  if (testCaseIds.length > 0) where.id = { in: testCaseIds };
+  if (filter?.priorities?.length) where.priority = { in: filter.priorities };
+  if (filter?.categories?.length) where.category = { in: filter.categories };
+  if (filter?.applicationIds?.length) where.applicationId = { in: filter.applicationIds };
+  if (filter?.testTypes?.length) {
+    // No test type runs as E2E (see the run creator's environment matching)
+    where.OR = filter.testTypes.includes("E2E")
+      ? [{ testType: { in: filter.testTypes } }, { testType: null }]
+      : [{ testType: { in: filter.testTypes } }];
+  }
+  if (filter?.tags?.length) where.tags = { hasSome: filter.tags };
+  if (filter?.ticketStatuses?.length) where.ticket = { status: { in: filter.ticketStatuses } };
+  return where;
+}
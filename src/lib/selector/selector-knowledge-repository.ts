@@ -1,5 +1,7 @@
 /**
  * CRUD for selector_knowledge + increment usage_count.
+ * Rows are keyed by semantic key and frame context ("" = main page), so the same button text inside a
+ * payment iframe or an OAuth popup does not share a selector with the main page.
  */
 
 import { prisma } from "@/lib/db/client";
@@ -9,6 +11,7 @@ export interface SelectorKnowledgeRow {
   projectId: string;
   applicationId: string;
   semanticKey: string;
+  frameContext: string;
   selector: string;
   confidenceScore: number;
   usageCount: number;
@@ -20,11 +23,12 @@ export interface SelectorKnowledgeRow {
 export async function findSelector(
   projectId: string,
   applicationId: string,
-  semanticKey: string
+  semanticKey: string,
+  frameContext = ""
 ): Promise<SelectorKnowledgeRow | null> {
   const row = await prisma.selectorKnowledge.findUnique({
     where: {
-      projectId_applicationId_semanticKey: { projectId, applicationId, semanticKey },
+      projectId_applicationId_frameContext_semanticKey: { projectId, applicationId, frameContext, semanticKey },
     },
   });
   return row;
@@ -34,15 +38,19 @@ export async function upsertSelector(params: {
   projectId: string;
   applicationId: string;
   semanticKey: string;
+  /** "" / unset = main page. */
+  frameContext?: string;
   selector: string;
   confidenceScore?: number;
 }): Promise<SelectorKnowledgeRow> {
   const now = new Date();
+  const frameContext = params.frameContext ?? "";
   const row = await prisma.selectorKnowledge.upsert({
     where: {
-      projectId_applicationId_semanticKey: {
+      projectId_applicationId_frameContext_semanticKey: {
         projectId: params.projectId,
         applicationId: params.applicationId,
+        frameContext,
         semanticKey: params.semanticKey,
       },
     },
@@ -50,6 +58,7 @@ export async function upsertSelector(params: {
       projectId: params.projectId,
       applicationId: params.applicationId,
       semanticKey: params.semanticKey,
+      frameContext,
       selector: params.selector,
       confidenceScore: params.confidenceScore ?? 1.0,
       usageCount: 1,
@@ -69,7 +78,8 @@ export async function upsertSelector(params: {
 export async function incrementUsageCount(
   projectId: string,
   applicationId: string,
-  semanticKey: string
+  semanticKey: string,
+  frameContext = ""
 ): Promise<void> {
   const now = new Date();
   await prisma.selectorKnowledge.updateMany({
@@ -77,6 +87,7 @@ export async function incrementUsageCount(
       projectId,
       applicationId,
       semanticKey,
+      frameContext,
     },
     data: {
       usageCount: { increment: 1 },
@@ -3,17 +3,22 @@
  * Returns stored selector string and resolvedFrom for step metadata.
  */
 
-import type { Page } from "playwright";
+import type { Frame, Page } from "playwright";
 import { resolveStep, type ResolvedFrom } from "@/lib/ai/step-resolver";
+import { inferInteractionAction } from "@/lib/interaction/interaction-parser";
 
 export interface ResolveWithAIOptions {
   projectId?: string;
   applicationId?: string;
   semanticKey?: string;
-  /** When provided, interactive snapshot is built and injected into AI prompt */
-  page?: Page;
+  /** Page / frame context of the step ("" = main page); part of the knowledge key */
+  frameContext?: string;
+  /** When provided, interactive snapshot is built and injected into AI prompt (the active frame inside an iframe) */
+  page?: Page | Frame;
   /** When true, skip knowledge lookup (caller already checked) to avoid duplicate DB query */
   skipKnowledgeLookup?: boolean;
+  /** Step action (e.g. "check", "drop") for the action-aware prompt; inferred from the description when absent */
+  action?: string;
 }
 
 export interface ResolveWithAIResult {
@@ -26,7 +31,7 @@ export async function resolveWithAI(
   domSnapshot?: string,
   options?: ResolveWithAIOptions
 ): Promise<ResolveWithAIResult> {
-  const action = inferAction(stepDescription);
+  const action = options?.action ?? inferAction(stepDescription);
   const result = await resolveStep({
     action,
     target: stepDescription,
@@ -34,6 +39,7 @@ export async function resolveWithAI(
     projectId: options?.projectId,
     applicationId: options?.applicationId,
     semanticKey: options?.semanticKey,
+    frameContext: options?.frameContext,
     page: options?.page,
     skipKnowledgeLookup: options?.skipKnowledgeLookup,
   });
@@ -43,6 +49,8 @@ export async function resolveWithAI(
 
 function inferAction(stepText: string): string {
   const t = stepText.toLowerCase();
+  const interaction = inferInteractionAction(stepText);
+  if (interaction) return interaction;
   if (t.includes("click") || t.includes("press") || t.includes("submit")) return "click";
   if (t.includes("fill") || t.includes("type") || t.includes("enter")) return "fill";
   if (t.includes("select")) return "select";
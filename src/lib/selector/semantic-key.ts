@@ -18,6 +18,7 @@
  * - action="click" and target exactly equals "login" → "login_button"
  * - action="click" and target includes "register" → "register_button"
  * - action="assert_text" → "assert_container"
+ * - action="check" | "uncheck" → "check_<box>" without tick/check/checkbox words, so ticking and unticking share a selector
  * - Fallback → `${action}_${normalized_target_with_underscores}`
  */
 export function buildSemanticKey(action: string, target: string): string {
@@ -38,6 +39,13 @@ export function buildSemanticKey(action: string, target: string): string {
   if (actionLower === "assert_text") {
     return "assert_container";
   }
+  if (actionLower === "check" || actionLower === "uncheck") {
+    const box = normalized
+      .replace(/\b(?:un\s?tick|tick|un\s?check|check\s?box|check|the|box)\b/g, " ")
+      .replace(/\s+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    return `check_${box || "target"}`;
+  }
 
   // Fallback: action_normalized_target
   const safeAction = actionLower.replace(/\s+/g, "_").replace(/[^a-z0-9_]/g, "") || "click";
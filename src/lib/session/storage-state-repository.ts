@@ -0,0 +1,71 @@
+/**
+ * Cached E2E login sessions (Playwright storageState) per environment + credential role.
+ * The state holds cookies and tokens, so it is stored encrypted like Environment credentials.
+ */
+
+import * as crypto from "crypto";
+import { prisma } from "@/lib/db/client";
+import { decrypt, encrypt } from "@/lib/encryption";
+
+export interface StorageStateKey {
+  environmentId: string;
+  /** Credential role; null / "" = default credential. */
+  role: string | null | undefined;
+}
+
+/** Same shape as Playwright's BrowserContext.storageState() result (kept Playwright-free for the app bundle). */
+export interface CachedStorageState {
+  cookies: Array<Record<string, unknown>>;
+  origins: Array<{ origin: string; localStorage: Array<{ name: string; value: string }> }>;
+}
+
+function roleKey(role: string | null | undefined): string {
+  return (role ?? "").trim().toLowerCase();
+}
+
+/** Fingerprint of the credential the session was created with; a changed username or password invalidates it. */
+export function credentialFingerprint(username: string, password: string): string {
+  return crypto.createHash("sha256").update(`${username}\0${password}`).digest("hex");
+}
+
+/** Valid cached state for this key and credential, or null when missing, expired, for another credential, or unreadable. */
+export async function loadStorageState(
+  key: StorageStateKey,
+  fingerprint: string
+): Promise<CachedStorageState | null> {
+  const row = await prisma.authSession.findUnique({
+    where: { environmentId_role: { environmentId: key.environmentId, role: roleKey(key.role) } },
+  });
+  if (!row || row.expiresAt.getTime() <= Date.now() || row.credentialFingerprint !== fingerprint) return null;
+  try {
+    return JSON.parse(decrypt(row.storageStateEnc)) as CachedStorageState;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveStorageState(
+  key: StorageStateKey,
+  fingerprint: string,
+  state: CachedStorageState,
+  ttlMinutes: number
+): Promise<void> {
+  const role = roleKey(key.role);
+  const data = {
+    storageStateEnc: encrypt(JSON.stringify(state)),
+    credentialFingerprint: fingerprint,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+  };
+  await prisma.authSession.upsert({
+    where: { environmentId_role: { environmentId: key.environmentId, role } },
+    create: { environmentId: key.environmentId, role, ...data },
+    update: data,
+  });
+}
+
+/** Drop the cached session (e.g. the app rejected it and showed the login page again). */
+export async function invalidateStorageState(key: StorageStateKey): Promise<void> {
+  await prisma.authSession.deleteMany({
+    where: { environmentId: key.environmentId, role: roleKey(key.role) },
+  });
+}
@@ -87,10 +87,12 @@ function buildPublicUrl(key: string, cfg: Awaited<ReturnType<typeof getS3Config>
   return `https://${cfg.bucket}.s3.${cfg.region}.amazonaws.com/${key}`;
 }
 
+/** private: always upload with the "private" ACL, whatever s3_acl says (fixture files, sensitive artifacts). */
 export async function uploadArtifact(
   key: string,
   body: Buffer | Uint8Array,
-  contentType: string
+  contentType: string,
+  options: { private?: boolean } = {}
 ): Promise<UploadResult> {
   const cfg = await getS3Config();
   const client = createClient(cfg);
@@ -101,7 +103,7 @@ export async function uploadArtifact(
       Key: fullKey,
       Body: body,
       ContentType: contentType,
-      ...(cfg.acl && { ACL: cfg.acl as ObjectCannedACL }),
+      ...(options.private ? { ACL: "private" as ObjectCannedACL } : cfg.acl && { ACL: cfg.acl as ObjectCannedACL }),
     })
   );
   return {
@@ -149,7 +151,7 @@ export async function exists(key: string): Promise<boolean> {
   }
 }
 
-/** Key prefix for execution artifacts: executions/{executionId}/video.webm | screenshot-N.png */
+/** Key prefix for execution artifacts: executions/{executionId}/video.webm | trace.zip | screenshot-N.png */
 export function executionArtifactPrefix(executionId: string): string {
   return `executions/${executionId}/`;
 }
@@ -158,12 +160,61 @@ export function executionVideoKey(executionId: string): string {
   return `${executionArtifactPrefix(executionId)}video.webm`;
 }
 
+export function executionTraceKey(executionId: string): string {
+  return `${executionArtifactPrefix(executionId)}trace.zip`;
+}
+
+export function executionHarKey(executionId: string): string {
+  return `${executionArtifactPrefix(executionId)}network.har`;
+}
+
+/** Video, trace or HAR of the context a switch_actor step opened (actorIndex 1 = first actor switched to). */
+export function executionActorArtifactKey(
+  executionId: string,
+  actorIndex: number,
+  file: "video.webm" | "trace.zip" | "network.har"
+): string {
+  return `${executionArtifactPrefix(executionId)}actors/${actorIndex}/${file}`;
+}
+
+export function executionConsoleLogKey(executionId: string): string {
+  return `${executionArtifactPrefix(executionId)}console.json`;
+}
+
 export function executionScreenshotKey(executionId: string, index: number): string {
   return `${executionArtifactPrefix(executionId)}screenshot-${index}.png`;
 }
 
+/** Key for a visual_match screenshot captured during an execution: actual screenshot or diff image. */
+export function executionVisualKey(executionId: string, stepIndex: number, kind: "actual" | "diff"): string {
+  return `${executionArtifactPrefix(executionId)}visual-${stepIndex}-${kind}.png`;
+}
+
+/** Key for a file captured by a "download" step; the name is sanitised to a safe object key segment. */
+export function executionDownloadKey(executionId: string, stepIndex: number, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, "_").slice(0, 120) || "download";
+  return `${executionArtifactPrefix(executionId)}downloads/step-${stepIndex}-${safeName}`;
+}
+
+/** Key for an approved visual baseline; versioned so each approval writes a new object. */
+export function visualBaselineKey(
+  testCaseId: string,
+  environmentId: string,
+  browserEngine: string,
+  viewport: string,
+  stepIndex: number,
+  version: number
+): string {
+  return `visual-baselines/${testCaseId}/${environmentId}/${browserEngine}/${viewport}/step-${stepIndex}-${version}.png`;
+}
+
+/** Key for a project fixture file (used by "upload" steps): fixtures/{projectId}/{fileName} */
+export function projectFixtureKey(projectId: string, fileName: string): string {
+  return `fixtures/${projectId}/${fileName}`;
+}
+
 /**
- * Delete all S3 objects under executions/{executionId}/ (video + screenshots).
+ * Delete all S3 objects under executions/{executionId}/ (video, trace, screenshots).
  * Call this before deleting an Execution (or before deleting a TestCase that cascades to Executions)
  * so that storage is cleaned up. Safe to call when S3 is not configured or prefix is empty.
  */
@@ -3,6 +3,7 @@
  */
 
 import { z } from "zod";
+import { DEVICE_PROFILES } from "@/lib/device-profiles";
 
 // ----- Structured test plan (JSONB) -----
 
@@ -15,7 +16,27 @@ export const stepActionSchema = z.enum([
   "assert_text",
   "assert_visible",
   "assert_url",
+  "assert_no_console_errors",
+  "assert_visual_match",
+  "assert_accessibility",
   "wait",
+  "upload",
+  "double_click",
+  "check",
+  "uncheck",
+  "drag",
+  "press_key",
+  "scroll",
+  "switch_frame",
+  "switch_page",
+  "switch_main",
+  "accept_dialog",
+  "dismiss_dialog",
+  "download",
+  "copy",
+  "extract",
+  "switch_actor",
+  "enter_otp",
   "api_request",
 ]);
 
@@ -54,10 +75,15 @@ const e2eCredentialSchema = z.object({
   role: z.string().max(255).optional(),
   username: z.string().min(1),
   password: z.string(),
+  /** Base32 TOTP secret or otpauth:// URI; blank keeps the stored one on update, null removes it. */
+  totpSecret: z.string().max(1000).nullable().optional(),
 });
 
 export const apiAuthModeEnum = z.enum(["NONE", "BASIC_AUTH", "BEARER_TOKEN"]);
 export const e2eAuthModeEnum = z.enum(["ALWAYS_AUTH", "NEVER_AUTH", "CONDITIONAL"]);
+export const browserEngineEnum = z.enum(["chromium", "firefox", "webkit"]);
+/** Playwright device descriptor name; null clears the profile (desktop default). */
+export const deviceProfileSchema = z.enum(DEVICE_PROFILES).nullable();
 
 export const createEnvironmentSchema = z.object({
   projectId: z.string().cuid(),
@@ -69,6 +95,8 @@ export const createEnvironmentSchema = z.object({
   isActive: z.boolean().optional(),
   apiAuthMode: apiAuthModeEnum.optional(),
   e2eAuthMode: e2eAuthModeEnum.optional(),
+  browserEngine: browserEngineEnum.optional(),
+  deviceProfile: deviceProfileSchema.optional(),
   // API credentials (BASIC_AUTH: appKey+secretKey; BEARER_TOKEN: apiToken)
   appKey: z.string().optional(),
   secretKey: z.string().optional(),
@@ -89,6 +117,10 @@ export const createApplicationSchema = z.object({
   enabled: z.boolean().default(true),
   platform: z.string().max(255).optional(),
   testTypes: z.array(z.enum(["API", "E2E"])).optional(),
+  deviceProfile: deviceProfileSchema.optional(),
+  /** Login page signature for CONDITIONAL E2E auth; null on both = detect a visible password field. */
+  loginUrlPattern: z.string().max(500).nullable().optional(),
+  loginMarkerSelector: z.string().max(500).nullable().optional(),
 });
 
 export const updateApplicationSchema = createApplicationSchema
@@ -185,6 +217,24 @@ export const dataRequirementSchema = z
 export type DataRequirementItem = z.infer<typeof dataRequirementItemSchema>;
 export type DataRequirement = z.infer<typeof dataRequirementSchema>;
 
+/** Route-interception rule for E2E runs (stored in TestCase.networkMocks, applied by the Playwright runner). */
+export const networkMockRuleSchema = z
+  .object({
+    url: z.string().min(1).max(2000),
+    method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"]).nullable().optional(),
+    status: z.number().int().min(100).max(599).nullable().optional(),
+    body: z.string().max(100_000).nullable().optional(),
+    content_type: z.string().max(255).nullable().optional(),
+    delay_ms: z.number().int().min(0).max(120_000).nullable().optional(),
+  })
+  .refine((r) => r.status != null || r.body != null || (r.delay_ms ?? 0) > 0, {
+    message: "rule must set a status, a body or a delay",
+  });
+
+export const networkMocksSchema = z.array(networkMockRuleSchema).max(50);
+
+export type NetworkMockRuleInput = z.infer<typeof networkMockRuleSchema>;
+
 const testCaseCategoryEnum = z.enum([
   "FUNCTIONAL", "NEGATIVE", "VALIDATION", "SECURITY", "ROLE_BASED", "DATA_MASKING",
   "ACCESS_CONTROL", "ERROR_HANDLING", "EDGE_CASE", "COMPLIANCE",
@@ -194,6 +244,12 @@ const testCaseDataConditionEnum = z.enum([
   "STATEFUL_DEPENDENCY", "CROSS_ENTITY_DEPENDENCY",
 ]);
 
+/** Test case labels (smoke, regression, ...): trimmed, lower-cased, de-duplicated. */
+const testCaseTagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(50))
+  .max(20)
+  .transform((tags) => [...new Set(tags)]);
+
 export const createTestCaseSchema = z.object({
   projectId: z.string().cuid(),
   ticketId: z.string().cuid().optional(),
@@ -209,7 +265,9 @@ export const createTestCaseSchema = z.object({
   data_condition: testCaseDataConditionEnum.optional(),
   data_requirement: dataRequirementSchema.optional().nullable().default([]),
   setup_hint: z.string().max(2000).nullable().optional(),
+  network_mocks: networkMocksSchema.optional(),
   structuredPlan: structuredPlanSchema.optional(),
+  tags: testCaseTagsSchema.optional(),
   source: z.enum(["manual", "import", "n8n", "AI"]).optional(),
   primaryActor: z.string().max(100).nullable().optional(),
 });
@@ -228,8 +286,10 @@ export const updateTestCaseSchema = z.object({
   data_condition: testCaseDataConditionEnum.optional(),
   data_requirement: dataRequirementSchema.optional().nullable(),
   setup_hint: z.string().max(2000).nullable().optional(),
+  network_mocks: networkMocksSchema.nullable().optional(),
   structuredPlan: structuredPlanSchema.optional(),
   ignoreReason: z.string().max(2000).nullable().optional(),
+  tags: testCaseTagsSchema.optional(),
   primaryActor: z.string().max(100).nullable().optional(),
 });
 
@@ -239,21 +299,91 @@ export const triggerExecutionSchema = z.object({
   projectId: z.string().cuid(),
   environmentId: z.string().cuid(),
   testCaseIds: z.array(z.string().cuid()).min(1),
+  /** E2E only; defaults to the environment's browser engine. */
+  browserEngine: browserEngineEnum.optional(),
+  /** API-key callers only: "CI" records the test run as a CI trigger instead of a plain API one. */
+  trigger: z.enum(["API", "CI"]).optional(),
+});
+
+/** Approve the actual screenshot of a visual_match step as the new baseline. */
+export const approveVisualBaselineSchema = z.object({
+  stepIndex: z.number().int().min(0),
 });
 
 // ----- Schedule -----
 
+/**
+ * Re-queue FAILED executions of a scheduled run, each attempt as a new execution.
+ * retryOn "selector_or_infra" skips deterministic failures (business / unverified-data assertions, timeouts).
+ */
 export const retryPolicySchema = z.object({
   maxRetries: z.number().int().min(0).max(10),
   backoffMs: z.number().int().min(0),
+  retryOn: z.enum(["any", "selector_or_infra"]).optional(),
 });
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+/** Saved test case selection of a schedule; every non-empty list narrows the picked test cases. */
+export const scheduleSelectionFilterSchema = z.object({
+  priorities: z.array(z.enum(["CRITICAL", "HIGH", "MEDIUM", "LOW"])).optional(),
+  categories: z.array(testCaseCategoryEnum).optional(),
+  applicationIds: z.array(z.string().cuid()).optional(),
+  testTypes: z.array(z.enum(["API", "E2E"])).optional(),
+  /** Test case carries at least one of these tags. */
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(50)).optional(),
+  ticketStatuses: z.array(z.enum(["DRAFT", "READY_TO_TEST", "DONE", "CANCEL"])).optional(),
+});
+export type ScheduleSelectionFilter = z.infer<typeof scheduleSelectionFilterSchema>;
+
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+/**
+ * Period without scheduled runs, read in the schedule's timezone.
+ * weekly: days 0 = Sunday; an end before start runs past midnight, equal start and end blocks the whole day.
+ * dates: whole days from..to inclusive (e.g. public holidays).
+ */
+export const blackoutWindowSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("weekly"),
+    label: z.string().max(100).optional(),
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  }),
+  z.object({
+    type: z.literal("dates"),
+    label: z.string().max(100).optional(),
+    from: calendarDateSchema,
+    to: calendarDateSchema,
+  }),
+]);
+export type BlackoutWindow = z.infer<typeof blackoutWindowSchema>;
+
+export const blackoutWindowsSchema = z
+  .array(blackoutWindowSchema)
+  .max(50)
+  .refine((list) => list.every((w) => w.type !== "dates" || w.from <= w.to), "Blackout dates must end on or after their start");
 
 export const createScheduleSchema = z.object({
   projectId: z.string().cuid(),
   environmentIds: z.array(z.string().cuid()).min(1),
   name: z.string().min(1).max(255),
   cronExpression: z.string().min(1),
+  timezone: z.string().min(1).refine(isValidTimeZone, "Unknown IANA timezone").optional(),
+  blackoutWindows: blackoutWindowsSchema.nullable().optional(),
   testCaseIds: z.array(z.string().cuid()).optional().default([]),
+  selectionFilter: scheduleSelectionFilterSchema.nullable().optional(),
+  browserEngines: z.array(browserEngineEnum).optional(),
   concurrencyLimit: z.number().int().min(1).max(20).optional(),
   retryPolicy: retryPolicySchema.optional(),
   isActive: z.boolean().optional(),
@@ -261,6 +391,13 @@ export const createScheduleSchema = z.object({
 
 export const updateScheduleSchema = createScheduleSchema.omit({ projectId: true }).partial();
 
+/** Count the test cases a schedule with this selection would pick (before saving it). */
+export const previewScheduleSelectionSchema = z.object({
+  projectId: z.string().cuid(),
+  testCaseIds: z.array(z.string().cuid()).optional().default([]),
+  selectionFilter: scheduleSelectionFilterSchema.nullable().optional(),
+});
+
 // ----- Data Knowledge -----
 
 export const createDataKnowledgeSchema = z.object({
@@ -0,0 +1,93 @@
+/**
+ * Local PNG pixel diff for visual_match assertions (pixelmatch). No network, no AI.
+ * Ignore regions are blanked in both images before comparing so they never count as differences.
+ */
+
+import { PNG } from "pngjs";
+import pixelmatch from "pixelmatch";
+
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PixelDiffResult =
+  | {
+      sizeMismatch: true;
+      baseline: { width: number; height: number };
+      actual: { width: number; height: number };
+    }
+  | {
+      sizeMismatch: false;
+      width: number;
+      height: number;
+      diffPixels: number;
+      /** Share of differing pixels in percent (0–100). */
+      diffPercent: number;
+      /** PNG with differing pixels highlighted over a faded copy of the actual image. */
+      diffImage: Buffer;
+    };
+
+/** Width/height of a PNG buffer. */
+export function readPngSize(png: Buffer): { width: number; height: number } {
+  const { width, height } = PNG.sync.read(png);
+  return { width, height };
+}
+
+function blankRegions(img: PNG, regions: PixelRegion[]): void {
+  for (const r of regions) {
+    const x0 = Math.max(0, Math.floor(r.x));
+    const y0 = Math.max(0, Math.floor(r.y));
+    const x1 = Math.min(img.width, Math.ceil(r.x + r.width));
+    const y1 = Math.min(img.height, Math.ceil(r.y + r.height));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * img.width + x) * 4;
+        img.data[i] = 0;
+        img.data[i + 1] = 0;
+        img.data[i + 2] = 0;
+        img.data[i + 3] = 255;
+      }
+    }
+  }
+}
+
+/**
+ * Compare two PNG screenshots. pixelThreshold is pixelmatch's per-pixel colour sensitivity (0–1, lower = stricter).
+ * Images of different sizes are not compared (sizeMismatch).
+ */
+export function diffPngImages(
+  baselinePng: Buffer,
+  actualPng: Buffer,
+  options: { pixelThreshold: number; ignoreRegions?: PixelRegion[] }
+): PixelDiffResult {
+  const baseline = PNG.sync.read(baselinePng);
+  const actual = PNG.sync.read(actualPng);
+  if (baseline.width !== actual.width || baseline.height !== actual.height) {
+    return {
+      sizeMismatch: true,
+      baseline: { width: baseline.width, height: baseline.height },
+      actual: { width: actual.width, height: actual.height },
+    };
+  }
+  const { width, height } = actual;
+  if (options.ignoreRegions?.length) {
+    blankRegions(baseline, options.ignoreRegions);
+    blankRegions(actual, options.ignoreRegions);
+  }
+  const diff = new PNG({ width, height });
+  const diffPixels = pixelmatch(baseline.data, actual.data, diff.data, width, height, {
+    threshold: options.pixelThreshold,
+  });
+  const total = width * height;
+  return {
+    sizeMismatch: false,
+    width,
+    height,
+    diffPixels,
+    diffPercent: total > 0 ? (diffPixels / total) * 100 : 0,
+    diffImage: PNG.sync.write(diff),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Lookup + storage for approved visual baselines (visual_match assertion).
+ * One baseline per (test case, environment, browser engine, viewport, step); the image lives in S3, this table holds the metadata.
+ */
+
+import type { BrowserEngine } from "@prisma/client";
+import { prisma } from "@/lib/db/client";
+import { getArtifact, uploadArtifact, visualBaselineKey } from "@/lib/storage/s3";
+import { readPngSize } from "@/lib/visual/pixel-diff";
+
+export interface VisualBaselineKey {
+  testCaseId: string;
+  environmentId: string;
+  browserEngine: BrowserEngine;
+  viewport: string;
+  stepIndex: number;
+}
+
+export interface VisualBaselineRow extends VisualBaselineKey {
+  id: string;
+  storageKey: string;
+  imageUrl: string;
+  width: number;
+  height: number;
+  sourceExecutionId: string | null;
+  approvedById: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Viewport key used to separate baselines: "<width>x<height>@<deviceScaleFactor>x". */
+export function buildViewportKey(
+  viewport: { width: number; height: number },
+  deviceScaleFactor = 1
+): string {
+  return `${viewport.width}x${viewport.height}@${deviceScaleFactor}x`;
+}
+
+export async function findVisualBaseline(key: VisualBaselineKey): Promise<VisualBaselineRow | null> {
+  return prisma.visualBaseline.findUnique({
+    where: { testCaseId_environmentId_browserEngine_viewport_stepIndex: key },
+  });
+}
+
+/** Load baseline image from S3. Returns null when there is no baseline or its object is missing. */
+export async function loadVisualBaseline(
+  key: VisualBaselineKey
+): Promise<{ baseline: VisualBaselineRow; content: Buffer } | null> {
+  const baseline = await findVisualBaseline(key);
+  if (!baseline) return null;
+  const content = await getArtifact(baseline.storageKey);
+  if (!content) return null;
+  return { baseline, content };
+}
+
+/** Upload a PNG as the approved baseline and create or replace the row for its key. */
+export async function approveVisualBaseline(
+  params: VisualBaselineKey & {
+    content: Buffer;
+    sourceExecutionId?: string | null;
+    approvedById?: string | null;
+  }
+): Promise<VisualBaselineRow> {
+  const { testCaseId, environmentId, browserEngine, viewport, stepIndex } = params;
+  const { width, height } = readPngSize(params.content);
+  const storageKey = visualBaselineKey(testCaseId, environmentId, browserEngine, viewport, stepIndex, Date.now());
+  const { url } = await uploadArtifact(storageKey, params.content, "image/png");
+  const data = {
+    storageKey,
+    imageUrl: url,
+    width,
+    height,
+    sourceExecutionId: params.sourceExecutionId ?? null,
+    approvedById: params.approvedById ?? null,
+  };
+  return prisma.visualBaseline.upsert({
+    where: {
+      testCaseId_environmentId_browserEngine_viewport_stepIndex: { testCaseId, environmentId, browserEngine, viewport, stepIndex },
+    },
+    create: { testCaseId, environmentId, browserEngine, viewport, stepIndex, ...data },
+    update: data,
+  });
+}
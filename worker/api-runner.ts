@@ -0,0 +1,436 @@
+/**
+ * API execution: run API-type test cases from execution.agent_execution with native HTTP (fetch). No browser, no AI.
+ * Each api_request step sends one request against Environment.baseUrl; request/response pairs go to stepLog.
+ * step.extract saves response values into runtime variables so later steps can use <VAR> / {{VAR}} (request chaining).
+ */
+
+import type {
+  AgentExecution,
+  AgentExecutionApiRequest,
+  AgentExecutionAssertion,
+  AgentExecutionExtraction,
+} from "../src/lib/agent-execution-types";
+import { evaluateJsonPath } from "../src/lib/api-request/json-path";
+import { toAssertionRegExp } from "../src/lib/assertion/assertion-mapper-service";
+import { replacePlaceholders } from "../src/core/data-preparation";
+import { isValidUrl } from "../src/lib/url-validation";
+import {
+  aggregateExecutionStatus,
+  type ApiCallLog,
+  type ExecutionMetadata,
+  maskExtractedValue,
+  type RunResult,
+  type StepFailureType,
+  type StepLogEntry,
+  type TestDataMeta,
+} from "./playwright-runner";
+
+/** Auth applied to every request (from Environment.apiAuthMode + decrypted appKeyEnc/secretKeyEnc/apiTokenEnc). */
+export interface ApiAuthConfig {
+  mode: "NONE" | "BASIC_AUTH" | "BEARER_TOKEN";
+  appKey?: string;
+  secretKey?: string;
+  apiToken?: string;
+}
+
+/** Options when running an API test case from execution.agent_execution. */
+export interface RunApiFromAgentExecutionOptions {
+  baseUrl: string;
+  agentExecution: AgentExecution;
+  auth: ApiAuthConfig;
+  executionId: string;
+  variables?: Record<string, string>;
+  testDataMeta?: TestDataMeta;
+  /** Caps the per-request limit for steps without their own timeout_ms; 0/undefined = 30s default only. */
+  stepTimeoutMs?: number;
+  /** Aborted when the execution deadline passes; remaining steps are skipped. */
+  signal?: AbortSignal;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+/** Max characters of a request/response body kept in stepLog (JSONB). */
+const MAX_LOGGED_BODY_CHARS = 10000;
+const MASKED_HEADERS = new Set(["authorization", "cookie", "set-cookie", "x-api-key"]);
+
+/** Resolve request path against baseUrl; absolute http(s) URLs are used as-is. */
+function buildRequestUrl(baseUrl: string, path: string): string {
+  if (isValidUrl(path)) return path;
+  const base = baseUrl.replace(/\/$/, "");
+  return `${base}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+function buildAuthHeaders(auth: ApiAuthConfig): Record<string, string> {
+  if (auth.mode === "BASIC_AUTH" && auth.appKey) {
+    const token = Buffer.from(`${auth.appKey}:${auth.secretKey ?? ""}`).toString("base64");
+    return { Authorization: `Basic ${token}` };
+  }
+  if (auth.mode === "BEARER_TOKEN" && auth.apiToken) {
+    return { Authorization: `Bearer ${auth.apiToken}` };
+  }
+  return {};
+}
+
+function maskHeaders(headers: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers)) {
+    out[k] = MASKED_HEADERS.has(k.toLowerCase()) ? "****" : v;
+  }
+  return out;
+}
+
+/** Keep bodies small in stepLog: oversized values are stored as a truncated string. */
+function truncateBody(body: unknown): unknown {
+  if (body === undefined || body === null) return body;
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  if (text.length <= MAX_LOGGED_BODY_CHARS) return body;
+  return text.slice(0, MAX_LOGGED_BODY_CHARS) + "…";
+}
+
+/** Shortest extracted value masked in logs; shorter ones (ids like "42") would mangle unrelated text. */
+const MIN_MASKED_VALUE_LENGTH = 4;
+
+/** Replace extracted values (tokens, session ids) in logged text with their masked form. */
+function maskExtractedValues(text: string, secrets: string[]): string {
+  let out = text;
+  for (const secret of secrets) out = out.split(secret).join(maskExtractedValue(secret));
+  return out;
+}
+
+function maskLoggedBody(body: unknown, secrets: string[]): unknown {
+  if (body === undefined || body === null || secrets.length === 0) return body;
+  if (typeof body === "string") return maskExtractedValues(body, secrets);
+  try {
+    return JSON.parse(maskExtractedValues(JSON.stringify(body), secrets));
+  } catch {
+    return maskExtractedValues(JSON.stringify(body), secrets);
+  }
+}
+
+/** stepLog copy of a request/response pair with extracted values masked like the other secrets. */
+function maskApiCall(apiCall: ApiCallLog, secrets: string[]): ApiCallLog {
+  if (secrets.length === 0) return apiCall;
+  const maskValues = (headers: Record<string, string>) =>
+    Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, maskExtractedValues(v, secrets)]));
+  return {
+    request: {
+      ...apiCall.request,
+      url: maskExtractedValues(apiCall.request.url, secrets),
+      headers: maskValues(apiCall.request.headers),
+      body: maskLoggedBody(apiCall.request.body, secrets),
+    },
+    response: apiCall.response && {
+      ...apiCall.response,
+      headers: maskValues(apiCall.response.headers),
+      body: maskLoggedBody(apiCall.response.body, secrets),
+    },
+  };
+}
+
+function parseResponseBody(text: string, contentType: string | null): unknown {
+  if (!text) return undefined;
+  if (contentType?.includes("json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/** Apply <PLACEHOLDER> replacement to path, header values and body. */
+function applyVariables(
+  request: AgentExecutionApiRequest,
+  variables: Record<string, string>
+): AgentExecutionApiRequest {
+  const headers: Record<string, string> = {};
+  for (const [k, v] of Object.entries(request.headers ?? {})) {
+    headers[k] = replacePlaceholders(v, variables) ?? v;
+  }
+  let body = request.body;
+  if (typeof body === "string") {
+    body = replacePlaceholders(body, variables);
+  } else if (body !== undefined) {
+    const replaced = replacePlaceholders(JSON.stringify(body), variables) ?? "";
+    try {
+      body = JSON.parse(replaced);
+    } catch {
+      body = replaced;
+    }
+  }
+  return {
+    method: request.method,
+    path: replacePlaceholders(request.path, variables) ?? request.path,
+    headers,
+    ...(body !== undefined && { body }),
+  };
+}
+
+type LastResponse = { status: number; bodyText: string; body: unknown; headers: Headers };
+
+/** Resolve one extraction against the response. Throws when the path does not resolve. */
+function extractFromResponse(extraction: AgentExecutionExtraction, response: LastResponse): string {
+  let value: unknown;
+  if (extraction.path.toLowerCase().startsWith("header:")) {
+    value = response.headers.get(extraction.path.slice("header:".length)) ?? undefined;
+  } else {
+    value = evaluateJsonPath(response.body, extraction.path);
+  }
+  if (value === undefined || value === null) {
+    throw new Error(`Extraction failed: ${extraction.path} not found in response (for ${extraction.variable})`);
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** Assertion types checked against the response; anything else is UI-only. */
+const API_ASSERTION_TYPES = new Set(["status_code", "text_contains", "text_not_contains", "text_matches"]);
+
+/** Evaluate a response assertion. Returns an error message on failure; UI-only assertion types are ignored. */
+function evaluateApiAssertion(
+  assertion: AgentExecutionAssertion,
+  lastResponse: LastResponse | null
+): { error: string; failureType: StepFailureType } | null {
+  if (!API_ASSERTION_TYPES.has(assertion.type)) return null;
+  if (!lastResponse) {
+    return { error: "No API response to assert on (no request step ran before this assertion)", failureType: "ACTION_EXECUTION_ERROR" };
+  }
+  if (assertion.type === "status_code" && assertion.value != null) {
+    const expected = Number(assertion.value);
+    if (lastResponse.status !== expected) {
+      return {
+        error: `Expected status ${expected}, got: ${lastResponse.status}`,
+        failureType: "ASSERTION_FAILED",
+      };
+    }
+  }
+  if (assertion.type === "text_contains" && assertion.value != null) {
+    const expected = String(assertion.value);
+    if (!lastResponse.bodyText.includes(expected)) {
+      return {
+        error: `Expected response body to contain "${expected}", got: ${lastResponse.bodyText.slice(0, 100)}`,
+        failureType: "ASSERTION_FAILED",
+      };
+    }
+  }
+  if (assertion.type === "text_not_contains" && assertion.value != null) {
+    const unexpected = String(assertion.value);
+    if (lastResponse.bodyText.includes(unexpected)) {
+      return { error: `Expected response body not to contain "${unexpected}"`, failureType: "ASSERTION_FAILED" };
+    }
+  }
+  if (assertion.type === "text_matches") {
+    const regex = toAssertionRegExp(assertion.value);
+    if (!regex) {
+      return { error: `Invalid pattern in assertion: ${String(assertion.value)}`, failureType: "ACTION_EXECUTION_ERROR" };
+    }
+    if (!regex.test(lastResponse.bodyText)) {
+      return {
+        error: `Expected response body matching ${regex}, got: ${lastResponse.bodyText.slice(0, 100)}`,
+        failureType: "ASSERTION_FAILED",
+      };
+    }
+  }
+  return null;
+}
+
+function describeAssertion(assertion: AgentExecutionAssertion): string | null {
+  if (assertion.type === "status_code") return `Verify response status is ${assertion.value}`;
+  if (assertion.type === "text_contains" && assertion.value != null) return `Verify response body contains "${assertion.value}"`;
+  if (assertion.type === "text_not_contains" && assertion.value != null) {
+    return `Verify response body does not contain "${assertion.value}"`;
+  }
+  if (assertion.type === "text_matches") return `Verify response body matches ${assertion.value}`;
+  return null;
+}
+
+/**
+ * Run an API test case from execution.agent_execution. Steps run in order; a failed step does not stop later steps
+ * (same as the Playwright runner), but assertions always check the most recent response.
+ */
+export async function runApiExecutionFromAgentExecution(
+  options: RunApiFromAgentExecutionOptions
+): Promise<RunResult> {
+  const { baseUrl, agentExecution, auth, testDataMeta, stepTimeoutMs = 0, signal } = options;
+  // Copy: extracted values are added during the run and must not leak into the caller's map
+  const variables: Record<string, string> = { ...(options.variables ?? {}) };
+  /** Values saved by step.extract; masked wherever they show up in stepLog / readableSteps. */
+  const extractedSecrets: string[] = [];
+  const stepLog: StepLogEntry[] = [];
+  const readableSteps: string[] = [];
+  const startTime = Date.now();
+  let passed = true;
+  let lastError: string | undefined;
+  let executionTimedOut = false;
+
+  const test_data: ExecutionMetadata["test_data"] = {
+    auth_mode: auth.mode,
+    ...(Object.keys(variables).length ? variables : {}),
+    source: testDataMeta?.source ?? "FIXED",
+    verified: testDataMeta?.verified ?? true,
+    previously_passed: testDataMeta?.previously_passed ?? false,
+  };
+  const executionMetadata: ExecutionMetadata = {
+    base_url: baseUrl,
+    test_data,
+  };
+  const isUnverifiedData =
+    test_data.source === "AI_SIMULATION" &&
+    test_data.verified === false &&
+    test_data.previously_passed !== true;
+
+  const authHeaders = buildAuthHeaders(auth);
+  let lastResponse: LastResponse | null = null;
+  const steps = [...agentExecution.steps].sort((a, b) => a.stepIndex - b.stepIndex);
+
+  for (const step of steps) {
+    if (signal?.aborted) {
+      executionTimedOut = true;
+      passed = false;
+      lastError = "Execution exceeded its time limit; remaining steps were not run";
+      break;
+    }
+    const stepStart = Date.now();
+    const requestLimitMs =
+      step.timeout_ms ?? (stepTimeoutMs > 0 ? Math.min(stepTimeoutMs, REQUEST_TIMEOUT_MS) : REQUEST_TIMEOUT_MS);
+    let stepPassed = true;
+    let stepError: string | undefined;
+    let stepFailureType: StepFailureType | undefined;
+    let apiCall: ApiCallLog | undefined;
+    let extracted: Record<string, string> | undefined;
+
+    try {
+      switch (step.action) {
+        case "api_request": {
+          if (!step.request) {
+            throw new Error("Could not determine HTTP method and path from step text (expected e.g. \"POST /api/orders\")");
+          }
+          const request = applyVariables(step.request, variables);
+          const method = request.method.toUpperCase();
+          const url = buildRequestUrl(baseUrl, request.path);
+          const headers: Record<string, string> = {
+            Accept: "application/json",
+            ...authHeaders,
+            ...request.headers,
+          };
+          let body: string | undefined;
+          if (request.body !== undefined) {
+            body = typeof request.body === "string" ? request.body : JSON.stringify(request.body);
+            if (!Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+              headers["Content-Type"] = "application/json";
+            }
+          }
+          apiCall = {
+            request: { method, url, headers: maskHeaders(headers), body: truncateBody(request.body) },
+            response: null,
+          };
+          readableSteps.push(maskExtractedValues(`Send ${method} ${url}`, extractedSecrets));
+          const requestStart = Date.now();
+          const res = await fetch(url, {
+            method,
+            headers,
+            body,
+            // The execution deadline also cuts off a request already in flight, not just the steps after it
+            signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(requestLimitMs)]) : AbortSignal.timeout(requestLimitMs),
+          });
+          const text = await res.text();
+          const parsedBody = parseResponseBody(text, res.headers.get("content-type"));
+          lastResponse = { status: res.status, bodyText: text, body: parsedBody, headers: res.headers };
+          apiCall.response = {
+            status: res.status,
+            headers: maskHeaders(Object.fromEntries(res.headers.entries())),
+            body: truncateBody(parsedBody),
+            durationMs: Date.now() - requestStart,
+          };
+          break;
+        }
+        case "assert_status":
+        case "assert_text":
+          // Checked below via step.assertion against the last response
+          if (!step.assertion) {
+            throw new Error("Could not determine expected status or text from step text");
+          }
+          break;
+        default:
+          throw new Error(
+            `Unsupported API step action: "${step.action}". Allowed: api_request, assert_status, assert_text`
+          );
+      }
+
+      for (const assertion of [step.assertion, ...(step.assertions ?? [])]) {
+        if (!assertion) continue;
+        const failure = evaluateApiAssertion(assertion, lastResponse);
+        if (failure) {
+          stepPassed = false;
+          stepError = stepError ? `${stepError}; ${failure.error}` : failure.error;
+          stepFailureType ??= failure.failureType;
+          lastError = stepError;
+        } else {
+          const description = describeAssertion(assertion);
+          if (description) readableSteps.push(description);
+        }
+      }
+
+      // Extract after the assertions so a failing status (e.g. 500) is reported as such, not as "Extraction failed"
+      if (step.action === "api_request" && stepPassed && lastResponse) {
+        for (const extraction of step.extract ?? []) {
+          const value = extractFromResponse(extraction, lastResponse);
+          variables[extraction.variable] = value;
+          if (value.length >= MIN_MASKED_VALUE_LENGTH && !extractedSecrets.includes(value)) extractedSecrets.push(value);
+          const masked = maskExtractedValue(value);
+          test_data[extraction.variable] = masked;
+          extracted = { ...extracted, [extraction.variable]: masked };
+          readableSteps.push(`Save ${extraction.path} as ${extraction.variable}`);
+        }
+      }
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      // AbortSignal.timeout rejects fetch / body reads with a "TimeoutError" DOMException
+      // (the deadline signal rejects with an "AbortError" instead)
+      const deadlinePassed = signal?.aborted === true;
+      const timedOut = deadlinePassed || (e instanceof Error && e.name === "TimeoutError");
+      if (deadlinePassed) executionTimedOut = true;
+      stepPassed = false;
+      stepError = deadlinePassed
+        ? "Execution exceeded its time limit during this request"
+        : timedOut
+          ? `Request exceeded its ${requestLimitMs} ms limit`
+          : errMsg;
+      stepFailureType = timedOut ? "TIMEOUT" : "ACTION_EXECUTION_ERROR";
+      lastError = stepError;
+    }
+
+    passed = passed && stepPassed;
+    const effectiveFailureType =
+      stepFailureType === "ASSERTION_FAILED" && isUnverifiedData
+        ? "DATA_NOT_VERIFIED"
+        : stepFailureType ?? null;
+    stepLog.push({
+      order: step.stepIndex,
+      action: step.action,
+      passed: stepPassed,
+      durationMs: Date.now() - stepStart,
+      error: stepError,
+      failure_type: effectiveFailureType,
+      error_message: stepError ?? null,
+      ...(apiCall && { api_call: maskApiCall(apiCall, extractedSecrets) }),
+      ...(extracted && { extracted }),
+    });
+  }
+
+  const execution_status = executionTimedOut ? "TIMEOUT" : aggregateExecutionStatus(stepLog);
+  if (execution_status === "PASSED" && test_data.source === "AI_SIMULATION") {
+    test_data.verified = true;
+    test_data.previously_passed = true;
+  }
+
+  return {
+    passed,
+    duration: Date.now() - startTime,
+    stepLog,
+    resultSummary: `${stepLog.filter((s) => s.passed).length}/${stepLog.length} steps passed`,
+    errorMessage: lastError,
+    executionMetadata,
+    readableSteps: readableSteps.length ? readableSteps : undefined,
+    execution_status,
+  };
+}
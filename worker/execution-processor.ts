@@ -1,5 +1,6 @@
 /**
- * Execution job processor. Flow: Load execution + testCase → PreExecutionService → PlaywrightExecutor (agent_execution only).
+ * Execution job processor. Flow: Load execution + testCase → PreExecutionService → runner (agent_execution only).
+ * Runner by testType: API → native HTTP (api-runner), E2E → Playwright.
  * No AI in Playwright; PreExecution may call AI only for selector resolution when no knowledge.
  */
 import { Prisma } from "@prisma/client";
@@ -7,8 +8,127 @@ import type { ExecutionJobPayload } from "../src/lib/queue/execution-queue";
 import { prisma } from "../src/lib/db/client";
 import type { ApplicationConfig } from "../src/core/data-orchestrator";
 import { runPreExecution, type ExecutionSelectorCache } from "../src/core/pre-execution-service";
-import type { AgentExecution } from "../src/lib/agent-execution-types";
-import { runPlaywrightExecutionFromAgentExecution } from "./playwright-runner";
+import type { AgentExecution, NetworkMockRule } from "../src/lib/agent-execution-types";
+import { decrypt } from "../src/lib/encryption";
+import { listE2EActorCredentials } from "../src/lib/credentials/e2e-credentials";
+import { getConfig } from "../src/lib/config";
+import {
+  ACCESSIBILITY_IMPACTS,
+  TRACE_MODES,
+  type AccessibilityImpact,
+  type TraceMode,
+} from "../src/lib/config/constants";
+import { resolveDeviceProfile } from "../src/lib/device-profiles";
+import {
+  ExecutionTimeoutError,
+  runPlaywrightExecutionFromAgentExecution,
+  type RunFromAgentExecutionOptions,
+  type RunResult,
+  type VisualDiffSettings,
+} from "./playwright-runner";
+import { runApiExecutionFromAgentExecution, type ApiAuthConfig } from "./api-runner";
+
+/** Trace mode from config; unknown values fall back to on_failure. */
+async function getTraceMode(): Promise<TraceMode> {
+  const config = await getConfig();
+  const raw = (config.trace_mode ?? "").trim().toLowerCase();
+  return (TRACE_MODES as readonly string[]).includes(raw) ? (raw as TraceMode) : "on_failure";
+}
+
+/** visual_match thresholds from config; invalid or negative values fall back to 0.1. */
+async function getVisualDiffSettings(): Promise<VisualDiffSettings> {
+  const config = await getConfig();
+  const parse = (raw: string | undefined) => {
+    const n = Number.parseFloat(raw ?? "");
+    return Number.isFinite(n) && n >= 0 ? n : 0.1;
+  };
+  return {
+    maxDiffPercent: parse(config.visual_diff_threshold),
+    pixelThreshold: Math.min(1, parse(config.visual_pixel_threshold)),
+  };
+}
+
+/** Impact level at which accessibility assertions fail; unknown values fall back to serious. */
+async function getAccessibilityFailImpact(): Promise<AccessibilityImpact> {
+  const config = await getConfig();
+  const raw = (config.accessibility_fail_impact ?? "").trim().toLowerCase();
+  return (ACCESSIBILITY_IMPACTS as readonly string[]).includes(raw) ? (raw as AccessibilityImpact) : "serious";
+}
+
+/** Minutes a cached E2E login session stays valid; 0 (or invalid) disables the cache. */
+async function getSessionCacheTtlMinutes(): Promise<number> {
+  const config = await getConfig();
+  const n = Number.parseInt(config.session_cache_ttl_minutes ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/** Wall-clock limit per execution in ms (config execution_timeout); 0 (or invalid) = no limit. */
+async function getExecutionTimeoutMs(): Promise<number> {
+  const config = await getConfig();
+  const n = Number.parseInt(config.execution_timeout ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/** Default per-step limit in ms (config step_timeout) for steps without their own timeout_ms; 0 (or invalid) = no limit. */
+async function getStepTimeoutMs(): Promise<number> {
+  const config = await getConfig();
+  const n = Number.parseInt(config.step_timeout ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/** Time after the deadline for the runner to close the browser and upload what it captured. */
+const ARTIFACT_UPLOAD_GRACE_MS = 60000;
+
+/**
+ * Hard stop: runners honour the deadline signal between and during steps, so this only fires when a runner
+ * hangs past the deadline plus the upload grace period (e.g. a stuck browser close). The run gets an abandon
+ * signal that fires with it, so it can close its browser contexts instead of running on unobserved.
+ */
+function withDeadlineBackstop(
+  run: (abandonSignal: AbortSignal) => Promise<RunResult>,
+  deadlineAt: number | null
+): Promise<RunResult> {
+  const abandon = new AbortController();
+  if (deadlineAt == null) return run(abandon.signal);
+  return new Promise<RunResult>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      abandon.abort();
+      reject(new ExecutionTimeoutError());
+    }, Math.max(0, deadlineAt - Date.now()) + ARTIFACT_UPLOAD_GRACE_MS);
+    run(abandon.signal).then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+/** One AccessibilityAudit row per step that ran an axe audit, for per-project / per-application reporting. */
+async function recordAccessibilityAudits(
+  execution: { id: string; projectId: string; testCaseId: string; testCase: { applicationId: string | null } },
+  stepLog: RunResult["stepLog"]
+): Promise<void> {
+  const audited = (stepLog ?? []).filter((s) => s.accessibility != null);
+  if (audited.length === 0) return;
+  await prisma.accessibilityAudit.createMany({
+    data: audited.map((s) => {
+      const a11y = s.accessibility!;
+      const count = (impact: AccessibilityImpact) => a11y.violations.filter((v) => v.impact === impact).length;
+      return {
+        projectId: execution.projectId,
+        applicationId: execution.testCase.applicationId,
+        executionId: execution.id,
+        testCaseId: execution.testCaseId,
+        stepIndex: s.order,
+        url: a11y.url,
+        failImpact: a11y.fail_impact,
+        passed: a11y.passed,
+        violationCount: a11y.violations.length,
+        criticalCount: count("critical"),
+        seriousCount: count("serious"),
+        moderateCount: count("moderate"),
+        minorCount: count("minor"),
+        violations: a11y.violations as unknown as Prisma.InputJsonValue,
+      };
+    }),
+  });
+}
 
 function buildApplicationConfig(): ApplicationConfig {
   return {
@@ -38,13 +158,27 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
           data_condition: true,
           dataRequirement: true,
           setup_hint: true,
+          networkMocks: true,
           applicationId: true,
+          application: { select: { deviceProfile: true, loginUrlPattern: true, loginMarkerSelector: true } },
           ticket: {
             select: { title: true, description: true, acceptanceCriteria: true },
           },
         },
       },
-      environment: { select: { baseUrl: true, e2eAuthMode: true, apiAuthMode: true } },
+      environment: {
+        select: {
+          baseUrl: true,
+          e2eAuthMode: true,
+          apiAuthMode: true,
+          appKeyEnc: true,
+          secretKeyEnc: true,
+          apiTokenEnc: true,
+          credentialsEnc: true,
+          browserEngine: true,
+          deviceProfile: true,
+        },
+      },
     },
   });
 
@@ -80,6 +214,13 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
     apiAuthMode: execution.environment?.apiAuthMode ?? undefined,
   };
 
+  // The deadline starts before pre-execution, so its time counts against the limit; pre-execution itself
+  // (selector resolution, data preparation) is not interrupted, and a run starting past the deadline skips every step
+  const executionTimeoutMs = await getExecutionTimeoutMs();
+  const deadlineAt = executionTimeoutMs > 0 ? Date.now() + executionTimeoutMs : null;
+  const deadline = new AbortController();
+  const deadlineTimer = deadlineAt != null ? setTimeout(() => deadline.abort(), executionTimeoutMs) : undefined;
+
   let variables: Record<string, string> = {};
   let executionSelectorCache: ExecutionSelectorCache = new Map();
   try {
@@ -98,6 +239,7 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
         data_condition: execution.testCase.data_condition,
         data_requirement: (execution.testCase.dataRequirement ?? []) as Array<{ alias: string; type: string; scenario: string; role?: string | null }>,
         setup_hint: execution.testCase.setup_hint,
+        network_mocks: (execution.testCase.networkMocks ?? []) as unknown as NetworkMockRule[],
         ticket: execution.testCase.ticket
           ? {
               title: execution.testCase.ticket.title,
@@ -113,6 +255,7 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
     executionSelectorCache = preResult.executionSelectorCache;
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
+    clearTimeout(deadlineTimer);
     console.error("[execution-processor] PreExecution failed", { executionId, error: message });
     await prisma.execution.update({
       where: { id: executionId },
@@ -131,6 +274,7 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
   });
   const agentExecution = updated?.agentExecution as AgentExecution | null;
   if (!agentExecution?.steps?.length) {
+    clearTimeout(deadlineTimer);
     await prisma.execution.update({
       where: { id: executionId },
       data: { status: "FAILED", errorMessage: "PreExecution produced no agent_execution steps", finishedAt: new Date() },
@@ -143,16 +287,69 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
   }
 
   try {
-    const result = await runPlaywrightExecutionFromAgentExecution({
-      baseUrl: envConfig.baseUrl,
-      agentExecution,
-      credentials: envCredentials,
-      executionId,
-      variables,
-      projectId: execution.projectId,
-      applicationId: execution.testCase.applicationId ?? undefined,
-      executionSelectorCache,
-    });
+    let result: RunResult;
+    if (execution.testCase.testType === "API") {
+      const env = execution.environment;
+      const auth: ApiAuthConfig = {
+        mode: env?.apiAuthMode ?? "NONE",
+        appKey: env?.appKeyEnc ? decrypt(env.appKeyEnc) : undefined,
+        secretKey: env?.secretKeyEnc ? decrypt(env.secretKeyEnc) : undefined,
+        apiToken: envCredentials?.apiToken ?? (env?.apiTokenEnc ? decrypt(env.apiTokenEnc) : undefined),
+      };
+      const stepTimeoutMs = await getStepTimeoutMs();
+      // API requests already abort on the deadline signal; there is no browser to close
+      result = await withDeadlineBackstop(
+        () =>
+          runApiExecutionFromAgentExecution({
+            baseUrl: envConfig.baseUrl,
+            agentExecution,
+            auth,
+            executionId,
+            variables,
+            stepTimeoutMs,
+            signal: deadline.signal,
+          }),
+        deadlineAt
+      );
+    } else {
+      const runOptions: RunFromAgentExecutionOptions = {
+        baseUrl: envConfig.baseUrl,
+        agentExecution,
+        credentials: envCredentials,
+        // Only multi-actor runs need the other roles' credentials
+        actors: agentExecution.steps.some((s) => s.action === "switch_actor")
+          ? listE2EActorCredentials({ credentialsEnc: execution.environment?.credentialsEnc ?? null })
+          : undefined,
+        executionId,
+        variables,
+        projectId: execution.projectId,
+        applicationId: execution.testCase.applicationId ?? undefined,
+        executionSelectorCache,
+        traceMode: await getTraceMode(),
+        browserEngine: execution.browserEngine ?? execution.environment?.browserEngine ?? "chromium",
+        testCaseId: execution.testCaseId,
+        environmentId: execution.environmentId,
+        visualDiff: await getVisualDiffSettings(),
+        accessibilityFailImpact: await getAccessibilityFailImpact(),
+        loginPageSignature: {
+          urlPattern: execution.testCase.application?.loginUrlPattern,
+          markerSelector: execution.testCase.application?.loginMarkerSelector,
+        },
+        sessionCache: await getSessionCacheTtlMinutes().then((ttlMinutes) =>
+          ttlMinutes > 0 ? { environmentId: execution.environmentId, ttlMinutes } : undefined
+        ),
+        deviceProfile: resolveDeviceProfile(
+          execution.environment?.deviceProfile,
+          execution.testCase.application?.deviceProfile
+        ),
+        stepTimeoutMs: await getStepTimeoutMs(),
+        signal: deadline.signal,
+      };
+      result = await withDeadlineBackstop(
+        (abandonSignal) => runPlaywrightExecutionFromAgentExecution({ ...runOptions, abandonSignal }),
+        deadlineAt
+      );
+    }
 
     // DB status remains PASSED | FAILED for backward compatibility.
     const executionStatus = result.passed ? "PASSED" : "FAILED";
@@ -169,6 +366,9 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
         status: executionStatus,
         duration: result.duration,
         videoUrl: result.videoUrl ?? null,
+        traceUrl: result.traceUrl ?? null,
+        harUrl: result.harUrl ?? null,
+        consoleLogUrl: result.consoleLogUrl ?? null,
         screenshotUrls: result.screenshotUrls?.length ? (result.screenshotUrls as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
         stepLog: result.stepLog?.length ? (result.stepLog as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
         resultSummary: result.resultSummary ?? null,
@@ -178,21 +378,51 @@ export async function processExecutionJob(payload: ExecutionJobPayload): Promise
         finishedAt: new Date(),
       },
     });
+    // Reporting only: the execution is already saved, so a failed write must not turn it into FAILED below
+    try {
+      await recordAccessibilityAudits(execution, result.stepLog);
+    } catch (err) {
+      console.error("[execution-processor] Failed to record accessibility audits", { executionId, error: err instanceof Error ? err.message : String(err) });
+    }
     // Bug creation must only trigger when execution_status === "FAILED_BUSINESS". Never for FAILED_SELECTOR, FAILED_UNVERIFIED_DATA, or FAILED.
+    // Cross-browser runs: a pass on one engine must not overwrite a failure on another engine in the same run
+    const siblingFailed =
+      result.passed && execution.runId
+        ? (await prisma.execution.count({
+            // Failures that were retried are superseded by their later attempt
+            where: {
+              runId: execution.runId,
+              testCaseId: payload.testCaseId,
+              status: "FAILED",
+              id: { not: executionId },
+              retries: { none: {} },
+            },
+          })) > 0
+        : false;
     await prisma.testCase.update({
       where: { id: payload.testCaseId },
-      data: { status: result.passed ? "PASSED" : "FAILED" },
+      data: { status: result.passed && !siblingFailed ? "PASSED" : "FAILED" },
     });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
+    // Backstop fired: the runner never returned, so there is no step log or artifact to store
+    const timedOut = err instanceof ExecutionTimeoutError;
     await prisma.execution.update({
       where: { id: executionId },
-      data: { status: "FAILED", errorMessage: message, finishedAt: new Date() },
+      data: {
+        status: "FAILED",
+        errorMessage: message,
+        finishedAt: new Date(),
+        ...(timedOut && { executionMetadata: { execution_status: "TIMEOUT" } }),
+      },
     });
     await prisma.testCase.update({
       where: { id: payload.testCaseId },
       data: { status: "FAILED" },
     });
-    throw err;
+    // A retry would hit the same limit; only rethrow real errors so the queue can retry them
+    if (!timedOut) throw err;
+  } finally {
+    clearTimeout(deadlineTimer);
   }
 }
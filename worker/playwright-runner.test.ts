@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sanitizeHar } from "./playwright-runner";
+
+describe("sanitizeHar", () => {
+  it("masks credential headers and drops cookies and request bodies", () => {
+    const har = {
+      log: {
+        entries: [
+          {
+            request: {
+              headers: [
+                { name: "Authorization", value: "Bearer secret" },
+                { name: "Accept", value: "application/json" },
+              ],
+              cookies: [{ name: "sid", value: "abc" }],
+              postData: { text: "username=alice&password=hunter2" },
+            },
+            response: {
+              headers: [{ name: "Set-Cookie", value: "sid=abc" }],
+              cookies: [{ name: "sid", value: "abc" }],
+            },
+          },
+        ],
+      },
+    };
+    const out = JSON.parse(sanitizeHar(Buffer.from(JSON.stringify(har)))!.toString("utf8"));
+    const [entry] = out.log.entries;
+    assert.deepEqual(entry.request.headers, [
+      { name: "Authorization", value: "****" },
+      { name: "Accept", value: "application/json" },
+    ]);
+    assert.deepEqual(entry.request.cookies, []);
+    assert.equal(entry.request.postData, undefined);
+    assert.deepEqual(entry.response.headers, [{ name: "Set-Cookie", value: "****" }]);
+    assert.deepEqual(entry.response.cookies, []);
+  });
+
+  it("returns null for content that is not HAR JSON", () => {
+    assert.equal(sanitizeHar(Buffer.from("not json")), null);
+  });
+});
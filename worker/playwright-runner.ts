@@ -1,20 +1,69 @@
 /**
  * Playwright execution: run from execution.agent_execution only. No AI.
- * One shared browser per worker process; one context per execution (context closed after each run).
+ * One shared browser per engine per worker process; one context per execution (context closed after each run).
  */
 
-import { chromium, type Browser, type Page, type Locator } from "playwright";
+import {
+  chromium,
+  firefox,
+  webkit,
+  devices,
+  type Browser,
+  type BrowserContext,
+  type BrowserContextOptions,
+  type BrowserType,
+  type Dialog,
+  type Frame,
+  type FrameLocator,
+  type Page,
+  type Locator,
+} from "playwright";
+import type { BrowserEngine } from "@prisma/client";
+import axe from "axe-core";
 import * as fs from "fs";
 import * as path from "path";
-import type { AgentExecution, AgentExecutionStep } from "../src/lib/agent-execution-types";
+import type {
+  AccessibilityAssertionOptions,
+  AgentExecution,
+  AgentExecutionAssertion,
+  AgentExecutionStep,
+  AttributeAssertion,
+  ElementCountAssertion,
+  NetworkMockRule,
+  TableRowAssertion,
+  VisualIgnoreRegion,
+  VisualMatchOptions,
+} from "../src/lib/agent-execution-types";
 import {
   uploadArtifact,
   executionVideoKey,
+  executionTraceKey,
+  executionHarKey,
+  executionActorArtifactKey,
+  executionConsoleLogKey,
   executionScreenshotKey,
+  executionVisualKey,
+  executionDownloadKey,
 } from "../src/lib/storage/s3";
+import {
+  ACCESSIBILITY_IMPACTS,
+  type AccessibilityImpact,
+  type TraceMode,
+} from "../src/lib/config/constants";
 import { isValidUrl } from "../src/lib/url-validation";
 import { resolveWithAI } from "../src/lib/selector/selector-resolver-service";
 import { upsertSelector } from "../src/lib/selector/selector-knowledge-repository";
+import { loadFixtureFile } from "../src/lib/fixtures/fixture-file-repository";
+import {
+  credentialFingerprint,
+  invalidateStorageState,
+  loadStorageState,
+  saveStorageState,
+  type CachedStorageState,
+  type StorageStateKey,
+} from "../src/lib/session/storage-state-repository";
+import { buildViewportKey, loadVisualBaseline } from "../src/lib/visual/visual-baseline-repository";
+import { diffPngImages, type PixelRegion } from "../src/lib/visual/pixel-diff";
 import {
   validateSelectorBeforeSave,
   isBodySelectorForFill,
@@ -24,13 +73,150 @@ import {
   getFallbackFillSelectorCandidates,
 } from "../src/lib/ai/step-resolver";
 import type { ExecutionSelectorCache, SelectorCacheEntry } from "../src/core/pre-execution-service";
+import { replacePlaceholders } from "../src/core/data-preparation";
+import { toAssertionRegExp } from "../src/lib/assertion/assertion-mapper-service";
+import { checkDownload, downloadContentType } from "../src/lib/interaction/download-check";
+import { generateTotp, totpRemainingMs } from "../src/lib/credentials/totp";
+
+const BROWSER_TYPES: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+const DESKTOP_VIEWPORT = { width: 1280, height: 720 };
+
+const DEFAULT_VISUAL_DIFF: VisualDiffSettings = { maxDiffPercent: 0.1, pixelThreshold: 0.1 };
+
+/** Console error capture limits per execution (noisy pages can log thousands of errors). */
+const MAX_CONSOLE_ERRORS = 200;
+const MAX_CONSOLE_MESSAGE_LENGTH = 2000;
+
+/**
+ * Context emulation options for a device profile. Unknown or empty names fall back to the desktop viewport.
+ * Firefox does not support isMobile, so it is dropped there (viewport, userAgent and touch still apply).
+ */
+function deviceContextOptions(
+  profileName: string | null | undefined,
+  engine: BrowserEngine
+): { options: BrowserContextOptions; profile?: DeviceProfileMeta } {
+  const desktop = { options: { viewport: DESKTOP_VIEWPORT, deviceScaleFactor: 1 } };
+  if (!profileName) return desktop;
+  const descriptor = devices[profileName];
+  if (!descriptor) {
+    if (process.env.NODE_ENV !== "test") {
+      console.warn(`[PlaywrightRunner] Unknown device profile "${profileName}", using desktop viewport`);
+    }
+    return desktop;
+  }
+  const isMobile = engine !== "firefox" && descriptor.isMobile;
+  return {
+    options: {
+      viewport: descriptor.viewport,
+      userAgent: descriptor.userAgent,
+      deviceScaleFactor: descriptor.deviceScaleFactor,
+      hasTouch: descriptor.hasTouch,
+      ...(engine !== "firefox" && { isMobile }),
+    },
+    profile: {
+      name: profileName,
+      viewport: descriptor.viewport,
+      user_agent: descriptor.userAgent,
+      device_scale_factor: descriptor.deviceScaleFactor,
+      is_mobile: isMobile,
+      has_touch: descriptor.hasTouch,
+    },
+  };
+}
+
+/**
+ * True when the page is the application's login page. With a signature, either the URL pattern (substring, or
+ * regex written as "/pattern/flags") or the visible marker element matches; without one, a visible password field.
+ */
+async function isLoginPage(page: Page, signature: LoginPageSignature | undefined): Promise<boolean> {
+  const urlPattern = signature?.urlPattern?.trim();
+  const marker = signature?.markerSelector?.trim();
+  if (urlPattern) {
+    const m = urlPattern.match(/^\/(.+)\/([a-z]*)$/);
+    let matched = false;
+    try {
+      matched = m ? new RegExp(m[1], m[2]).test(page.url()) : page.url().toLowerCase().includes(urlPattern.toLowerCase());
+    } catch {
+      matched = page.url().includes(urlPattern);
+    }
+    if (matched) return true;
+  }
+  const selector = marker || (urlPattern ? null : 'input[type="password"]');
+  if (!selector) return false;
+  return page
+    .locator(selector)
+    .first()
+    .isVisible()
+    .catch(() => false);
+}
+
+/** URL matcher for context.route: "/pattern/flags" is a regex, anything else a Playwright glob. */
+function networkMockMatcher(url: string): string | RegExp {
+  const m = url.match(/^\/(.+)\/([a-z]*)$/);
+  if (m) {
+    try {
+      return new RegExp(m[1], m[2]);
+    } catch {
+      // not a valid regex: treat as glob
+    }
+  }
+  return url;
+}
 
-let browser: Browser | null = null;
+/**
+ * Register test case network mocks on the context. Returns one log entry per rule; hits is updated as requests match.
+ * Handlers registered later run first in Playwright, so rules are registered in reverse to let the first matching
+ * rule win. Delay-only rules wait and then fall back to the next rule or the real network.
+ */
+async function applyNetworkMocks(
+  context: BrowserContext,
+  rules: NetworkMockRule[],
+  /** Counters from an earlier context of the same execution (another actor); hits add up. */
+  logs: NetworkMockMeta[] = rules.map((rule) => ({
+    url: rule.url,
+    method: rule.method?.toUpperCase() ?? null,
+    status: rule.status ?? null,
+    delay_ms: rule.delay_ms ?? null,
+    hits: 0,
+  }))
+): Promise<NetworkMockMeta[]> {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    const log = logs[i];
+    await context.route(networkMockMatcher(rule.url), async (route) => {
+      if (log.method && route.request().method() !== log.method) {
+        await route.fallback();
+        return;
+      }
+      log.hits += 1;
+      if (rule.delay_ms) await new Promise((r) => setTimeout(r, rule.delay_ms!));
+      if (rule.status == null && rule.body == null) {
+        await route.fallback();
+        return;
+      }
+      await route.fulfill({
+        status: rule.status ?? 200,
+        body: rule.body ?? "",
+        ...(rule.content_type && { contentType: rule.content_type }),
+      });
+    });
+  }
+  return logs;
+}
 
-/** Launch browser. Default is headless (no window). Set PLAYWRIGHT_HEADLESS=false to show the browser (e.g. local debugging). */
-export async function initPlaywrightBrowser(): Promise<void> {
-  if (browser !== null) return;
+/** Shared browser per engine; launched on first use (chromium eagerly at worker start). */
+const browsers = new Map<BrowserEngine, Browser>();
+
+/** Launch browser for an engine. Default is headless (no window). Set PLAYWRIGHT_HEADLESS=false to show the browser (e.g. local debugging). */
+export async function initPlaywrightBrowser(engine: BrowserEngine = "chromium"): Promise<void> {
+  if (browsers.has(engine)) return;
   const headless = process.env.PLAYWRIGHT_HEADLESS !== "false";
+  if (engine !== "chromium") {
+    // Chromium flags below are not understood by Firefox/WebKit
+    browsers.set(engine, await BROWSER_TYPES[engine].launch({ headless }));
+    return;
+  }
   const args = [
     "--no-sandbox",
     "--disable-setuid-sandbox",
@@ -43,32 +229,34 @@ export async function initPlaywrightBrowser(): Promise<void> {
     "--disable-default-apps",
     "--disable-sync",
   ];
-  browser = await chromium.launch({
+  const browser = await chromium.launch({
     headless,
     args,
     // headless: false,   // 👈 บังคับเปิดจอ
     // slowMo: 200,       // 👈 ทำให้เห็นการทำงานช้า ๆ
     // devtools: true,    // 👈 เปิด DevTools ด้วย
   });
+  browsers.set(engine, browser);
 }
 
-/** Close browser. Call on worker shutdown (e.g. SIGTERM). */
+/** Close all browsers. Call on worker shutdown (e.g. SIGTERM). */
 export async function closePlaywrightBrowser(): Promise<void> {
-  if (browser === null) return;
-  await browser.close();
-  browser = null;
+  const open = Array.from(browsers.values());
+  browsers.clear();
+  await Promise.all(open.map((b) => b.close().catch(() => {})));
 }
 
-/** Returns a connected browser; re-launches if the current one died (e.g. crash/OOM). */
-async function getConnectedBrowser(): Promise<Browser> {
-  if (browser !== null && !browser.isConnected()) {
-    browser = null;
+/** Returns a connected browser for the engine; re-launches if the current one died (e.g. crash/OOM). */
+async function getConnectedBrowser(engine: BrowserEngine): Promise<Browser> {
+  const current = browsers.get(engine);
+  if (current && !current.isConnected()) {
+    browsers.delete(engine);
   }
-  if (browser === null) {
-    await initPlaywrightBrowser();
+  if (!browsers.has(engine)) {
+    await initPlaywrightBrowser(engine);
   }
-  const b = browser;
-  if (b === null) throw new Error("Playwright browser not initialized; call initPlaywrightBrowser() before processing jobs.");
+  const b = browsers.get(engine);
+  if (!b) throw new Error(`Playwright ${engine} browser not initialized; call initPlaywrightBrowser() before processing jobs.`);
   return b;
 }
 
@@ -103,15 +291,39 @@ function parseRoleSelector(selector: string): { role: string; name: string | und
   return { role, name: name || undefined };
 }
 
+/** CSS for the iframe (or legacy frame) a frame ref points at: exact name / id, title or src containing the ref. */
+function frameRefSelector(ref: string): string {
+  const v = ref.trim().replace(/["\\]/g, "\\$&");
+  return ["iframe", "frame"]
+    .map((tag) => `${tag}[name="${v}"], ${tag}[id="${v}"], ${tag}[title*="${v}" i], ${tag}[src*="${v}"]`)
+    .join(", ");
+}
+
+/** Wait for the iframe matching ref inside root and return its content frame. */
+async function findFrame(root: Page | Frame, ref: string, timeoutMs = 15000): Promise<Frame> {
+  const owner = root.locator(frameRefSelector(ref)).first();
+  await owner.waitFor({ state: "attached", timeout: timeoutMs });
+  const frame = await (await owner.elementHandle({ timeout: timeoutMs }))?.contentFrame();
+  if (!frame) throw new Error(`Frame '${ref}' not found`);
+  await frame.waitForLoadState("domcontentloaded", { timeout: timeoutMs }).catch(() => {});
+  return frame;
+}
+
 /**
  * Parse stored selector into a Playwright locator.
  * Role selectors use getByRole() only — never pass "role:..." or "role=..." to page.locator().
  * Empty selector after prefix (e.g. "css:") is guarded to avoid "parsing css selector """ error.
+ * "frame:<ref> >> <selector>" resolves <selector> inside the iframe matched by ref (name, id, title or src; may nest).
  */
-function getLocatorFromStoredSelector(page: Page, stored: string | null): Locator {
+function getLocatorFromStoredSelector(page: Page | Frame | FrameLocator, stored: string | null): Locator {
   if (!stored?.trim()) return page.locator("body");
   const s = stored.trim();
 
+  const framed = s.match(/^frame:\s*(.+?)\s*>>\s*(.+)$/i);
+  if (framed) {
+    return getLocatorFromStoredSelector(page.locator(frameRefSelector(framed[1])).first().contentFrame(), framed[2]);
+  }
+
   if (s.toLowerCase().startsWith("role:")) {
     const selector = s.slice(5).trim();
     const parsed = parseRoleSelector(selector);
@@ -200,6 +412,42 @@ export class InvalidNavigationTargetError extends Error {
   }
 }
 
+/** A step ran longer than its limit (step.timeout_ms or config step_timeout). */
+export class StepTimeoutError extends Error {
+  constructor(public readonly limitMs: number) {
+    super(`Step exceeded its ${limitMs} ms limit`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+/** The execution deadline (config execution_timeout) passed; remaining steps are not run. */
+export class ExecutionTimeoutError extends Error {
+  constructor() {
+    super("Execution exceeded its time limit; remaining steps were not run");
+    this.name = "ExecutionTimeoutError";
+  }
+}
+
+/**
+ * Run one step's work against its limit (0 = none) and the execution deadline.
+ * The abandoned work keeps running until the browser context closes and its outcome is ignored, so the runner
+ * runs no further step after a timeout: nothing else touches the page while the abandoned work may still act on it.
+ */
+function runWithStepLimit(work: () => Promise<void>, limitMs: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(new ExecutionTimeoutError());
+  return new Promise<void>((resolve, reject) => {
+    const timer = limitMs > 0 ? setTimeout(() => reject(new StepTimeoutError(limitMs)), limitMs) : undefined;
+    const onAbort = () => reject(new ExecutionTimeoutError());
+    signal?.addEventListener("abort", onAbort, { once: true });
+    work()
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      });
+  });
+}
+
 export interface RunStep {
   order: number;
   action: string;
@@ -208,12 +456,23 @@ export interface RunStep {
   assertion?: string;
 }
 
-/** Failure classification for each step. DATA_NOT_VERIFIED when assertion fails on unverified AI-simulated data. */
+/**
+ * Failure classification for each step. DATA_NOT_VERIFIED when assertion fails on unverified AI-simulated data.
+ * TIMEOUT when the step ran past its limit or the execution deadline.
+ */
 export type StepFailureType =
   | "ASSERTION_FAILED"
   | "SELECTOR_NOT_FOUND"
   | "ACTION_EXECUTION_ERROR"
-  | "DATA_NOT_VERIFIED";
+  | "DATA_NOT_VERIFIED"
+  | "TIMEOUT";
+
+/** Outcome of one step assertion, in order (step.assertion first, then step.assertions). */
+export interface AssertionResultLog {
+  type: string;
+  passed: boolean;
+  error?: string;
+}
 
 export interface StepLogEntry {
   order: number;
@@ -226,6 +485,95 @@ export interface StepLogEntry {
   /** Error message when step failed (same as error; exposed for API). */
   error_message?: string | null;
   screenshotUrl?: string;
+  /** API steps only: request/response pair sent by the API runner (auth headers masked). */
+  api_call?: ApiCallLog;
+  /** Values captured into runtime variables by this step (masked). */
+  extracted?: Record<string, string>;
+  /** Browser console errors and uncaught page errors raised while this step ran. */
+  console_errors?: ConsoleErrorEntry[];
+  /** visual_match result: screenshot vs approved baseline. */
+  visual?: VisualMatchLog;
+  /** accessibility result: axe-core violations on the page after this step. */
+  accessibility?: AccessibilityLog;
+  /** Login steps (and navigate steps under CONDITIONAL auth): whether the login sub-flow ran. */
+  login_triggered?: boolean;
+  /** Result of every assertion checked after this step. */
+  assertions?: AssertionResultLog[];
+  /** E2E: tab the step ran on (0 = main page, then tabs / popups in opening order). */
+  page_index?: number;
+  /** E2E: iframe refs the step ran inside ("payment > 3ds"); unset = the page's main document. */
+  frame?: string;
+  /** Multi-actor runs: credential role that performed the step (after a switch_actor step, the new actor). */
+  actor?: string;
+  /** Native dialogs opened while this step ran. */
+  dialogs?: DialogLogEntry[];
+  /** "download" steps: the captured file. */
+  download?: DownloadedFileMeta;
+}
+
+export interface AccessibilityViolation {
+  /** axe-core rule id, e.g. "color-contrast". */
+  id: string;
+  impact: AccessibilityImpact | null;
+  help: string;
+  help_url: string;
+  /** Number of offending elements. */
+  nodes: number;
+  /** CSS targets of the first offending elements. */
+  targets: string[];
+}
+
+export interface AccessibilityLog {
+  url: string;
+  fail_impact: AccessibilityImpact;
+  violations: AccessibilityViolation[];
+  /** Number of rules that passed. */
+  passes: number;
+  /** No violation at or above fail_impact; the step itself can still fail on another action or assertion. */
+  passed: boolean;
+}
+
+/** Outcome of a visual_match check. actual_key is kept so the screenshot can be approved as the new baseline. */
+export interface VisualMatchLog {
+  status: "MATCH" | "MISMATCH" | "SIZE_MISMATCH" | "NO_BASELINE";
+  viewport: string;
+  /** Engine of the screenshot; the baseline it is compared with (and approved as) is per engine. */
+  browser_engine?: BrowserEngine;
+  actual_key: string;
+  actual_url: string;
+  baseline_url?: string;
+  diff_url?: string;
+  diff_percent?: number;
+  threshold: number;
+  /** Set when this actual screenshot was approved as the baseline. */
+  approved_at?: string;
+}
+
+/** console.error message or uncaught exception (pageerror) captured from any page in the context. */
+export interface ConsoleErrorEntry {
+  type: "console" | "pageerror";
+  message: string;
+  /** Step that was running when the error was raised; null before the first step. */
+  step_index: number | null;
+  /** Source location (console) or page URL (pageerror) when known. */
+  url?: string;
+  at: string;
+}
+
+/** Request/response pair recorded per API step. Bodies are truncated for storage. */
+export interface ApiCallLog {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: unknown;
+    durationMs: number;
+  } | null;
 }
 
 export interface RunOptions {
@@ -237,11 +585,44 @@ export interface RunOptions {
   variables?: Record<string, string>;
 }
 
+export interface LoginPageSignature {
+  urlPattern?: string | null;
+  markerSelector?: string | null;
+}
+
+/** Login credentials of one actor (credential role); apiToken is the environment's and the same for every actor. */
+export interface ActorCredentials {
+  role?: string;
+  username?: string;
+  password?: string;
+  /** 2FA: base32 TOTP secret or otpauth:// URI; the login flow and "enter_otp" steps type the current code. */
+  totpSecret?: string;
+  apiToken?: string;
+}
+
+type SessionCacheKey = { key: StorageStateKey; fingerprint: string };
+
+/** Browser state of an actor while another actor runs steps; switch_actor swaps it back in. */
+interface ActorSession {
+  role: string;
+  credentials: ActorCredentials | undefined;
+  context: BrowserContext;
+  mainPage: Page;
+  page: Page;
+  activeFrame: Frame | null;
+  frameRefs: string[];
+  visitedPages: Set<Page>;
+  sessionKey: SessionCacheKey | null;
+  cachedSession: CachedStorageState | null;
+}
+
 /** Options when running from execution.agent_execution only (no AI). */
 export interface RunFromAgentExecutionOptions {
   baseUrl: string;
   agentExecution: AgentExecution;
-  credentials?: { username?: string; password?: string; apiToken?: string };
+  credentials?: ActorCredentials;
+  /** Credentials of every role (Environment credentialsEnc entries) for "switch_actor" steps. */
+  actors?: ActorCredentials[];
   executionId: string;
   variables?: Record<string, string>;
   /** For AI fallback when element not found: projectId + applicationId allow saving new selector to selector_knowledge. */
@@ -251,6 +632,36 @@ export interface RunFromAgentExecutionOptions {
   executionSelectorCache?: ExecutionSelectorCache;
   /** Optional test data source/verification. When source=AI_SIMULATION and verified=false and previously_passed≠true, assertion failures become DATA_NOT_VERIFIED. */
   testDataMeta?: TestDataMeta;
+  /** Playwright trace capture: "always", "on_failure" (default; trace discarded when all steps pass) or "off". */
+  traceMode?: TraceMode;
+  /** Browser engine; default chromium. */
+  browserEngine?: BrowserEngine;
+  /** Playwright device descriptor name (e.g. "iPhone 13"); null/undefined = 1280x720 desktop. */
+  deviceProfile?: string | null;
+  /** Test case + environment: key visual_match baselines (with the viewport). Without them visual steps only capture. */
+  testCaseId?: string;
+  environmentId?: string;
+  /** visual_match defaults from config; assertion value.threshold overrides maxDiffPercent. */
+  visualDiff?: VisualDiffSettings;
+  /** accessibility assertions fail on violations at or above this impact unless the assertion sets its own; default serious. */
+  accessibilityFailImpact?: AccessibilityImpact;
+  /** How to recognise the login page (Application login signature); used by CONDITIONAL auth and the session cache. */
+  loginPageSignature?: LoginPageSignature;
+  /** Reuse the login session (storageState) cached for this environment + credential role; unset = log in every run. */
+  sessionCache?: { environmentId: string; ttlMinutes: number };
+  /** Limit for steps without their own timeout_ms; 0/undefined = no limit. A step past its limit fails and ends the run. */
+  stepTimeoutMs?: number;
+  /** Aborted when the execution deadline passes: the current step fails, later steps are skipped, artifacts are still uploaded. */
+  signal?: AbortSignal;
+  /** Aborted when the caller stops waiting for this run (deadline backstop): open contexts are closed so the browser does not leak. */
+  abandonSignal?: AbortSignal;
+}
+
+export interface VisualDiffSettings {
+  /** Max share of differing pixels, in percent. */
+  maxDiffPercent: number;
+  /** pixelmatch per-pixel colour threshold (0–1). */
+  pixelThreshold: number;
 }
 
 /** Test data source and verification state. UNVERIFIED when source=AI_SIMULATION and verified=false and previously_passed≠true. */
@@ -262,6 +673,10 @@ export interface TestDataMeta {
 
 export interface ExecutionMetadata {
   base_url: string;
+  /** Browser engine the execution ran on (E2E only). */
+  browser_engine?: BrowserEngine;
+  /** Device profile the context was created from (E2E only; absent = desktop default). */
+  device_profile?: DeviceProfileMeta;
   /** Test data snapshot + source/verification metadata. source/verified/previously_passed drive DATA_NOT_VERIFIED classification. */
   test_data: {
     username?: string;
@@ -275,20 +690,92 @@ export interface ExecutionMetadata {
     previously_passed?: boolean;
     [key: string]: string | undefined | boolean | "AI_SIMULATION" | "FIXED" | "USER_INPUT" | undefined;
   };
+  /** Fixture files set on file inputs by "upload" steps. */
+  uploaded_files?: UploadedFileMeta[];
+  /** Files captured by "download" steps (uploaded as artifacts). */
+  downloads?: DownloadedFileMeta[];
+  /**
+   * Login session cache outcome: reused = cached session accepted, login step skipped; expired = cached session
+   * rejected (login page shown), logged in again; new = no cached session, logged in and cached.
+   */
+  auth_session?: "reused" | "expired" | "new";
+  /** Network mocks applied to the context, with how many requests each intercepted. */
+  network_mocks?: NetworkMockMeta[];
+  /** Multi-actor runs: artifacts of each secondary actor's context (the first actor's are videoUrl/traceUrl/harUrl). */
+  actor_artifacts?: ActorArtifactsMeta[];
+}
+
+export interface NetworkMockMeta {
+  url: string;
+  method: string | null;
+  status: number | null;
+  delay_ms: number | null;
+  hits: number;
+}
+
+export interface DeviceProfileMeta {
+  name: string;
+  viewport: { width: number; height: number };
+  user_agent: string;
+  device_scale_factor: number;
+  is_mobile: boolean;
+  has_touch: boolean;
+}
+
+export interface UploadedFileMeta {
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  step_index: number;
 }
 
-/** Aggregate execution status. FAILED_UNVERIFIED_DATA = assertion failed on unverified AI data; bug creation only for FAILED_BUSINESS. */
+/** Video, trace and HAR recorded in the context of an actor a switch_actor step switched to. */
+export interface ActorArtifactsMeta {
+  role: string;
+  video_url?: string;
+  trace_url?: string;
+  har_url?: string;
+}
+
+/** File captured by a "download" step and stored as an execution artifact. */
+export interface DownloadedFileMeta {
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  step_index: number;
+  url: string;
+}
+
+/** Native alert / confirm / prompt / beforeunload dialog and how the runner answered it. */
+export interface DialogLogEntry {
+  type: string;
+  message: string;
+  accepted: boolean;
+  step_index: number | null;
+}
+
+/**
+ * Aggregate execution status. FAILED_UNVERIFIED_DATA = assertion failed on unverified AI data; bug creation only for FAILED_BUSINESS.
+ * TIMEOUT = the execution deadline passed or a step ran past its limit.
+ */
 export type ExecutionStatusType =
   | "PASSED"
   | "FAILED_BUSINESS"
   | "FAILED_UNVERIFIED_DATA"
   | "FAILED_SELECTOR"
+  | "TIMEOUT"
   | "FAILED";
 
 export interface RunResult {
   passed: boolean;
   duration: number;
   videoUrl?: string;
+  /** Playwright trace zip URL; set only when the trace was kept per traceMode. */
+  traceUrl?: string;
+  /** HAR network log URL. */
+  harUrl?: string;
+  /** JSON console/page error log URL; set only when errors were captured. */
+  consoleLogUrl?: string;
   screenshotUrls?: string[];
   stepLog?: StepLogEntry[];
   resultSummary?: string;
@@ -299,21 +786,6 @@ export interface RunResult {
   execution_status?: ExecutionStatusType;
 }
 
-/** Replace <PLACEHOLDER> with variables["PLACEHOLDER"]. Unknown placeholders left as-is. */
-function replacePlaceholders(
-  str: string | undefined,
-  variables: Record<string, string>
-): string | undefined {
-  if (str == null || str === "") return str;
-  if (Object.keys(variables).length === 0) return str;
-  let out = str;
-  for (const [key, value] of Object.entries(variables)) {
-    const placeholder = `<${key}>`;
-    if (out.includes(placeholder)) out = out.split(placeholder).join(value);
-  }
-  return out;
-}
-
 /** Extract label from stored selector for readable step (e.g. "Login as Operator" from role selector). */
 function getLabelFromSelector(stored: string | null): string | undefined {
   if (!stored?.trim()) return undefined;
@@ -327,7 +799,7 @@ function getLabelFromSelector(stored: string | null): string | undefined {
 }
 
 /** Build a short DOM summary for AI (interactive elements + visible text). */
-async function getDomSnapshot(page: Page, maxChars = 8000): Promise<string> {
+async function getDomSnapshot(page: Page | Frame, maxChars = 8000): Promise<string> {
   const summary = await page.evaluate((max) => {
     const parts: string[] = [];
     const interactive = document.querySelectorAll(
@@ -399,8 +871,406 @@ const SELECTOR_FALLBACK_ACTIONS = new Set([
   "hover",
   "assert_visible",
   "assert_text",
+  "upload",
+  "double_click",
+  "check",
+  "uncheck",
+  "drag",
+  "press_key",
+  "scroll",
+  "download",
+  "copy",
+  "extract",
 ]);
 
+/** press_key / scroll that pre-exec resolved without an element: the key goes to the focused element, the page scrolls. */
+function actsOnPage(step: AgentExecutionStep): boolean {
+  return (
+    (step.action === "press_key" || step.action === "scroll") &&
+    step.resolution_status === "RESOLVED" &&
+    !step.resolved_selector
+  );
+}
+
+const MAX_A11Y_TARGETS = 5;
+
+/** Index in ACCESSIBILITY_IMPACTS; unknown impact (null) ranks below minor. */
+function impactRank(impact: string | null | undefined): number {
+  return impact ? (ACCESSIBILITY_IMPACTS as readonly string[]).indexOf(impact) : -1;
+}
+
+/**
+ * accessibility: inject axe-core into the page (evaluated via DevTools, so page CSP does not block it) and audit
+ * the current DOM. Fails when any violation is at or above failImpact.
+ */
+async function runAccessibilityAudit(
+  page: Page,
+  options: AccessibilityAssertionOptions,
+  defaultFailImpact: AccessibilityImpact
+): Promise<{ error: string | null; accessibility: AccessibilityLog }> {
+  const failImpact =
+    options.impact && impactRank(options.impact) >= 0 ? (options.impact as AccessibilityImpact) : defaultFailImpact;
+  await page.evaluate(axe.source);
+  const result = await page.evaluate(
+    async ({ include, tags, maxTargets }) => {
+      const runner = (window as unknown as { axe: typeof axe }).axe;
+      const res = await runner.run(
+        include ? { include: [include] } : document,
+        tags.length ? { runOnly: { type: "tag", values: tags } } : {}
+      );
+      return {
+        passes: res.passes.length,
+        violations: res.violations.map((v) => ({
+          id: v.id,
+          impact: v.impact ?? null,
+          help: v.help,
+          help_url: v.helpUrl,
+          nodes: v.nodes.length,
+          targets: v.nodes.slice(0, maxTargets).map((n) => n.target.map(String).join(" ")),
+        })),
+      };
+    },
+    { include: options.include ?? null, tags: options.tags ?? [], maxTargets: MAX_A11Y_TARGETS }
+  );
+  const violations = result.violations as AccessibilityViolation[];
+  const blocking = violations.filter((v) => impactRank(v.impact) >= impactRank(failImpact));
+  const accessibility: AccessibilityLog = {
+    url: page.url(),
+    fail_impact: failImpact,
+    violations,
+    passes: result.passes,
+    passed: blocking.length === 0,
+  };
+  if (blocking.length === 0) return { error: null, accessibility };
+  return {
+    error: `Accessibility: ${blocking.length} violation(s) at or above "${failImpact}": ${blocking
+      .slice(0, 5)
+      .map((v) => `${v.id} (${v.impact})`)
+      .join(", ")}`,
+    accessibility,
+  };
+}
+
+/**
+ * visual_match: screenshot the viewport (or target element) and diff it against the approved baseline.
+ * Selector ignore regions are masked by Playwright; rectangles (CSS px, relative to the captured area) are blanked
+ * before diffing. Without a baseline the step passes and only captures, so the screenshot can be approved.
+ */
+async function runVisualMatch(params: {
+  page: Page;
+  target: Locator | null;
+  options: VisualMatchOptions;
+  executionId: string;
+  stepIndex: number;
+  viewportKey: string;
+  deviceScaleFactor: number;
+  browserEngine: BrowserEngine;
+  testCaseId?: string;
+  environmentId?: string;
+  visualDiff: VisualDiffSettings;
+}): Promise<{ error: string | null; visual: VisualMatchLog }> {
+  const { page, target, options, executionId, stepIndex, viewportKey, deviceScaleFactor, visualDiff } = params;
+  const threshold = options.threshold ?? visualDiff.maxDiffPercent;
+  const regions: VisualIgnoreRegion[] = options.ignore_regions ?? [];
+  const mask = regions
+    .filter((r): r is { selector: string } => "selector" in r)
+    .map((r) => getLocatorFromStoredSelector(page, r.selector));
+  const rects: PixelRegion[] = regions
+    .filter((r): r is PixelRegion => !("selector" in r))
+    .map((r) => ({
+      x: r.x * deviceScaleFactor,
+      y: r.y * deviceScaleFactor,
+      width: r.width * deviceScaleFactor,
+      height: r.height * deviceScaleFactor,
+    }));
+  const shotOptions = { type: "png" as const, animations: "disabled" as const, caret: "hide" as const, mask };
+  const actual = target ? await target.screenshot(shotOptions) : await page.screenshot(shotOptions);
+  const actualKey = executionVisualKey(executionId, stepIndex, "actual");
+  const { url: actualUrl } = await uploadArtifact(actualKey, actual, "image/png");
+  const visual: VisualMatchLog = {
+    status: "NO_BASELINE",
+    viewport: viewportKey,
+    browser_engine: params.browserEngine,
+    actual_key: actualKey,
+    actual_url: actualUrl,
+    threshold,
+  };
+  if (!params.testCaseId || !params.environmentId) return { error: null, visual };
+
+  const stored = await loadVisualBaseline({
+    testCaseId: params.testCaseId,
+    environmentId: params.environmentId,
+    browserEngine: params.browserEngine,
+    viewport: viewportKey,
+    stepIndex,
+  });
+  if (!stored) return { error: null, visual };
+  visual.baseline_url = stored.baseline.imageUrl;
+
+  const result = diffPngImages(stored.content, actual, {
+    pixelThreshold: visualDiff.pixelThreshold,
+    ignoreRegions: rects,
+  });
+  if (result.sizeMismatch) {
+    visual.status = "SIZE_MISMATCH";
+    return {
+      error: `Visual mismatch: screenshot is ${result.actual.width}x${result.actual.height}, baseline is ${result.baseline.width}x${result.baseline.height}`,
+      visual,
+    };
+  }
+  const { url: diffUrl } = await uploadArtifact(
+    executionVisualKey(executionId, stepIndex, "diff"),
+    result.diffImage,
+    "image/png"
+  );
+  visual.diff_url = diffUrl;
+  visual.diff_percent = Number(result.diffPercent.toFixed(4));
+  if (result.diffPercent > threshold) {
+    visual.status = "MISMATCH";
+    return {
+      error: `Visual mismatch: ${result.diffPercent.toFixed(2)}% of pixels differ (threshold ${threshold}%)`,
+      visual,
+    };
+  }
+  visual.status = "MATCH";
+  return { error: null, visual };
+}
+
+/** Common toast / snackbar containers (ARIA live regions, Sonner, Toastify, MUI, Ant Design, generic classes). */
+const TOAST_SELECTOR = [
+  "[role='alert']",
+  "[role='status']",
+  "[aria-live='polite']",
+  "[aria-live='assertive']",
+  "[data-sonner-toast]",
+  ".Toastify__toast",
+  ".toast",
+  ".notification",
+  ".snackbar",
+  ".MuiSnackbar-root",
+  ".ant-message-notice",
+  ".ant-notification-notice",
+].join(", ");
+
+/** How long value checks (text, count, attribute, toast, ...) wait for the page to reach the expected state. */
+const ASSERTION_POLL_MS = 5000;
+
+/** Re-read until ok(value) or timeout; returns the last value read. Read errors count as "not yet". */
+async function pollUntil<T>(read: () => Promise<T>, ok: (value: T) => boolean, timeoutMs = ASSERTION_POLL_MS): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await read().catch(() => undefined as T);
+    if ((value !== undefined && ok(value)) || Date.now() >= deadline) return value;
+    await new Promise((r) => setTimeout(r, 250));
+  }
+}
+
+/** One-time code inputs of 2FA pages (not any "code" field: promo and postal codes match that): a single field, or the first of one-box-per-digit inputs. */
+const OTP_INPUT_SELECTOR = [
+  'input[autocomplete="one-time-code"]',
+  'input[name*="otp" i]',
+  'input[id*="otp" i]',
+  'input[name*="totp" i]',
+  'input[id*="totp" i]',
+  'input[name*="mfa" i]',
+  'input[id*="mfa" i]',
+  'input[name*="2fa" i]',
+  'input[id*="2fa" i]',
+].join(", ");
+const OTP_LABEL_REGEX = /one[- ]time|\botp\b|verification code|authentication code|security code|\b2fa\b|two[- ]factor|authenticator/i;
+const OTP_SUBMIT_SELECTOR = [
+  'button[type="submit"]', 'input[type="submit"]',
+  'button:has-text("Verify")', 'button:has-text("Continue")', 'button:has-text("Submit")', 'button:has-text("Confirm")',
+].join(", ");
+/** How long the login flow waits for an OTP prompt after the password was submitted. */
+const OTP_PROMPT_TIMEOUT_MS = 5000;
+/** A code with less validity left than this is not typed; the runner waits for the next one. */
+const TOTP_MIN_REMAINING_MS = 3000;
+
+/** Visible OTP input on root, or null when none shows up within timeoutMs. */
+async function findOtpInput(root: Page | Frame, timeoutMs: number): Promise<Locator | null> {
+  const input = root.locator(OTP_INPUT_SELECTOR).or(root.getByLabel(OTP_LABEL_REGEX)).filter({ visible: true }).first();
+  return input
+    .waitFor({ state: "visible", timeout: timeoutMs })
+    .then(() => input)
+    .catch(() => null);
+}
+
+/** Type the current code from secret into the OTP input; split per-digit inputs get one key per box. */
+async function enterTotpCode(input: Locator, secret: string): Promise<void> {
+  const remaining = totpRemainingMs(secret);
+  if (remaining < TOTP_MIN_REMAINING_MS) await new Promise((r) => setTimeout(r, remaining + 250));
+  const code = generateTotp(secret);
+  if ((await input.getAttribute("maxlength").catch(() => null)) === "1") {
+    // The app moves focus to the next box on each key
+    await input.click({ timeout: 10000 });
+    await input.pressSequentially(code, { delay: 50 });
+    return;
+  }
+  await input.clear();
+  await input.fill(code, { timeout: 10000 });
+}
+
+const COUNT_CHECKS: Record<ElementCountAssertion["operator"], [string, (actual: number, expected: number) => boolean]> = {
+  eq: ["exactly", (a, e) => a === e],
+  gte: ["at least", (a, e) => a >= e],
+  lte: ["at most", (a, e) => a <= e],
+  gt: ["more than", (a, e) => a > e],
+  lt: ["fewer than", (a, e) => a < e],
+};
+
+const MASK_CHARS_REGEX = /^[\s*•●·x]+$/i;
+
+/** Mask captured values for executionMetadata / stepLog: tokens and ids are shown only by prefix. */
+export function maskExtractedValue(value: string): string {
+  return value.length > 8 ? `${value.slice(0, 4)}****` : "****";
+}
+
+const DIALOG_ACTIONS = new Set(["accept_dialog", "dismiss_dialog"]);
+/** In-page modal buttons used when a dialog step finds no native dialog. */
+const MODAL_SELECTOR = "[role='dialog']:visible, [role='alertdialog']:visible, dialog[open]:visible";
+const MODAL_ACCEPT_REGEX = /^\s*(ok|okay|confirm|yes|delete|accept|continue|approve|save|submit|done)\s*$/i;
+const MODAL_DISMISS_REGEX = /^\s*(cancel|no|close|dismiss)\s*$/i;
+const MAX_DIALOG_MESSAGE_LENGTH = 500;
+
+/** Dialog steps from index on, up to the next non-dialog step; native dialogs are answered in this order. */
+function dialogStepsFrom(steps: AgentExecutionStep[], index: number): AgentExecutionStep[] {
+  const answers: AgentExecutionStep[] = [];
+  for (let i = index; i < steps.length && DIALOG_ACTIONS.has(steps[i].action); i++) answers.push(steps[i]);
+  return answers;
+}
+
+/**
+ * Check one E2E assertion against the page. Returns a failure message, or null when it holds.
+ * element = assertion selector, or the step's own element when the assertion has none; text checks without a
+ * selector read the whole document of root (the active frame or page). Positive element checks throw (Playwright
+ * timeout) when the element never appears, so the caller's selector fallback can retry them.
+ */
+async function checkAssertion(
+  page: Page,
+  root: Page | Frame,
+  ass: AgentExecutionAssertion,
+  element: Locator,
+  context: { lastDocumentStatus: number | null; variables: Record<string, string> }
+): Promise<string | null> {
+  const expected = (value: unknown) => replacePlaceholders(String(value ?? ""), context.variables) ?? "";
+  const textScope = ass.selector ? element : root.locator("body");
+  const readText = () => textScope.innerText({ timeout: 2000 });
+  const preview = (text: string | undefined) => (text ?? "").replace(/\s+/g, " ").trim().slice(0, 100);
+
+  switch (ass.type) {
+    case "element_visible":
+      await element.first().waitFor({ state: "visible", timeout: 10000 });
+      return null;
+    case "element_not_visible": {
+      const hidden = await element
+        .first()
+        .waitFor({ state: "hidden", timeout: ASSERTION_POLL_MS })
+        .then(() => true, () => false);
+      return hidden ? null : "Expected element to be hidden, but it is still visible";
+    }
+    case "element_not_exists": {
+      const count = await pollUntil(() => element.count(), (n) => n === 0);
+      return count === 0 ? null : `Expected element not to exist, found ${count ?? "?"}`;
+    }
+    case "element_state": {
+      const state = String(ass.value ?? "").toLowerCase();
+      await element.first().waitFor({ state: "attached", timeout: 10000 });
+      const read = async () =>
+        state === "checked" || state === "unchecked" ? element.first().isChecked() : element.first().isEnabled();
+      const want = state === "checked" || state === "enabled";
+      const actual = await pollUntil(read, (v) => v === want);
+      return actual === want ? null : `Expected element to be ${state}`;
+    }
+    case "element_count": {
+      const { operator, count } = (ass.value ?? {}) as ElementCountAssertion;
+      const [label, check] = COUNT_CHECKS[operator] ?? COUNT_CHECKS.eq;
+      const actual = await pollUntil(() => element.count(), (n) => check(n, count));
+      return actual !== undefined && check(actual, count)
+        ? null
+        : `Expected ${label} ${count} matching elements, found ${actual ?? "?"}`;
+    }
+    case "attribute_value": {
+      const { name, value, match } = (ass.value ?? {}) as AttributeAssertion;
+      const want = expected(value);
+      await element.first().waitFor({ state: "attached", timeout: 10000 });
+      const ok = (v: string | null) => v != null && (match === "contains" ? v.includes(want) : v === want);
+      const actual = await pollUntil(() => element.first().getAttribute(name, { timeout: 2000 }), ok);
+      return ok(actual ?? null)
+        ? null
+        : `Expected attribute "${name}" ${match === "contains" ? "containing" : "to be"} "${want}", got: ${actual ?? "(missing)"}`;
+    }
+    case "input_value": {
+      const want = expected(ass.value);
+      await element.first().waitFor({ state: "attached", timeout: 10000 });
+      const actual = await pollUntil(() => element.first().inputValue({ timeout: 2000 }), (v) => v === want);
+      return actual === want ? null : `Expected value "${want}", got: ${preview(actual)}`;
+    }
+    case "text_contains": {
+      if (ass.value == null) return null;
+      const want = expected(ass.value);
+      const text = await pollUntil(readText, (t) => t.includes(want));
+      return text?.includes(want) ? null : `Expected text containing "${want}", got: ${preview(text)}`;
+    }
+    case "text_not_contains": {
+      const unwanted = expected(ass.value);
+      const text = await pollUntil(readText, (t) => !t.includes(unwanted));
+      return text !== undefined && !text.includes(unwanted) ? null : `Expected text not to contain "${unwanted}"`;
+    }
+    case "text_matches": {
+      const regex = toAssertionRegExp(expected(ass.value));
+      if (!regex) return `Invalid pattern in assertion: ${String(ass.value)}`;
+      const text = await pollUntil(readText, (t) => regex.test(t));
+      return text !== undefined && regex.test(text) ? null : `Expected text matching ${regex}, got: ${preview(text)}`;
+    }
+    case "toast_text": {
+      const toasts = page.locator(TOAST_SELECTOR);
+      const want = ass.value == null ? null : expected(ass.value);
+      const readToasts = async () => (await toasts.allInnerTexts()).join("\n");
+      const text = await pollUntil(readToasts, (t) => (want == null ? t.trim().length > 0 : t.includes(want)));
+      if (want == null) return text?.trim() ? null : "Expected a toast notification, none was shown";
+      return text?.includes(want) ? null : `Expected toast containing "${want}", got: ${preview(text) || "(no toast)"}`;
+    }
+    case "table_row": {
+      const cells = (((ass.value ?? {}) as TableRowAssertion).cells ?? []).map(expected);
+      const scope = ass.selector ? element : root.locator("body");
+      const rows = scope.locator("tr, [role='row']");
+      const hasRow = async () => (await rows.allInnerTexts()).some((row) => cells.every((c) => row.includes(c)));
+      const found = await pollUntil(hasRow, Boolean);
+      return found ? null : `Expected a table row containing ${cells.map((c) => `"${c}"`).join(", ")}`;
+    }
+    case "url_contains": {
+      if (ass.value == null) return null;
+      const want = expected(ass.value);
+      const url = await pollUntil(async () => page.url(), (u) => u.includes(want));
+      return url.includes(want) ? null : `Expected URL containing "${want}", got: ${url}`;
+    }
+    case "status_code": {
+      const want = Number(ass.value);
+      if (context.lastDocumentStatus == null) return `Expected status ${want}, but no page response was recorded`;
+      return context.lastDocumentStatus === want
+        ? null
+        : `Expected status ${want}, got: ${context.lastDocumentStatus}`;
+    }
+    case "text_masked": {
+      const target = element.first();
+      await target.waitFor({ state: "attached", timeout: 10000 });
+      const isInput = await target.evaluate((el) => el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement);
+      if (isInput && ((await target.getAttribute("type")) ?? "").toLowerCase() === "password") return null;
+      const shown = isInput ? await target.inputValue() : await target.innerText();
+      if (ass.value != null) {
+        const raw = expected(ass.value);
+        return shown.includes(raw) ? `Expected "${raw}" to be masked, but it is shown in plain text` : null;
+      }
+      return MASK_CHARS_REGEX.test(shown) || /[*•●]{3,}/.test(shown) ? null : `Expected masked text, got: ${preview(shown)}`;
+    }
+    case "fill_value":
+      return null;
+    default:
+      return `Unsupported assertion type: ${ass.type}`;
+  }
+}
+
 /**
  * Run Playwright from execution.agent_execution only. Optional AI fallback when element not found.
  */
@@ -410,20 +1280,38 @@ export async function runPlaywrightExecutionFromAgentExecution(
   const {
     baseUrl,
     agentExecution,
-    credentials,
+    credentials: primaryCredentials,
+    actors = [],
     executionId,
     variables = {},
     projectId,
     applicationId,
     executionSelectorCache = new Map() as ExecutionSelectorCache,
     testDataMeta,
+    traceMode = "on_failure",
+    browserEngine = "chromium",
+    deviceProfile,
+    testCaseId,
+    environmentId,
+    visualDiff = DEFAULT_VISUAL_DIFF,
+    accessibilityFailImpact = "serious",
+    sessionCache,
+    loginPageSignature,
+    stepTimeoutMs = 0,
+    signal,
+    abandonSignal,
   } = options;
+  /** Credentials of the active actor; switch_actor steps change it. */
+  let credentials = primaryCredentials;
   const stepLog: StepLogEntry[] = [];
   const screenshotUrls: string[] = [];
   const readableSteps: string[] = [];
   const startTime = Date.now();
   let passed = true;
   let lastError: string | undefined;
+  let executionTimedOut = false;
+  /** A step ran past its limit; its work may still be running, so no further step runs. */
+  let stepAbandoned = false;
 
   // Test data snapshot + source/verification metadata. Defaults avoid DATA_NOT_VERIFIED for existing flows.
   const test_data: ExecutionMetadata["test_data"] = {
@@ -434,8 +1322,15 @@ export async function runPlaywrightExecutionFromAgentExecution(
     verified: testDataMeta?.verified ?? true,
     previously_passed: testDataMeta?.previously_passed ?? false,
   };
+  const device = deviceContextOptions(deviceProfile, browserEngine);
+  const viewportKey = buildViewportKey(
+    device.options.viewport ?? DESKTOP_VIEWPORT,
+    device.options.deviceScaleFactor ?? 1
+  );
   const executionMetadata: ExecutionMetadata = {
     base_url: baseUrl,
+    browser_engine: browserEngine,
+    ...(device.profile && { device_profile: device.profile }),
     test_data,
   };
 
@@ -445,20 +1340,115 @@ export async function runPlaywrightExecutionFromAgentExecution(
     test_data.verified === false &&
     test_data.previously_passed !== true;
 
-  const videoDir = path.join(process.cwd(), "test-results", "videos", executionId);
+  const { videoDir, harPath, tracePath } = recordingPaths(executionId, 0);
   try {
     fs.mkdirSync(videoDir, { recursive: true });
   } catch {
     // ignore
   }
 
-  const b = await getConnectedBrowser();
-  const context = await b.newContext({
-    baseURL: baseUrl,
-    deviceScaleFactor: 1,
-    recordVideo: { dir: videoDir, size: { width: 1280, height: 720 } },
-    viewport: { width: 1280, height: 720 },
-  });
+  // Fixture files are downloaded from S3 once per execution and removed after the run
+  const uploadsDir = path.join(process.cwd(), "test-results", "uploads", executionId);
+  const fixturePaths = new Map<string, { filePath: string; contentType: string }>();
+  async function getFixtureFile(fileName: string): Promise<{ filePath: string; contentType: string }> {
+    const cached = fixturePaths.get(fileName.toLowerCase());
+    if (cached) return cached;
+    if (!projectId) throw new Error("Upload requires a project to resolve fixture files");
+    const fixture = await loadFixtureFile(projectId, fileName);
+    if (!fixture) {
+      throw new Error(`Fixture file "${fileName}" is missing; upload it on the project's Fixture Files tab`);
+    }
+    fs.mkdirSync(uploadsDir, { recursive: true });
+    const filePath = path.join(uploadsDir, fixture.file.fileName);
+    fs.writeFileSync(filePath, fixture.content);
+    const local = { filePath, contentType: fixture.file.contentType };
+    fixturePaths.set(fileName.toLowerCase(), local);
+    return local;
+  }
+
+  // Cached login session: only for runs with a login step and a username/password to key it on
+  const hasLoginStep = agentExecution.steps.some((s) => s.action === "login");
+  const sessionKeyFor = (creds: ActorCredentials | undefined): SessionCacheKey | null =>
+    sessionCache && creds?.username && creds?.password && hasLoginStep
+      ? {
+          key: { environmentId: sessionCache.environmentId, role: creds.role },
+          fingerprint: credentialFingerprint(creds.username, creds.password),
+        }
+      : null;
+  const loadCachedSession = async (key: SessionCacheKey | null): Promise<CachedStorageState | null> =>
+    key
+      ? loadStorageState(key.key, key.fingerprint).catch((err) => {
+          console.warn("[PlaywrightRunner] Could not load cached login session:", err instanceof Error ? err.message : err);
+          return null;
+        })
+      : null;
+  let sessionKey = sessionKeyFor(credentials);
+  let cachedSession = await loadCachedSession(sessionKey);
+
+  const b = await getConnectedBrowser(browserEngine);
+  /** Context for one actor, recording video and HAR to that actor's paths. */
+  const newActorContext = async (session: CachedStorageState | null, recording: RecordingPaths): Promise<BrowserContext> => {
+    const ctx = await b.newContext({
+      ...device.options,
+      ...(session && { storageState: session as BrowserContextOptions["storageState"] }),
+      baseURL: baseUrl,
+      recordVideo: { dir: recording.videoDir, size: device.options.viewport ?? DESKTOP_VIEWPORT },
+      // HAR keeps request/response metadata only; bodies are omitted to keep artifacts small, credentials are stripped on upload
+      recordHar: { path: recording.harPath, content: "omit" as const },
+    });
+    // Copy steps read the clipboard; only Chromium has grantable clipboard permissions (others fall back to element text)
+    if (browserEngine === "chromium" && agentExecution.steps.some((s) => s.action === "copy")) {
+      await ctx.grantPermissions(["clipboard-read", "clipboard-write"]).catch(() => {});
+    }
+    return ctx;
+  };
+  const primaryContext = await newActorContext(cachedSession, { videoDir, harPath, tracePath });
+  /** Contexts opened by switch_actor steps, with their recordings; closed with the primary context. */
+  const actorContexts: Array<{ role: string; context: BrowserContext; recording: RecordingPaths }> = [];
+  // Closing the contexts makes the pending Playwright calls throw, so the abandoned run unwinds instead of leaking
+  const closeAbandoned = () => {
+    for (const { context: ctx } of actorContexts) void ctx.close().catch(() => {});
+    void primaryContext.close().catch(() => {});
+  };
+  abandonSignal?.addEventListener("abort", closeAbandoned, { once: true });
+
+  // Console errors from every page in the context (including popups), attributed to the running step
+  const consoleErrors: ConsoleErrorEntry[] = [];
+  let activeStepIndex: number | null = null;
+  const recordConsoleError = (entry: Omit<ConsoleErrorEntry, "step_index" | "at">) => {
+    if (consoleErrors.length >= MAX_CONSOLE_ERRORS) return;
+    consoleErrors.push({
+      ...entry,
+      message: entry.message.slice(0, MAX_CONSOLE_MESSAGE_LENGTH),
+      step_index: activeStepIndex,
+      at: new Date().toISOString(),
+    });
+  };
+  const watchConsole = (ctx: BrowserContext) => {
+    ctx.on("console", (msg) => {
+      if (msg.type() !== "error") return;
+      const loc = msg.location();
+      recordConsoleError({
+        type: "console",
+        message: msg.text(),
+        ...(loc.url && { url: `${loc.url}:${loc.lineNumber}:${loc.columnNumber}` }),
+      });
+    });
+    ctx.on("weberror", (webError) => {
+      const page = webError.page();
+      recordConsoleError({
+        type: "pageerror",
+        message: webError.error().message,
+        ...(page && { url: page.url() }),
+      });
+    });
+  };
+  watchConsole(primaryContext);
+  /** Failure message for no-console-errors checks (all errors so far in this execution); null when clean. */
+  const describeConsoleErrors = (): string | null =>
+    consoleErrors.length > 0
+      ? `Expected no console errors, got ${consoleErrors.length}: ${consoleErrors[0].message.slice(0, 200)}`
+      : null;
 
   let skipReadablePush = false; // set true during AI-fallback retry to avoid duplicate step lines
   async function logStep(description: string, action: () => Promise<void>): Promise<void> {
@@ -466,34 +1456,303 @@ export async function runPlaywrightExecutionFromAgentExecution(
     await action();
   }
 
+  /** Set at the end of the try block: a run that threw part-way keeps its trace like a failed one. */
+  let completed = false;
   try {
-    if (credentials?.username && credentials?.password) {
-      await context.setHTTPCredentials({
-        username: credentials.username,
-        password: credentials.password,
-      });
+    // Inside the try so a failure here still closes the context (finally)
+    if (agentExecution.network_mocks?.length) {
+      executionMetadata.network_mocks = await applyNetworkMocks(primaryContext, agentExecution.network_mocks);
+      if (process.env.NODE_ENV !== "test") {
+        console.info("[PlaywrightRunner] network mocks applied", agentExecution.network_mocks.length);
+      }
     }
-
-    const page = await context.newPage();
-    page.on("crash", () => {
-      throw new Error("Browser page crashed during execution");
-    });
-    if (credentials?.apiToken) {
-      await page.addInitScript((token: string) => {
-        (window as unknown as { __apiToken?: string }).__apiToken = token;
-      }, credentials.apiToken);
+    if (traceMode !== "off") {
+      await primaryContext.tracing.start({ screenshots: true, snapshots: true });
     }
 
+    /** Context of the active actor (switch_actor); primaryContext until the first switch. */
+    let context = primaryContext;
+    const prepareContext = async (ctx: BrowserContext, creds: ActorCredentials | undefined) => {
+      if (creds?.username && creds?.password) {
+        await ctx.setHTTPCredentials({
+          username: creds.username,
+          password: creds.password,
+        });
+      }
+      if (primaryCredentials?.apiToken) {
+        // Context-wide so tabs and popups opened by the app get the token too
+        await ctx.addInitScript((token: string) => {
+          (window as unknown as { __apiToken?: string }).__apiToken = token;
+        }, primaryCredentials.apiToken);
+      }
+    };
+    const openMainPage = async (ctx: BrowserContext): Promise<Page> => {
+      const p = await ctx.newPage();
+      p.on("crash", () => {
+        throw new Error("Browser page crashed during execution");
+      });
+      return p;
+    };
+    await prepareContext(context, credentials);
+
+    let mainPage = await openMainPage(context);
+    /** Active tab / popup (switch_page, switch_main); steps and closures act on it. */
+    let page = mainPage;
+    /** Active iframe inside page (switch_frame); null = the page's main document. */
+    let activeFrame: Frame | null = null;
+    /** Frame refs from page down to activeFrame, for step logs and re-finding a frame that was re-attached. */
+    let frameRefs: string[] = [];
+    let visitedPages = new Set<Page>([mainPage]);
+    /** Locator root for step selectors: the active frame, or the active page. */
+    const root = (): Page | Frame => activeFrame ?? page;
+    // status_code assertions check the last main-frame document response of the active page
+    let lastDocumentStatus: number | null = null;
+    // Native dialogs block the page until answered: the dialog steps that follow the running step decide how,
+    // anything unexpected is dismissed (Playwright's default without a listener)
+    const dialogEvents: DialogLogEntry[] = [];
+    let dialogAnswers: AgentExecutionStep[] = [];
+    /** dialogEvents before this index belong to steps before the last non-dialog step. */
+    let dialogsSeen = 0;
+    const watchContext = (ctx: BrowserContext) => {
+      ctx.on("response", (response) => {
+        const request = response.request();
+        if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+          lastDocumentStatus = response.status();
+        }
+      });
+      ctx.on("dialog", (dialog: Dialog) => {
+        const answer = dialogAnswers.shift();
+        const accepted = answer?.action === "accept_dialog";
+        dialogEvents.push({
+          type: dialog.type(),
+          message: dialog.message().slice(0, MAX_DIALOG_MESSAGE_LENGTH),
+          accepted,
+          step_index: activeStepIndex,
+        });
+        const promptText = replacePlaceholders(answer?.prompt_text ?? undefined, variables);
+        void (accepted ? dialog.accept(promptText) : dialog.dismiss()).catch(() => {});
+      });
+    };
+    watchContext(context);
+
+    /** Login sub-flow: fill the environment credentials on the login page and submit; caches the session when it went through. */
+    const runLoginFlow = async (submitLabel: string | null) => {
+      // Captured up front: credentials changes when another actor takes over
+      const username = credentials?.username;
+      const password = credentials?.password;
+      const totpSecret = credentials?.totpSecret;
+      if (!username || !password) return;
+      // Already on the login page (conditional check or redirect): fill it in place
+      if (page.url() === "about:blank" || !(await isLoginPage(page, loginPageSignature))) {
+        await logStep(`Open browser at URL ${baseUrl}`, async () => {
+          await page.goto(baseUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
+          await page.waitForLoadState("domcontentloaded");
+          await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
+          await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+        });
+      }
+      const loginFormSelector = [
+        'input[name="username"]', 'input[name="email"]', 'input[type="email"]',
+        'input[name="password"]', 'input[type="password"]',
+        'button[type="submit"]', 'button:has-text("Log in")', 'button:has-text("Login")', 'button:has-text("Sign in")',
+      ].join(", ");
+      await page.locator(loginFormSelector).first().waitFor({ state: "visible", timeout: 20000 }).catch(() => {});
+      await logStep(`Enter username: ${username}`, async () => {
+        const tryFill = async (loc: ReturnType<typeof page.locator>) => {
+          const el = loc.first();
+          await el.waitFor({ state: "visible", timeout: 8000 });
+          await el.clear();
+          await el.fill(username, { timeout: 10000 });
+        };
+        const byLabel = await page.getByLabel(/username|email|e-?mail/i).first().count().then((c) => c > 0);
+        if (byLabel) {
+          await tryFill(page.getByLabel(/username|email|e-?mail/i));
+          return;
+        }
+        const usernameSelectors = ['input[name="username"]', 'input[name="email"]', 'input[type="email"]', '#username', '#email', 'input[autocomplete="username"]', 'input[autocomplete="email"]', 'input[placeholder*="mail" i]', 'input[placeholder*="user" i]'];
+        for (const sel of usernameSelectors) {
+          const loc = page.locator(sel);
+          if ((await loc.count()) > 0) {
+            await tryFill(loc);
+            break;
+          }
+        }
+      });
+      await logStep("Enter password: ****", async () => {
+        const tryFill = async (loc: ReturnType<typeof page.locator>) => {
+          const el = loc.first();
+          await el.waitFor({ state: "visible", timeout: 8000 });
+          const tagName = await el.evaluate((e) => e.tagName);
+          if (tagName !== "INPUT" && tagName !== "TEXTAREA") {
+            throw new Error(
+              "Password locator did not resolve to INPUT or TEXTAREA element (got <" + tagName + ">)."
+            );
+          }
+          await el.clear();
+          await el.fill(password, { timeout: 10000 });
+        };
+        // Prefer input[type="password"] — do NOT use getByLabel(/password/i); it can resolve to "Show password" button
+        const passwordLoc = page.locator('input[type="password"]');
+        if ((await passwordLoc.count()) > 0) {
+          await tryFill(passwordLoc);
+          return;
+        }
+        const passwordSelectors = ['input[name="password"]', '#password', 'input[placeholder*="password" i]'];
+        for (const sel of passwordSelectors) {
+          const loc = page.locator(sel);
+          if ((await loc.count()) > 0) {
+            await tryFill(loc);
+            break;
+          }
+        }
+      });
+      await logStep(submitLabel ? `Click '${submitLabel}'` : "Click submit to login", async () => {
+        const submitSelectors = ['button[type="submit"]', 'input[type="submit"]', 'button:has-text("Sign In")', 'button:has-text("Log in")', 'button:has-text("Login")', 'button:has-text("Sign in")', '[type="submit"]'];
+        for (const sel of submitSelectors) {
+          const btn = page.locator(sel);
+          if ((await btn.count()) > 0) {
+            await btn.first().click({ timeout: 10000 });
+            break;
+          }
+        }
+      });
+      await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+      // 2FA: the app asks for a one-time code after the password
+      const otpInput = totpSecret ? await findOtpInput(page, OTP_PROMPT_TIMEOUT_MS) : null;
+      if (totpSecret && otpInput) {
+        await logStep("Enter OTP code: ******", async () => {
+          await enterTotpCode(otpInput, totpSecret);
+          // Split-digit forms often submit on the last digit; only click when the field is still shown
+          await page.waitForTimeout(500);
+          if (!(await otpInput.isVisible().catch(() => false))) return;
+          const submit = page.locator(OTP_SUBMIT_SELECTOR).filter({ visible: true }).first();
+          if ((await submit.count()) > 0) await submit.click({ timeout: 10000 });
+          else await otpInput.press("Enter");
+        });
+        await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+      }
+      // Cache the session only when the login form is gone (login went through)
+      if (sessionKey && sessionCache && !(await isLoginPage(page, loginPageSignature))) {
+        if (context === primaryContext) executionMetadata.auth_session ??= "new";
+        const state = await context.storageState();
+        await saveStorageState(sessionKey.key, sessionKey.fingerprint, state, sessionCache.ttlMinutes).catch((err) => {
+          console.warn("[PlaywrightRunner] Could not cache login session:", err instanceof Error ? err.message : err);
+        });
+      }
+    };
+    /**
+     * Login step for the active actor: reuses its cached session when the app accepts it; CONDITIONAL only logs in
+     * when the login page is shown. Returns whether the login form was filled in.
+     */
+    const performLogin = async (conditional: boolean, submitLabel: string | null): Promise<boolean> => {
+      if (cachedSession || conditional) {
+        await logStep(`Open browser at URL ${baseUrl}`, async () => {
+          await page.goto(baseUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
+          await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
+          await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+        });
+        const onLoginPage = await isLoginPage(page, loginPageSignature);
+        // auth_session describes the first actor's login
+        const primary = context === primaryContext;
+        if (cachedSession) {
+          cachedSession = null;
+          if (!onLoginPage) {
+            if (primary) executionMetadata.auth_session = "reused";
+            readableSteps.push("Reuse saved login session");
+            return false;
+          }
+          // App rejected the cached session: drop it and log in normally
+          if (primary) executionMetadata.auth_session = "expired";
+          if (sessionKey) await invalidateStorageState(sessionKey.key).catch(() => {});
+          await context.clearCookies();
+        } else if (!onLoginPage) {
+          readableSteps.push("Login page not shown, login skipped");
+          return false;
+        }
+      }
+      await runLoginFlow(submitLabel);
+      return true;
+    };
+    /** CONDITIONAL auth: a navigate step that lands on the login page logs in and reopens its target. */
+    const conditionalLogin = agentExecution.steps.some((s) => s.action === "login" && s.login_mode === "conditional");
+
     const steps = [...agentExecution.steps].sort((a, b) => a.stepIndex - b.stepIndex);
 
+    // Multi-actor runs ("maker submits, checker approves"): each role gets its own context, logged in on first use
+    const multiActor = steps.some((s) => s.action === "switch_actor");
+    let actorRole = credentials?.role?.trim() || "default";
+    const actorSessions = new Map<string, ActorSession>();
+    const saveActor = () => {
+      actorSessions.set(actorRole.toLowerCase(), {
+        role: actorRole,
+        credentials,
+        context,
+        mainPage,
+        page,
+        activeFrame,
+        frameRefs,
+        visitedPages,
+        sessionKey,
+        cachedSession,
+      });
+    };
+    const restoreActor = (actor: ActorSession) => {
+      actorRole = actor.role;
+      credentials = actor.credentials;
+      context = actor.context;
+      mainPage = actor.mainPage;
+      page = actor.page;
+      activeFrame = actor.activeFrame;
+      frameRefs = actor.frameRefs;
+      visitedPages = actor.visitedPages;
+      sessionKey = actor.sessionKey;
+      cachedSession = actor.cachedSession;
+    };
+
     for (const step of steps) {
+      if (signal?.aborted) {
+        executionTimedOut = true;
+        lastError = new ExecutionTimeoutError().message;
+        break;
+      }
       const stepStart = Date.now();
+      activeStepIndex = step.stepIndex;
+      const stepPosition = steps.indexOf(step);
+      if (!DIALOG_ACTIONS.has(step.action) || stepPosition === 0) {
+        dialogsSeen = dialogEvents.length;
+        dialogAnswers = dialogStepsFrom(steps, DIALOG_ACTIONS.has(step.action) ? stepPosition : stepPosition + 1);
+      }
+      // A popup that closed itself (e.g. after OAuth consent) hands control back to the main page
+      if (page.isClosed()) {
+        page = mainPage;
+        activeFrame = null;
+        frameRefs = [];
+        if (process.env.NODE_ENV !== "test") console.info("[PlaywrightRunner] active tab closed, back on main page");
+      } else if (activeFrame?.isDetached()) {
+        // The iframe was replaced (e.g. 3-D Secure challenge reloads): find it again by the same refs
+        let frame: Page | Frame = page;
+        try {
+          for (const ref of frameRefs) frame = await findFrame(frame, ref);
+          activeFrame = frame as Frame;
+        } catch {
+          // Left detached: the step fails with Playwright's "frame was detached" error
+        }
+      }
+      const stepPageIndex = context.pages().indexOf(page);
+      const stepFrame = frameRefs.join(" > ");
+      const stepLimitMs = step.timeout_ms ?? stepTimeoutMs;
       let stepPassed = true;
       let stepError: string | undefined;
       /** Classification: set when step fails (assertion vs selector vs action). */
       let stepFailureType: StepFailureType | undefined;
+      let stepVisual: VisualMatchLog | undefined;
+      let stepAccessibility: AccessibilityLog | undefined;
+      let stepLoginTriggered: boolean | undefined;
+      let stepAssertionResults: AssertionResultLog[] | undefined;
+      let stepDownload: DownloadedFileMeta | undefined;
+      let stepExtracted: Record<string, string> | undefined;
       let selector = step.resolved_selector;
-      let loc = getLocatorFromStoredSelector(page, selector);
+      let loc = getLocatorFromStoredSelector(root(), selector);
       let label = getLabelFromSelector(selector);
       // Use TC step text (from semantic_key) when selector has no label, so readable steps match the test case
       const stepDescription = semanticKeyToDescription(step.semantic_key ?? "");
@@ -509,7 +1768,7 @@ export async function runPlaywrightExecutionFromAgentExecution(
             step.semantic_key ?? selector
           );
           for (const candidate of candidates) {
-            const fallbackLoc = getLocatorFromStoredSelector(page, candidate);
+            const fallbackLoc = getLocatorFromStoredSelector(root(), candidate);
             if (await validateLocator(fallbackLoc, "fill")) {
               selector = candidate;
               loc = fallbackLoc;
@@ -544,82 +1803,49 @@ export async function runPlaywrightExecutionFromAgentExecution(
         console.info("[PlaywrightRunner] step", JSON.stringify(stepLogPayload));
       }
 
+      const applyVisualMatch = async (target: Locator | null, value: unknown) => {
+        const result = await runVisualMatch({
+          page,
+          target,
+          options: (value ?? {}) as VisualMatchOptions,
+          executionId,
+          stepIndex: step.stepIndex,
+          viewportKey,
+          deviceScaleFactor: device.options.deviceScaleFactor ?? 1,
+          browserEngine,
+          testCaseId,
+          environmentId,
+          visualDiff,
+        });
+        stepVisual = result.visual;
+        if (result.error) {
+          stepPassed = false;
+          stepError = result.error;
+          stepFailureType = "ASSERTION_FAILED";
+        }
+        return result.error;
+      };
+
+      const applyAccessibilityAudit = async (value: unknown) => {
+        const result = await runAccessibilityAudit(
+          page,
+          (value ?? {}) as AccessibilityAssertionOptions,
+          accessibilityFailImpact
+        );
+        stepAccessibility = result.accessibility;
+        if (result.error) {
+          stepPassed = false;
+          stepError = result.error;
+          stepFailureType = "ASSERTION_FAILED";
+        }
+        return result.error;
+      };
+
       const doStep = async () => {
         switch (step.action) {
           case "login": {
             if (credentials?.username && credentials?.password) {
-              await logStep(`Open browser at URL ${baseUrl}`, async () => {
-                await page.goto(baseUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
-                await page.waitForLoadState("domcontentloaded");
-                await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
-                await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
-              });
-              const loginFormSelector = [
-                'input[name="username"]', 'input[name="email"]', 'input[type="email"]',
-                'input[name="password"]', 'input[type="password"]',
-                'button[type="submit"]', 'button:has-text("Log in")', 'button:has-text("Login")', 'button:has-text("Sign in")',
-              ].join(", ");
-              await page.locator(loginFormSelector).first().waitFor({ state: "visible", timeout: 20000 }).catch(() => {});
-              await logStep(`Enter username: ${credentials.username}`, async () => {
-                const tryFill = async (loc: ReturnType<typeof page.locator>) => {
-                  const el = loc.first();
-                  await el.waitFor({ state: "visible", timeout: 8000 });
-                  await el.clear();
-                  await el.fill(credentials.username ?? "", { timeout: 10000 });
-                };
-                const byLabel = await page.getByLabel(/username|email|e-?mail/i).first().count().then((c) => c > 0);
-                if (byLabel) {
-                  await tryFill(page.getByLabel(/username|email|e-?mail/i));
-                  return;
-                }
-                const usernameSelectors = ['input[name="username"]', 'input[name="email"]', 'input[type="email"]', '#username', '#email', 'input[autocomplete="username"]', 'input[autocomplete="email"]', 'input[placeholder*="mail" i]', 'input[placeholder*="user" i]'];
-                for (const sel of usernameSelectors) {
-                  const loc = page.locator(sel);
-                  if ((await loc.count()) > 0) {
-                    await tryFill(loc);
-                    break;
-                  }
-                }
-              });
-              await logStep("Enter password: ****", async () => {
-                const tryFill = async (loc: ReturnType<typeof page.locator>) => {
-                  const el = loc.first();
-                  await el.waitFor({ state: "visible", timeout: 8000 });
-                  const tagName = await el.evaluate((e) => e.tagName);
-                  if (tagName !== "INPUT" && tagName !== "TEXTAREA") {
-                    throw new Error(
-                      "Password locator did not resolve to INPUT or TEXTAREA element (got <" + tagName + ">)."
-                    );
-                  }
-                  await el.clear();
-                  await el.fill(credentials.password ?? "", { timeout: 10000 });
-                };
-                // Prefer input[type="password"] — do NOT use getByLabel(/password/i); it can resolve to "Show password" button
-                const passwordLoc = page.locator('input[type="password"]');
-                if ((await passwordLoc.count()) > 0) {
-                  await tryFill(passwordLoc);
-                  return;
-                }
-                const passwordSelectors = ['input[name="password"]', '#password', 'input[placeholder*="password" i]'];
-                for (const sel of passwordSelectors) {
-                  const loc = page.locator(sel);
-                  if ((await loc.count()) > 0) {
-                    await tryFill(loc);
-                    break;
-                  }
-                }
-              });
-              await logStep(label ? `Click '${label}'` : "Click submit to login", async () => {
-                const submitSelectors = ['button[type="submit"]', 'input[type="submit"]', 'button:has-text("Sign In")', 'button:has-text("Log in")', 'button:has-text("Login")', 'button:has-text("Sign in")', '[type="submit"]'];
-                for (const sel of submitSelectors) {
-                  const btn = page.locator(sel);
-                  if ((await btn.count()) > 0) {
-                    await btn.first().click({ timeout: 10000 });
-                    break;
-                  }
-                }
-              });
-              await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+              stepLoginTriggered = await performLogin(step.login_mode === "conditional", label ?? null);
             }
             break;
           }
@@ -634,6 +1860,14 @@ export async function runPlaywrightExecutionFromAgentExecution(
               await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
               await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
             });
+            if (conditionalLogin && (await isLoginPage(page, loginPageSignature))) {
+              stepLoginTriggered = true;
+              readableSteps.push("Redirected to login page, logging in");
+              await runLoginFlow(null);
+              await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+              await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
+              await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+            }
             break;
           }
           case "click":
@@ -666,6 +1900,126 @@ export async function runPlaywrightExecutionFromAgentExecution(
             );
             break;
           }
+          case "double_click":
+            await logStep(
+              label ? `Double-click '${label}'` : stepDescription ? `Double-click '${stepDescription}'` : "Double-click element",
+              async () => {
+                await loc.dblclick({ timeout: 10000 });
+              }
+            );
+            break;
+          case "check":
+          case "uncheck": {
+            const verb = step.action === "check" ? "Check" : "Uncheck";
+            await logStep(
+              label ? `${verb} '${label}'` : stepDescription ? `${verb} '${stepDescription}'` : `${verb} checkbox`,
+              async () => {
+                // setChecked verifies the new state, so custom checkboxes that ignore the click fail here
+                await loc.setChecked(step.action === "check", { timeout: 10000 });
+              }
+            );
+            break;
+          }
+          case "press_key": {
+            const key = step.key;
+            if (!key) throw new Error("Could not determine which key to press from step text");
+            if (actsOnPage(step)) {
+              await logStep(`Press ${key}`, async () => {
+                await page.keyboard.press(key);
+              });
+            } else {
+              await logStep(
+                label ? `Press ${key} in '${label}'` : stepDescription ? `Press ${key} in '${stepDescription}'` : `Press ${key}`,
+                async () => {
+                  await loc.press(key, { timeout: 10000 });
+                }
+              );
+            }
+            await page.waitForLoadState("networkidle", { timeout: 5000 }).catch(() => {});
+            break;
+          }
+          case "scroll": {
+            const scrollTo = step.scroll_to;
+            if (scrollTo) {
+              await logStep(`Scroll ${scrollTo === "top" || scrollTo === "bottom" ? `to ${scrollTo} of page` : scrollTo}`, async () => {
+                await root().evaluate((where) => {
+                  if (where === "top") window.scrollTo(0, 0);
+                  else if (where === "bottom") window.scrollTo(0, document.documentElement.scrollHeight);
+                  else window.scrollBy(0, (where === "down" ? 1 : -1) * Math.round(window.innerHeight * 0.8));
+                }, scrollTo);
+              });
+            } else {
+              await logStep(
+                label ? `Scroll to '${label}'` : stepDescription ? `Scroll to '${stepDescription}'` : "Scroll to element",
+                async () => {
+                  await loc.scrollIntoViewIfNeeded({ timeout: 10000 });
+                }
+              );
+            }
+            break;
+          }
+          case "drag": {
+            const drop = step.drop_target;
+            if (!drop) throw new Error('Could not determine drop target from step text (expected e.g. "Drag card to Done column")');
+            const dropDescription = semanticKeyToDescription(drop.semantic_key);
+            const dropCacheKey = `${applicationId ?? ""}:${step.frame_context ?? ""}:${drop.semantic_key}`;
+            let dropSelector = drop.resolved_selector ?? executionSelectorCache.get(dropCacheKey)?.selector ?? null;
+            // Drop target unknown to selector knowledge: resolve with AI + DOM once per execution
+            if (!dropSelector && projectId && applicationId && !executionSelectorCache.has(dropCacheKey)) {
+              try {
+                const result = await resolveWithAI(dropDescription, await getDomSnapshot(root()), {
+                  page: root(),
+                  projectId,
+                  applicationId,
+                  semanticKey: drop.semantic_key,
+                  frameContext: step.frame_context ?? "",
+                  skipKnowledgeLookup: true,
+                  action: "drop",
+                });
+                dropSelector = result.storedSelector?.trim() || null;
+              } catch (err) {
+                if (process.env.NODE_ENV !== "test") {
+                  console.info("[PlaywrightRunner] drop target resolution failed", {
+                    stepIndex: step.stepIndex,
+                    semanticKey: drop.semantic_key,
+                    error: err instanceof Error ? err.message : String(err),
+                  });
+                }
+              }
+              executionSelectorCache.set(dropCacheKey, {
+                status: dropSelector ? "FOUND_IN_AI" : "NOT_FOUND",
+                selector: dropSelector,
+              });
+            }
+            if (!dropSelector) {
+              stepPassed = false;
+              stepError = `Drop target '${dropDescription}' could not be resolved on the page`;
+              stepFailureType = "SELECTOR_NOT_FOUND";
+              break;
+            }
+            const dropLoc = getLocatorFromStoredSelector(root(), dropSelector);
+            const dropLabel = getLabelFromSelector(dropSelector) ?? dropDescription;
+            await logStep(
+              `Drag '${label ?? (stepDescription || "element")}' to '${dropLabel}'`,
+              async () => {
+                await loc.dragTo(dropLoc, { timeout: 10000 });
+              }
+            );
+            // Learned drop targets go to selector knowledge like AI-resolved step selectors (also after a source-selector retry)
+            const dropFromAI = !drop.resolved_selector && executionSelectorCache.get(dropCacheKey)?.status === "FOUND_IN_AI";
+            if (dropFromAI && projectId && applicationId) {
+              await upsertSelector({
+                projectId,
+                applicationId,
+                semanticKey: drop.semantic_key,
+                frameContext: step.frame_context ?? "",
+                selector: dropSelector,
+              }).catch((err) => {
+                if (process.env.NODE_ENV !== "test") console.warn("[PlaywrightRunner] Skipping drop target save", err);
+              });
+            }
+            break;
+          }
           case "hover":
             await logStep(
               label ? `Hover over '${label}'` : stepDescription ? `Hover over '${stepDescription}'` : "Hover over element",
@@ -707,14 +2061,347 @@ export async function runPlaywrightExecutionFromAgentExecution(
             if (stepPassed) readableSteps.push(`Verify URL contains "${expected}"`);
             break;
           }
+          case "assert_no_console_errors": {
+            const consoleError = describeConsoleErrors();
+            if (consoleError) {
+              stepPassed = false;
+              stepError = consoleError;
+              stepFailureType = "ASSERTION_FAILED";
+            }
+            if (stepPassed) readableSteps.push("Verify no console errors");
+            break;
+          }
+          case "assert_visual_match": {
+            await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
+            await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {});
+            await applyVisualMatch(
+              selector ? loc : null,
+              step.assertion?.type === "visual_match" ? step.assertion.value : null
+            );
+            if (stepPassed) readableSteps.push("Verify page matches visual baseline");
+            break;
+          }
+          case "assert_accessibility": {
+            await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
+            await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {});
+            // Checked by the assertion block below when the step carries an accessibility assertion
+            if (step.assertion?.type !== "accessibility") await applyAccessibilityAudit(null);
+            if (stepPassed) readableSteps.push("Run accessibility audit");
+            break;
+          }
           case "wait": {
             await logStep("Wait for page to settle", async () => {
               await new Promise((r) => setTimeout(r, 1000));
             });
             break;
           }
-          case "upload":
-            throw new Error("Upload action not yet implemented in Playwright runner");
+          case "upload": {
+            const fileName = replacePlaceholders(step.upload_file ?? undefined, variables)?.trim();
+            if (!fileName) throw new Error("Upload step has no fixture file name");
+            const { filePath, contentType } = await getFixtureFile(fileName);
+            await logStep(
+              label ? `Upload '${fileName}' to '${label}'` : stepDescription ? `Upload '${fileName}' (${stepDescription})` : `Upload '${fileName}'`,
+              async () => {
+                // No selector yet: use the page's file input directly; AI fallback only when there is none
+                const target = selector ? loc : root().locator('input[type="file"]').first();
+                if (!selector && (await target.count()) === 0) throw new Error("No file input found on page");
+                const isFileInput = await target
+                  .evaluate((el) => el instanceof HTMLInputElement && el.type === "file", undefined, { timeout: 10000 })
+                  .catch(() => false);
+                if (isFileInput) {
+                  await target.setInputFiles(filePath, { timeout: 10000 });
+                } else {
+                  // Styled upload buttons/dropzones: open the native chooser and feed it the file
+                  const [chooser] = await Promise.all([
+                    page.waitForEvent("filechooser", { timeout: 10000 }),
+                    target.click({ timeout: 10000 }),
+                  ]);
+                  await chooser.setFiles(filePath);
+                }
+              }
+            );
+            // AI-fallback retry re-runs doStep; record each step's upload once
+            const uploaded = (executionMetadata.uploaded_files ??= []);
+            if (!uploaded.some((f) => f.step_index === step.stepIndex)) {
+              uploaded.push({
+                file_name: path.basename(filePath),
+                content_type: contentType,
+                size_bytes: fs.statSync(filePath).size,
+                step_index: step.stepIndex,
+              });
+            }
+            break;
+          }
+          case "accept_dialog":
+          case "dismiss_dialog": {
+            const accept = step.action === "accept_dialog";
+            await logStep(accept ? "Accept the dialog" : "Dismiss the dialog", async () => {
+              // Usually answered already while the previous step ran; otherwise wait for the app to open it
+              const event = await pollUntil(async () => dialogEvents[dialogsSeen], (e) => e != null);
+              if (event) {
+                dialogsSeen += 1;
+                const expected = replacePlaceholders(step.dialog_message ?? undefined, variables);
+                if (expected && !event.message.toLowerCase().includes(expected.toLowerCase())) {
+                  throw new Error(`Expected dialog message containing "${expected}", got "${event.message.slice(0, 100)}"`);
+                }
+                return;
+              }
+              // No native dialog: the app may use an in-page modal for the same confirmation
+              const modal = root().locator(MODAL_SELECTOR).last();
+              if ((await modal.count()) === 0) throw new Error("Expected a browser dialog, none was shown");
+              if (step.dialog_message) {
+                const text = (await modal.innerText({ timeout: 5000 })) ?? "";
+                const expected = replacePlaceholders(step.dialog_message, variables) ?? "";
+                if (!text.toLowerCase().includes(expected.toLowerCase())) {
+                  throw new Error(`Expected dialog message containing "${expected}", got "${text.slice(0, 100)}"`);
+                }
+              }
+              const button = modal.getByRole("button", { name: accept ? MODAL_ACCEPT_REGEX : MODAL_DISMISS_REGEX }).first();
+              if ((await button.count()) === 0) {
+                throw new Error(`Dialog has no ${accept ? "confirm" : "cancel"} button`);
+              }
+              await button.click({ timeout: 10000 });
+            });
+            break;
+          }
+          case "download": {
+            let downloaded: DownloadedFileMeta | undefined;
+            let downloadError: string | null = null;
+            await logStep(
+              label ? `Download file from '${label}'` : stepDescription ? `Download file (${stepDescription})` : "Download file",
+              async () => {
+                const [download] = await Promise.all([
+                  page.waitForEvent("download", { timeout: 30000 }),
+                  loc.click({ timeout: 10000 }),
+                ]);
+                const filePath = await download.path();
+                const fileName = download.suggestedFilename();
+                const content = fs.readFileSync(filePath);
+                downloadError = checkDownload(fileName, content, step.download);
+                const contentType = downloadContentType(fileName);
+                const { url } = await uploadArtifact(
+                  executionDownloadKey(executionId, step.stepIndex, fileName),
+                  content,
+                  contentType
+                );
+                downloaded = {
+                  file_name: fileName,
+                  content_type: contentType,
+                  size_bytes: content.length,
+                  step_index: step.stepIndex,
+                  url,
+                };
+              }
+            );
+            if (downloaded) {
+              const downloads = (executionMetadata.downloads ??= []);
+              // AI-fallback retry re-runs doStep; keep the last file per step
+              const i = downloads.findIndex((f) => f.step_index === step.stepIndex);
+              if (i >= 0) downloads[i] = downloaded;
+              else downloads.push(downloaded);
+              stepDownload = downloaded;
+            }
+            if (downloadError) {
+              stepPassed = false;
+              stepError = downloadError;
+              stepFailureType = "ASSERTION_FAILED";
+            }
+            break;
+          }
+          case "copy": {
+            const variable = step.variable;
+            if (!variable) throw new Error("Copy step has no variable to store the copied text in");
+            await logStep(
+              label ? `Copy '${label}' as ${variable}` : stepDescription ? `Copy ${stepDescription} as ${variable}` : `Copy value as ${variable}`,
+              async () => {
+                // Text from an earlier copy must not pass for this one: clear the clipboard, or (when the engine does
+                // not allow writing) wait for the value to change
+                const readClipboard = () => page.evaluate(() => navigator.clipboard.readText());
+                const cleared = await page
+                  .evaluate(() => navigator.clipboard.writeText(""))
+                  .then(() => true)
+                  .catch(() => false);
+                const previous = cleared ? "" : await readClipboard().catch(() => "");
+                await loc.click({ timeout: 10000 });
+                // Copy buttons write asynchronously; give the clipboard a moment, then fall back to the element's own text
+                const clipboard = await pollUntil(
+                  readClipboard,
+                  (text) => text.trim() !== "" && text !== previous,
+                  2000
+                );
+                const value =
+                  (clipboard !== previous ? clipboard?.trim() : "") ||
+                  (await loc.inputValue({ timeout: 2000 }).catch(() => null))?.trim() ||
+                  (await loc.innerText({ timeout: 2000 })).trim();
+                if (!value) throw new Error("Nothing was copied");
+                variables[variable] = value;
+                const masked = maskExtractedValue(value);
+                test_data[variable] = masked;
+                stepExtracted = { [variable]: masked };
+              }
+            );
+            break;
+          }
+          case "extract": {
+            const variable = step.variable;
+            if (!variable) throw new Error("Extract step has no variable to store the value in");
+            const attribute = step.extract_attribute;
+            const raw = attribute
+              ? await loc.getAttribute(attribute, { timeout: 10000 })
+              : await loc.evaluate(
+                  (el) =>
+                    el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement
+                      ? el.value
+                      : (el as HTMLElement).innerText,
+                  undefined,
+                  { timeout: 10000 }
+                );
+            const element = label || stepDescription || "element";
+            const source = attribute ? `${attribute} of ${element}` : element;
+            if (raw == null) throw new Error(`Element has no attribute "${attribute}"`);
+            let value = raw.trim();
+            if (step.extract_pattern) {
+              const pattern = toAssertionRegExp(step.extract_pattern);
+              if (!pattern) throw new Error(`Invalid extract pattern: ${step.extract_pattern}`);
+              const match = value.match(pattern);
+              if (!match) {
+                stepPassed = false;
+                stepError = `Value "${value.slice(0, 100)}" does not match ${pattern}`;
+                stepFailureType = "ASSERTION_FAILED";
+                break;
+              }
+              value = (match[1] ?? match[0]).trim();
+            }
+            if (!value) {
+              stepPassed = false;
+              stepError = `Nothing to extract: ${source} is empty`;
+              stepFailureType = "ASSERTION_FAILED";
+              break;
+            }
+            variables[variable] = value;
+            const masked = maskExtractedValue(value);
+            test_data[variable] = masked;
+            stepExtracted = { [variable]: masked };
+            // Pushed after the read so the line shows the captured (masked) value
+            readableSteps.push(`Save '${source}' as ${variable} (${masked})`);
+            break;
+          }
+          case "enter_otp": {
+            const secret = credentials?.totpSecret;
+            if (!secret) throw new Error(`No TOTP secret configured for credential role "${actorRole}"`);
+            await logStep("Enter OTP code: ******", async () => {
+              const input = await findOtpInput(root(), 10000);
+              if (!input) throw new Error("No OTP input found on the page");
+              await enterTotpCode(input, secret);
+            });
+            break;
+          }
+          case "switch_actor": {
+            const role = step.actor?.trim();
+            if (!role) throw new Error("Could not determine which actor to switch to from step text");
+            if (role.toLowerCase() === actorRole.toLowerCase()) {
+              await logStep(`Continue as ${actorRole}`, async () => {});
+              break;
+            }
+            const known = actorSessions.get(role.toLowerCase());
+            if (known) {
+              await logStep(`Switch to actor ${known.role}`, async () => {
+                saveActor();
+                restoreActor(known);
+                if (!page.isClosed()) await page.bringToFront();
+              });
+              break;
+            }
+            const next = actors.find((a) => a.role?.trim().toLowerCase() === role.toLowerCase());
+            if (!next) throw new Error(`No credential with role "${role}" in the environment`);
+            await logStep(`Switch to actor ${next.role}`, async () => {
+              const nextCredentials = { ...next, apiToken: primaryCredentials?.apiToken };
+              const nextSessionKey = sessionKeyFor(nextCredentials);
+              const nextCachedSession = await loadCachedSession(nextSessionKey);
+              const recording = recordingPaths(executionId, actorContexts.length + 1);
+              const ctx = await newActorContext(nextCachedSession, recording);
+              actorContexts.push({ role: next.role ?? role, context: ctx, recording });
+              if (traceMode !== "off") await ctx.tracing.start({ screenshots: true, snapshots: true });
+              watchConsole(ctx);
+              watchContext(ctx);
+              if (agentExecution.network_mocks?.length) {
+                await applyNetworkMocks(ctx, agentExecution.network_mocks, executionMetadata.network_mocks);
+              }
+              await prepareContext(ctx, nextCredentials);
+              const nextPage = await openMainPage(ctx);
+              saveActor();
+              restoreActor({
+                role: next.role ?? role,
+                credentials: nextCredentials,
+                context: ctx,
+                mainPage: nextPage,
+                page: nextPage,
+                activeFrame: null,
+                frameRefs: [],
+                visitedPages: new Set([nextPage]),
+                sessionKey: nextSessionKey,
+                cachedSession: nextCachedSession,
+              });
+            });
+            // The new actor starts signed out: log in the way the run's login step does, or just open the app
+            const loginStep = steps.find((s) => s.action === "login");
+            if (loginStep && credentials?.username && credentials?.password) {
+              stepLoginTriggered = await performLogin(loginStep.login_mode === "conditional", null);
+            } else {
+              await logStep(`Open browser at URL ${baseUrl}`, async () => {
+                await page.goto(baseUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
+                await waitForPageContent(page, PAGE_CONTENT_TIMEOUT_MS);
+              });
+            }
+            break;
+          }
+          case "switch_frame": {
+            const ref = step.frame;
+            if (!ref) throw new Error("Could not determine which frame to switch to from step text");
+            await logStep(`Switch to frame '${ref}'`, async () => {
+              activeFrame = await findFrame(root(), ref);
+            });
+            frameRefs = [...frameRefs, ref];
+            break;
+          }
+          case "switch_page": {
+            const target = step.page_target ?? "new";
+            await logStep(target === "new" ? "Switch to the new tab" : `Switch to tab ${target}`, async () => {
+              let next: Page | undefined;
+              if (target === "new") {
+                // The popup usually opened during the previous step; otherwise wait for the app to open one
+                next =
+                  context.pages().find((p) => !visitedPages.has(p) && !p.isClosed()) ??
+                  (await context.waitForEvent("page", { timeout: 15000 }).catch(() => undefined));
+                if (!next) throw new Error("No new tab or popup was opened within 15 s");
+              } else {
+                next = context.pages()[target - 1];
+                if (!next) throw new Error(`Tab ${target} does not exist (${context.pages().length} open)`);
+              }
+              await next.waitForLoadState("domcontentloaded", { timeout: 30000 }).catch(() => {});
+              await next.bringToFront();
+              visitedPages.add(next);
+              page = next;
+            });
+            activeFrame = null;
+            frameRefs = [];
+            break;
+          }
+          case "switch_main": {
+            if (step.frame_only) {
+              await logStep("Leave the frame", async () => {});
+            } else {
+              const closing = step.close_page && page !== mainPage;
+              await logStep(closing ? "Close the tab and return to the main page" : "Return to the main page", async () => {
+                if (closing && !page.isClosed()) await page.close();
+                page = mainPage;
+                await page.bringToFront();
+              });
+            }
+            activeFrame = null;
+            frameRefs = [];
+            break;
+          }
           default: {
             const allowed: string[] = [
               "navigate",
@@ -724,10 +2411,29 @@ export async function runPlaywrightExecutionFromAgentExecution(
               "assert_visible",
               "assert_text",
               "assert_url",
+              "assert_no_console_errors",
+              "assert_visual_match",
+              "assert_accessibility",
               "wait",
               "hover",
               "login",
               "upload",
+              "double_click",
+              "check",
+              "uncheck",
+              "drag",
+              "press_key",
+              "scroll",
+              "switch_frame",
+              "switch_page",
+              "switch_main",
+              "accept_dialog",
+              "dismiss_dialog",
+              "download",
+              "copy",
+              "extract",
+              "switch_actor",
+              "enter_otp",
             ];
             throw new Error(
               `Unsupported step action: "${step.action}". Allowed: ${allowed.join(", ")}`
@@ -735,41 +2441,35 @@ export async function runPlaywrightExecutionFromAgentExecution(
           }
         }
 
-        if (stepPassed && step.assertion) {
-          const ass = step.assertion;
-          const assLoc = getLocatorFromStoredSelector(page, ass.selector);
-          switch (ass.type) {
-            case "element_visible":
-              await assLoc.waitFor({ state: "visible", timeout: 10000 });
-              break;
-            case "element_not_visible":
-              await assLoc.waitFor({ state: "hidden", timeout: 5000 }).catch(() => {});
-              break;
-            case "element_not_exists":
-              await assLoc.waitFor({ state: "hidden", timeout: 3000 }).catch(() => {});
-              break;
-            case "url_contains":
-              if (ass.value != null && !page.url().includes(String(ass.value))) {
-                stepPassed = false;
-                stepError = `Expected URL containing "${ass.value}", got: ${page.url()}`;
-                stepFailureType = "ASSERTION_FAILED";
-              }
-              break;
-            case "text_contains":
-              if (ass.value != null) {
-                const text = await assLoc.textContent({ timeout: 5000 });
-                if (!text?.includes(String(ass.value))) {
-                  stepPassed = false;
-                  stepError = `Expected text containing "${ass.value}", got: ${text?.slice(0, 100)}`;
-                  stepFailureType = "ASSERTION_FAILED";
-                }
-              }
-              break;
-            case "status_code":
-              break;
-            case "text_masked":
-            default:
-              break;
+        const checks = [step.assertion, ...(step.assertions ?? [])].filter(
+          (a): a is AgentExecutionAssertion => a != null && a.type !== "fill_value"
+        );
+        if (stepPassed && checks.length > 0) {
+          stepAssertionResults = [];
+          const failures: string[] = [];
+          for (const ass of checks) {
+            const assLoc = ass.selector ? getLocatorFromStoredSelector(root(), ass.selector) : loc;
+            let failure: string | null;
+            switch (ass.type) {
+              case "visual_match":
+                failure = await applyVisualMatch(ass.selector ? assLoc : null, ass.value);
+                break;
+              case "accessibility":
+                failure = await applyAccessibilityAudit(ass.value);
+                break;
+              case "no_console_errors":
+                failure = describeConsoleErrors();
+                break;
+              default:
+                failure = await checkAssertion(page, root(), ass, assLoc, { lastDocumentStatus, variables });
+            }
+            stepAssertionResults.push({ type: ass.type, passed: !failure, ...(failure && { error: failure }) });
+            if (failure) failures.push(failure);
+          }
+          if (failures.length > 0) {
+            stepPassed = false;
+            stepError = failures.join("; ");
+            stepFailureType = "ASSERTION_FAILED";
           }
         }
 
@@ -799,17 +2499,19 @@ export async function runPlaywrightExecutionFromAgentExecution(
         }
       };
       try {
-        // PENDING_RUNTIME: no selector from pre-exec — go directly to fallback (AI with DOM)
+        // PENDING_RUNTIME: no selector from pre-exec — go directly to fallback (AI with DOM). Upload tries the page's file input first.
         if (
           !selector &&
           SELECTOR_FALLBACK_ACTIONS.has(step.action) &&
+          step.action !== "upload" &&
+          !actsOnPage(step) &&
           projectId &&
           applicationId
         ) {
           throw new Error("PENDING_RUNTIME");
         }
         if (!clickValidationFailed) {
-          await doStep();
+          await runWithStepLimit(doStep, stepLimitMs, signal);
           // PART 6: Auto-save to knowledge when resolved by AI and validation passed
           if (
             step.resolved_from === "ai" &&
@@ -831,6 +2533,7 @@ export async function runPlaywrightExecutionFromAgentExecution(
                   projectId,
                   applicationId,
                   semanticKey: step.semantic_key,
+                  frameContext: step.frame_context ?? "",
                   selector,
                   confidenceScore: 1,
                 });
@@ -844,14 +2547,23 @@ export async function runPlaywrightExecutionFromAgentExecution(
         }
       } catch (e) {
         const errMsg = e instanceof Error ? e.message : String(e);
-        if (
+        if (e instanceof StepTimeoutError || e instanceof ExecutionTimeoutError) {
+          // Checked first: a step that ran out of time must not trigger the AI selector fallback
+          stepPassed = false;
+          stepError = errMsg;
+          stepFailureType = "TIMEOUT";
+          lastError = stepError;
+          executionTimedOut = e instanceof ExecutionTimeoutError;
+          stepAbandoned = true;
+        } else if (
           projectId &&
           applicationId &&
           SELECTOR_FALLBACK_ACTIONS.has(step.action) &&
+          !actsOnPage(step) &&
           isSelectorRelatedError(errMsg)
         ) {
           try {
-            const cacheKey = `${applicationId}:${step.semantic_key ?? ""}`;
+            const cacheKey = `${applicationId}:${step.frame_context ?? ""}:${step.semantic_key ?? ""}`;
             const cached = executionSelectorCache.get(cacheKey);
             let newSelector: string | null = null;
             let cache_status: SelectorCacheEntry["status"] = "NOT_FOUND";
@@ -885,15 +2597,17 @@ export async function runPlaywrightExecutionFromAgentExecution(
             }
 
             if (!newSelector) {
-              const domSnapshot = await getDomSnapshot(page);
+              const domSnapshot = await getDomSnapshot(root());
               const stepDesc = semanticKeyToDescription(step.semantic_key ?? "");
               try {
                 const result = await resolveWithAI(stepDesc, domSnapshot, {
-                page,
+                page: root(),
                 projectId,
                 applicationId,
                 semanticKey: step.semantic_key,
+                frameContext: step.frame_context ?? "",
                 skipKnowledgeLookup: true,
+                action: step.action,
               });
                 newSelector = result.storedSelector ?? null;
                 if (newSelector) {
@@ -932,10 +2646,10 @@ export async function runPlaywrightExecutionFromAgentExecution(
 
             if (!newSelector?.trim()) throw new Error("AI returned empty selector");
             selector = newSelector;
-            loc = getLocatorFromStoredSelector(page, selector);
+            loc = getLocatorFromStoredSelector(root(), selector);
             label = getLabelFromSelector(selector);
             skipReadablePush = true;
-            await doStep();
+            await runWithStepLimit(doStep, stepLimitMs, signal);
             skipReadablePush = false;
             if (step.action === "fill" && isBodySelectorForFill(newSelector, "fill")) {
               if (process.env.NODE_ENV !== "test") {
@@ -948,6 +2662,7 @@ export async function runPlaywrightExecutionFromAgentExecution(
                   projectId,
                   applicationId,
                   semanticKey: step.semantic_key,
+                  frameContext: step.frame_context ?? "",
                   selector: newSelector,
                 });
               } catch (err) {
@@ -965,10 +2680,17 @@ export async function runPlaywrightExecutionFromAgentExecution(
                 selector: newSelector,
               });
             }
-          } catch (_) {
+          } catch (fallbackErr) {
             stepPassed = false;
-            stepError = errMsg;
-            stepFailureType = classifyStepFailure(errMsg);
+            if (fallbackErr instanceof StepTimeoutError || fallbackErr instanceof ExecutionTimeoutError) {
+              stepError = fallbackErr.message;
+              stepFailureType = "TIMEOUT";
+              executionTimedOut = fallbackErr instanceof ExecutionTimeoutError;
+              stepAbandoned = true;
+            } else {
+              stepError = errMsg;
+              stepFailureType = classifyStepFailure(errMsg);
+            }
             lastError = stepError;
           }
         } else {
@@ -985,6 +2707,8 @@ export async function runPlaywrightExecutionFromAgentExecution(
         stepFailureType === "ASSERTION_FAILED" && isUnverifiedData
           ? "DATA_NOT_VERIFIED"
           : stepFailureType ?? null;
+      const stepConsoleErrors = consoleErrors.filter((e) => e.step_index === step.stepIndex);
+      const stepDialogs = dialogEvents.filter((e) => e.step_index === step.stepIndex);
       stepLog.push({
         order: step.stepIndex,
         action: step.action,
@@ -994,43 +2718,86 @@ export async function runPlaywrightExecutionFromAgentExecution(
         failure_type: effectiveFailureType,
         error_message: stepError ?? null,
         screenshotUrl: stepLog.length < screenshotUrls.length ? screenshotUrls[screenshotUrls.length - 1] : undefined,
+        ...(stepConsoleErrors.length > 0 && { console_errors: stepConsoleErrors }),
+        ...(stepVisual && { visual: stepVisual }),
+        ...(stepAccessibility && { accessibility: stepAccessibility }),
+        ...(stepLoginTriggered !== undefined && { login_triggered: stepLoginTriggered }),
+        ...(stepAssertionResults && { assertions: stepAssertionResults }),
+        page_index: stepPageIndex,
+        ...(stepFrame && { frame: stepFrame }),
+        ...(multiActor && { actor: actorRole }),
+        ...(stepDialogs.length > 0 && { dialogs: stepDialogs }),
+        ...(stepDownload && { download: stepDownload }),
+        ...(stepExtracted && { extracted: stepExtracted }),
       });
+      if (executionTimedOut || stepAbandoned) break;
     }
+    if (executionTimedOut) {
+      passed = false;
+      if (process.env.NODE_ENV !== "test") {
+        console.info("[PlaywrightRunner] execution deadline passed; uploading captured artifacts", { executionId });
+      }
+    }
+    completed = true;
 
   } finally {
-    await context.close();
+    if (traceMode !== "off") {
+      // Stopping without a path discards the trace (on_failure, every step passed and the run did not throw)
+      const keepTrace = traceMode === "always" || !passed || !completed;
+      const traced = [{ context: primaryContext, recording: { tracePath } }, ...actorContexts];
+      for (const { context: ctx, recording } of traced) {
+        await ctx.tracing.stop(keepTrace ? { path: recording.tracePath } : undefined).catch((err) => {
+          if (process.env.NODE_ENV !== "test") console.warn("[PlaywrightRunner] Failed to save trace", err);
+        });
+      }
+    }
+    abandonSignal?.removeEventListener("abort", closeAbandoned);
+    for (const { context: ctx } of actorContexts) await ctx.close().catch(() => {});
+    await primaryContext.close();
     await new Promise(r => setTimeout(r, 2000));
-  }
-
-  const duration = Date.now() - startTime;
-  let videoUrl: string | undefined;
-  const videoPath = await findVideoFile(videoDir);
-  if (videoPath) {
-    const buf = fs.readFileSync(videoPath);
-    const key = executionVideoKey(executionId);
-    const { url } = await uploadArtifact(key, buf, "video/webm");
-    videoUrl = url;
     try {
-      fs.rmSync(videoDir, { recursive: true });
+      fs.rmSync(uploadsDir, { recursive: true, force: true });
     } catch {
       // ignore
     }
   }
 
-  // Aggregate execution status: DATA_NOT_VERIFIED > ASSERTION_FAILED (business) > SELECTOR_NOT_FOUND > other failure > PASSED.
-  // Bug creation must only trigger when execution_status === "FAILED_BUSINESS" (never for FAILED_SELECTOR or FAILED_UNVERIFIED_DATA).
-  let execution_status: ExecutionStatusType = "PASSED";
-  const failedSteps = stepLog.filter((s) => !s.passed);
-  if (failedSteps.some((s) => s.failure_type === "DATA_NOT_VERIFIED")) {
-    execution_status = "FAILED_UNVERIFIED_DATA";
-  } else if (failedSteps.some((s) => s.failure_type === "ASSERTION_FAILED")) {
-    execution_status = "FAILED_BUSINESS";
-  } else if (failedSteps.some((s) => s.failure_type === "SELECTOR_NOT_FOUND")) {
-    execution_status = "FAILED_SELECTOR";
-  } else if (failedSteps.length > 0) {
-    execution_status = "FAILED";
+  const duration = Date.now() - startTime;
+  const { videoUrl, traceUrl, harUrl } = await uploadRecording(
+    { videoDir, harPath, tracePath },
+    {
+      video: executionVideoKey(executionId),
+      trace: executionTraceKey(executionId),
+      har: executionHarKey(executionId),
+    }
+  );
+  if (actorContexts.length > 0) {
+    const actorArtifacts: ActorArtifactsMeta[] = [];
+    for (const [i, { role, recording }] of actorContexts.entries()) {
+      const urls = await uploadRecording(recording, {
+        video: executionActorArtifactKey(executionId, i + 1, "video.webm"),
+        trace: executionActorArtifactKey(executionId, i + 1, "trace.zip"),
+        har: executionActorArtifactKey(executionId, i + 1, "network.har"),
+      });
+      actorArtifacts.push({
+        role,
+        ...(urls.videoUrl && { video_url: urls.videoUrl }),
+        ...(urls.traceUrl && { trace_url: urls.traceUrl }),
+        ...(urls.harUrl && { har_url: urls.harUrl }),
+      });
+    }
+    executionMetadata.actor_artifacts = actorArtifacts;
   }
 
+  let consoleLogUrl: string | undefined;
+  if (consoleErrors.length > 0) {
+    const buf = Buffer.from(JSON.stringify(consoleErrors, null, 2));
+    const { url } = await uploadArtifact(executionConsoleLogKey(executionId), buf, "application/json");
+    consoleLogUrl = url;
+  }
+
+  const execution_status = executionTimedOut ? "TIMEOUT" : aggregateExecutionStatus(stepLog);
+
   // Optional auto promotion: when run passed with AI_SIMULATION data, mark verified and previously_passed for future runs.
   if (execution_status === "PASSED" && test_data.source === "AI_SIMULATION") {
     test_data.verified = true;
@@ -1041,6 +2808,9 @@ export async function runPlaywrightExecutionFromAgentExecution(
     passed,
     duration,
     videoUrl,
+    traceUrl,
+    harUrl,
+    consoleLogUrl,
     screenshotUrls: screenshotUrls.length ? screenshotUrls : undefined,
     stepLog,
     resultSummary: `${stepLog.filter((s) => s.passed).length}/${stepLog.length} steps passed`,
@@ -1051,11 +2821,124 @@ export async function runPlaywrightExecutionFromAgentExecution(
   };
 }
 
+/**
+ * Aggregate execution status: DATA_NOT_VERIFIED > ASSERTION_FAILED (business) > TIMEOUT > SELECTOR_NOT_FOUND > other failure > PASSED.
+ * Bug creation must only trigger when execution_status === "FAILED_BUSINESS" (never for FAILED_SELECTOR or FAILED_UNVERIFIED_DATA).
+ */
+export function aggregateExecutionStatus(stepLog: StepLogEntry[]): ExecutionStatusType {
+  const failedSteps = stepLog.filter((s) => !s.passed);
+  if (failedSteps.some((s) => s.failure_type === "DATA_NOT_VERIFIED")) return "FAILED_UNVERIFIED_DATA";
+  if (failedSteps.some((s) => s.failure_type === "ASSERTION_FAILED")) return "FAILED_BUSINESS";
+  if (failedSteps.some((s) => s.failure_type === "TIMEOUT")) return "TIMEOUT";
+  if (failedSteps.some((s) => s.failure_type === "SELECTOR_NOT_FOUND")) return "FAILED_SELECTOR";
+  if (failedSteps.length > 0) return "FAILED";
+  return "PASSED";
+}
+
+/** Local video dir, HAR and trace paths of one actor's context (actorIndex 0 = the first actor). */
+interface RecordingPaths {
+  videoDir: string;
+  harPath: string;
+  tracePath: string;
+}
+
+function recordingPaths(executionId: string, actorIndex: number): RecordingPaths {
+  const name = actorIndex === 0 ? executionId : `${executionId}-actor-${actorIndex}`;
+  return {
+    videoDir: path.join(process.cwd(), "test-results", "videos", name),
+    harPath: path.join(process.cwd(), "test-results", "har", `${name}.har`),
+    tracePath: path.join(process.cwd(), "test-results", "traces", `${name}.zip`),
+  };
+}
+
+/** Uploads a closed context's video, trace and HAR under the given keys and removes the local files. */
+async function uploadRecording(
+  recording: RecordingPaths,
+  keys: { video: string; trace: string; har: string }
+): Promise<{ videoUrl?: string; traceUrl?: string; harUrl?: string }> {
+  let videoUrl: string | undefined;
+  const videoPath = await findVideoFile(recording.videoDir);
+  if (videoPath) {
+    const buf = fs.readFileSync(videoPath);
+    const { url } = await uploadArtifact(keys.video, buf, "video/webm");
+    videoUrl = url;
+    try {
+      fs.rmSync(recording.videoDir, { recursive: true });
+    } catch {
+      // ignore
+    }
+  }
+
+  let traceUrl: string | undefined;
+  if (fs.existsSync(recording.tracePath)) {
+    const buf = fs.readFileSync(recording.tracePath);
+    const { url } = await uploadArtifact(keys.trace, buf, "application/zip");
+    traceUrl = url;
+    try {
+      fs.rmSync(recording.tracePath);
+    } catch {
+      // ignore
+    }
+  }
+
+  // HAR is written when the context closes
+  let harUrl: string | undefined;
+  if (fs.existsSync(recording.harPath)) {
+    const buf = sanitizeHar(fs.readFileSync(recording.harPath));
+    // Linked for download like the video, so it goes up with s3_acl: only the sanitised copy
+    if (buf) {
+      const { url } = await uploadArtifact(keys.har, buf, "application/json");
+      harUrl = url;
+    }
+    try {
+      fs.rmSync(recording.harPath);
+    } catch {
+      // ignore
+    }
+  }
+  return { videoUrl, traceUrl, harUrl };
+}
+
 async function findVideoFile(dir: string): Promise<string | null> {
   try {
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-    const file = entries.find((e) => e.isFile() && e.name.endsWith(".webm"));
-    return file ? path.join(dir, file.name) : null;
+    // Tabs and popups record their own video; the main page's is the longest
+    const files = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((e) => e.isFile() && e.name.endsWith(".webm"))
+      .map((e) => path.join(dir, e.name));
+    if (files.length === 0) return null;
+    return files.reduce((a, b) => (fs.statSync(b).size > fs.statSync(a).size ? b : a));
+  } catch {
+    return null;
+  }
+}
+
+/** HAR headers whose values are credentials; kept by name with the value replaced. */
+const HAR_SENSITIVE_HEADERS = new Set(["authorization", "proxy-authorization", "cookie", "set-cookie", "x-api-key"]);
+
+type HarHeader = { name: string; value: string };
+type HarMessage = { headers?: HarHeader[]; cookies?: unknown[]; postData?: unknown };
+
+/**
+ * HAR safe to upload: credential headers masked, cookies and request bodies (login form posts carry the password) dropped.
+ * Returns null when the file is not valid HAR JSON, so nothing unsanitised is uploaded.
+ */
+export function sanitizeHar(content: Buffer): Buffer | null {
+  try {
+    const har = JSON.parse(content.toString("utf8")) as { log?: { entries?: { request?: HarMessage; response?: HarMessage }[] } };
+    const clean = (message: HarMessage | undefined) => {
+      if (!message) return;
+      message.headers = message.headers?.map((h) =>
+        HAR_SENSITIVE_HEADERS.has(h.name.toLowerCase()) ? { ...h, value: "****" } : h
+      );
+      if (message.cookies) message.cookies = [];
+      delete message.postData;
+    };
+    for (const entry of har.log?.entries ?? []) {
+      clean(entry.request);
+      clean(entry.response);
+    }
+    return Buffer.from(JSON.stringify(har));
   } catch {
     return null;
   }